@@ -0,0 +1,379 @@
+/**
+ * Audio Modem - 16-tone FSK for sending encoded packets as sound
+ *
+ * Pure TypeScript (no Web Audio dependency) so it can be driven offline
+ * with synthetic sample buffers - simulateChannel adds noise, delay and
+ * clock error. Each symbol is one of 16 tones carrying a 4-bit nibble.
+ *
+ * Frame layout (in symbols):
+ *   preamble (0,15 alternating) | SFD (6,9) | length (4) | payload (2/byte) | CRC-16 (4)
+ */
+
+import { crc16 } from './protocol';
+
+export interface FSKConfig {
+  sampleRate: number;
+  symbolDuration: number;   // seconds per symbol
+  baseFrequency: number;    // Hz of tone 0
+  toneSpacing: number;      // Hz between adjacent tones
+  amplitude: number;        // 0..1
+  maxPayload: number;       // bytes; longer length fields are treated as noise
+}
+
+export const DEFAULT_FSK_CONFIG: FSKConfig = {
+  sampleRate: 48000,
+  symbolDuration: 0.015,
+  baseFrequency: 1200,
+  toneSpacing: 2 / 0.015,   // 2 cycles/symbol apart keeps tones orthogonal
+  amplitude: 0.5,
+  maxPayload: 1024,
+};
+
+const TONE_COUNT = 16;
+const PREAMBLE = [0, 15, 0, 15, 0, 15, 0, 15];
+const SFD = [6, 9];
+const MIN_PREAMBLE_SYMBOLS = 4;
+const LENGTH_SYMBOLS = 4;
+const CRC_SYMBOLS = 4;
+const MIN_TONE_RATIO = 0.4;  // Dominant tone's share of total tone energy
+
+function resolveConfig(config: Partial<FSKConfig>): FSKConfig {
+  return { ...DEFAULT_FSK_CONFIG, ...config };
+}
+
+function symbolLength(config: FSKConfig): number {
+  return Math.round(config.sampleRate * config.symbolDuration);
+}
+
+function toNibbles(bytes: Uint8Array): number[] {
+  const nibbles: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    nibbles.push(bytes[i] >> 4, bytes[i] & 15);
+  }
+  return nibbles;
+}
+
+/**
+ * Modulate a string (UTF-8) into audio samples, including preamble,
+ * framing and CRC
+ */
+export function modulate(data: string, config: Partial<FSKConfig> = {}): Float32Array {
+  const cfg = resolveConfig(config);
+  const payload = new TextEncoder().encode(data);
+  if (payload.length > cfg.maxPayload) {
+    throw new Error(`Payload too large for audio frame: ${payload.length} bytes`);
+  }
+
+  const header = new Uint8Array([payload.length >> 8, payload.length & 255]);
+  const body = new Uint8Array(header.length + payload.length);
+  body.set(header, 0);
+  body.set(payload, header.length);
+  const crc = crc16(body);
+
+  const symbols = [
+    ...PREAMBLE,
+    ...SFD,
+    ...toNibbles(body),
+    ...toNibbles(new Uint8Array([crc >> 8, crc & 255])),
+  ];
+
+  const len = symbolLength(cfg);
+  const ramp = Math.floor(len / 10);
+  const samples = new Float32Array(symbols.length * len);
+
+  symbols.forEach((symbol, s) => {
+    const freq = cfg.baseFrequency + symbol * cfg.toneSpacing;
+    const omega = (2 * Math.PI * freq) / cfg.sampleRate;
+    for (let i = 0; i < len; i++) {
+      // Raised-cosine edges avoid clicks between symbols
+      let envelope = 1;
+      if (i < ramp) envelope = 0.5 - 0.5 * Math.cos((Math.PI * i) / ramp);
+      else if (i >= len - ramp) envelope = 0.5 - 0.5 * Math.cos((Math.PI * (len - 1 - i)) / ramp);
+      samples[s * len + i] = cfg.amplitude * envelope * Math.sin(omega * i);
+    }
+  });
+
+  return samples;
+}
+
+/**
+ * Duration in seconds of the audio produced by modulate()
+ */
+export function frameDuration(data: string, config: Partial<FSKConfig> = {}): number {
+  const cfg = resolveConfig(config);
+  const bytes = new TextEncoder().encode(data).length;
+  const symbols = PREAMBLE.length + SFD.length + LENGTH_SYMBOLS + bytes * 2 + CRC_SYMBOLS;
+  return (symbols * symbolLength(cfg)) / cfg.sampleRate;
+}
+
+interface ToneResult {
+  tone: number;
+  ratio: number;
+}
+
+/**
+ * Streaming FSK demodulator - push samples in, get decoded frames out
+ */
+export class FSKDemodulator {
+  private config: FSKConfig;
+  private symbolLen: number;
+  private coefficients: Float64Array;
+  private buffer: Float32Array = new Float32Array(0);
+  private position: number = 0;
+
+  // Stats
+  public framesDecoded: number = 0;
+  public crcErrors: number = 0;
+
+  constructor(config: Partial<FSKConfig> = {}) {
+    this.config = resolveConfig(config);
+    this.symbolLen = symbolLength(this.config);
+
+    // Goertzel coefficients at the exact tone frequencies (not bin-rounded)
+    this.coefficients = new Float64Array(TONE_COUNT);
+    for (let t = 0; t < TONE_COUNT; t++) {
+      const freq = this.config.baseFrequency + t * this.config.toneSpacing;
+      this.coefficients[t] = 2 * Math.cos((2 * Math.PI * freq) / this.config.sampleRate);
+    }
+  }
+
+  /**
+   * Feed samples; returns any frames completed by them
+   */
+  push(samples: Float32Array): string[] {
+    const merged = new Float32Array(this.buffer.length - this.position + samples.length);
+    merged.set(this.buffer.subarray(this.position), 0);
+    merged.set(samples, this.buffer.length - this.position);
+    this.buffer = merged;
+    this.position = 0;
+
+    const frames: string[] = [];
+    let frame: string | null;
+    while ((frame = this.scan()) !== null) {
+      frames.push(frame);
+    }
+    return frames;
+  }
+
+  reset(): void {
+    this.buffer = new Float32Array(0);
+    this.position = 0;
+  }
+
+  /**
+   * Search from the current position. Returns a frame, or null when more
+   * samples are needed.
+   */
+  private scan(): string | null {
+    const L = this.symbolLen;
+    const step = Math.max(1, Math.floor(L / 4));
+    const syncSymbols = PREAMBLE.length + SFD.length;
+
+    while (this.position + syncSymbols * L <= this.buffer.length) {
+      const first = this.detectTone(this.position);
+      if (first.ratio < MIN_TONE_RATIO || (first.tone !== 0 && first.tone !== 15)) {
+        this.position += step;
+        continue;
+      }
+
+      const start = this.align(this.position);
+      const sync = this.findFrameStart(start);
+      if (sync === 'wait') return null;
+      if (sync === -1) {
+        this.position += step;
+        continue;
+      }
+
+      const result = this.readFrame(sync);
+      if (result === 'wait') return null;
+      if (result === null) {
+        // Corrupt frame - skip its sync so we don't lock onto it again
+        this.position = sync;
+        continue;
+      }
+
+      // A frame aligned late may end just past the buffer
+      this.position = Math.min(result.end, this.buffer.length);
+      this.framesDecoded++;
+      return result.data;
+    }
+
+    return null;
+  }
+
+  /**
+   * Fine-tune symbol alignment around a coarse preamble hit
+   */
+  private align(coarse: number): number {
+    const L = this.symbolLen;
+    const step = Math.max(1, Math.floor(L / 8));
+    let best = coarse;
+    let bestScore = -1;
+
+    for (let offset = Math.max(0, coarse - L / 2); offset <= coarse + L / 2; offset += step) {
+      const start = Math.round(offset);
+      if (start + MIN_PREAMBLE_SYMBOLS * L > this.buffer.length) break;
+      let score = 0;
+      for (let s = 0; s < MIN_PREAMBLE_SYMBOLS; s++) {
+        const tone = this.detectTone(start + s * L);
+        if (tone.tone === 0 || tone.tone === 15) score += tone.ratio;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = start;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Walk the preamble until the SFD. Returns the sample offset of the
+   * first length symbol, -1 if this isn't a preamble, or 'wait'.
+   */
+  private findFrameStart(start: number): number | 'wait' {
+    const L = this.symbolLen;
+    const maxSymbols = PREAMBLE.length + SFD.length;
+
+    for (let s = 0; s < maxSymbols; s++) {
+      if (!this.hasSymbols(start, s + SFD.length)) return 'wait';
+      const tone = this.detectTone(start + s * L).tone;
+
+      if (tone === SFD[0] && s >= MIN_PREAMBLE_SYMBOLS) {
+        const next = this.detectTone(start + (s + 1) * L).tone;
+        return next === SFD[1] ? start + (s + SFD.length) * L : -1;
+      }
+      if (tone !== 0 && tone !== 15) return -1;
+    }
+
+    return -1;
+  }
+
+  private readFrame(start: number): { data: string; end: number } | null | 'wait' {
+    const L = this.symbolLen;
+    if (!this.hasSymbols(start, LENGTH_SYMBOLS)) return 'wait';
+
+    const lengthBytes = this.readBytes(start, 2);
+    const length = (lengthBytes[0] << 8) | lengthBytes[1];
+    if (length > this.config.maxPayload) {
+      this.crcErrors++;
+      return null;
+    }
+
+    const totalSymbols = LENGTH_SYMBOLS + length * 2 + CRC_SYMBOLS;
+    if (!this.hasSymbols(start, totalSymbols)) return 'wait';
+
+    const body = this.readBytes(start, 2 + length);
+    const crcBytes = this.readBytes(start + (LENGTH_SYMBOLS + length * 2) * L, 2);
+    const crc = (crcBytes[0] << 8) | crcBytes[1];
+
+    if (crc16(body) !== crc) {
+      this.crcErrors++;
+      return null;
+    }
+
+    return {
+      data: new TextDecoder().decode(body.subarray(2)),
+      end: start + totalSymbols * L,
+    };
+  }
+
+  private readBytes(start: number, count: number): Uint8Array {
+    const L = this.symbolLen;
+    const bytes = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      const hi = this.detectTone(start + 2 * i * L).tone;
+      const lo = this.detectTone(start + (2 * i + 1) * L).tone;
+      bytes[i] = (hi << 4) | lo;
+    }
+    return bytes;
+  }
+
+  /**
+   * True if the buffer holds count symbols from start - as far as
+   * detectTone reads, which stops short of the last symbol's end
+   */
+  private hasSymbols(start: number, count: number): boolean {
+    return start + count * this.symbolLen - Math.floor(this.symbolLen / 8) <= this.buffer.length;
+  }
+
+  private innerLength(): number {
+    return this.symbolLen - 2 * Math.floor(this.symbolLen / 8);
+  }
+
+  /**
+   * Goertzel power of each tone over the inner part of a symbol window
+   */
+  private detectTone(start: number): ToneResult {
+    const inner = start + Math.floor(this.symbolLen / 8);
+    const n = this.innerLength();
+    let bestTone = 0;
+    let bestPower = 0;
+    let total = 0;
+
+    for (let t = 0; t < TONE_COUNT; t++) {
+      const coeff = this.coefficients[t];
+      let s1 = 0;
+      let s2 = 0;
+      for (let i = 0; i < n; i++) {
+        const s0 = this.buffer[inner + i] + coeff * s1 - s2;
+        s2 = s1;
+        s1 = s0;
+      }
+      const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+      total += power;
+      if (power > bestPower) {
+        bestPower = power;
+        bestTone = t;
+      }
+    }
+
+    return { tone: bestTone, ratio: total > 0 ? bestPower / total : 0 };
+  }
+}
+
+export interface ChannelOptions {
+  noise?: number;        // Standard deviation of added white Gaussian noise
+  gain?: number;         // Signal scale (default 1)
+  delay?: number;        // Samples of noise before the signal (timing offset)
+  clockOffset?: number;  // Relative sample-clock error, e.g. 2e-4 = 200 ppm: shifts tones and symbol timing
+  seed?: number;         // PRNG seed, so a run can be repeated
+}
+
+/**
+ * Pass samples through a synthetic channel - gain, a sender/receiver
+ * clock mismatch, leading delay and white noise - so the modem can be
+ * tested offline
+ */
+export function simulateChannel(samples: Float32Array, options: ChannelOptions = {}): Float32Array {
+  const gain = options.gain ?? 1;
+  const noise = options.noise ?? 0;
+  const delay = Math.max(0, Math.round(options.delay ?? 0));
+  const rate = 1 + (options.clockOffset ?? 0);
+
+  // mulberry32 + Box-Muller: repeatable Gaussian noise
+  let state = (options.seed ?? 1) >>> 0;
+  const uniform = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967297;
+  };
+  const gaussian = (): number => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+
+  const length = Math.floor((samples.length - 1) / rate) + 1;
+  const output = new Float32Array(delay + length);
+  for (let i = 0; i < length; i++) {
+    // Linear interpolation at the sender's clock
+    const position = i * rate;
+    const index = Math.floor(position);
+    const frac = position - index;
+    const next = index + 1 < samples.length ? samples[index + 1] : 0;
+    output[delay + i] = gain * (samples[index] * (1 - frac) + next * frac);
+  }
+  if (noise > 0) {
+    for (let i = 0; i < output.length; i++) output[i] += noise * gaussian();
+  }
+  return output;
+}
@@ -0,0 +1,180 @@
+/**
+ * Audio Transport - FSK over speaker and microphone as a Transport
+ *
+ * For devices that can hear but not see each other. Outgoing packets are
+ * modulated with the audio modem and played through the speaker; the
+ * microphone is demodulated continuously. Our own transmissions are heard
+ * too, but MeshState ignores packets from its own device ID.
+ */
+
+import { modulate, FSKDemodulator, type FSKConfig } from './audio-modem';
+import type { Transport, TransportReceiveCallback } from './transport';
+
+export interface AudioTransportOptions {
+  audioContext?: AudioContext;   // Created on start() if omitted
+  modem?: Partial<Omit<FSKConfig, 'sampleRate'>>;
+  volume?: number;               // Output gain 0..1
+  jitter?: number;               // Max random ms before transmitting, to avoid lockstep collisions
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Audio FSK transport
+ */
+export class AudioTransport implements Transport {
+  readonly name = 'audio';
+  private context: AudioContext | null;
+  private ownsContext: boolean;
+  private modemConfig: Partial<FSKConfig>;
+  private volume: number;
+  private jitter: number;
+  private onError?: (error: Error) => void;
+  private callbacks: Set<TransportReceiveCallback> = new Set();
+  private demodulator: FSKDemodulator | null = null;
+  private stream: MediaStream | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private sink: GainNode | null = null;
+  private playing: AudioBufferSourceNode | null = null;
+  private busy: boolean = false;
+  private queued: string | null = null;
+  private running: boolean = false;
+
+  constructor(options: AudioTransportOptions = {}) {
+    this.context = options.audioContext ?? null;
+    this.ownsContext = !options.audioContext;
+    this.modemConfig = options.modem ?? {};
+    this.volume = options.volume ?? 0.8;
+    this.jitter = options.jitter ?? 300;
+    this.onError = options.onError;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    if (!this.context) {
+      this.context = new AudioContext();
+    }
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+
+    this.modemConfig = { ...this.modemConfig, sampleRate: this.context.sampleRate };
+    this.demodulator = new FSKDemodulator(this.modemConfig);
+
+    try {
+      // Processing would smear the tones - ask for the raw signal
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: false,
+          noiseSuppression: false,
+          autoGainControl: false,
+        },
+      });
+    } catch (error) {
+      this.onError?.(error as Error);
+      throw error;
+    }
+
+    this.source = this.context.createMediaStreamSource(this.stream);
+    this.processor = this.context.createScriptProcessor(4096, 1, 1);
+    this.processor.onaudioprocess = (e) => this.handleSamples(e.inputBuffer.getChannelData(0));
+
+    // ScriptProcessor only runs when connected to the destination - keep it silent
+    this.sink = this.context.createGain();
+    this.sink.gain.value = 0;
+    this.source.connect(this.processor);
+    this.processor.connect(this.sink);
+    this.sink.connect(this.context.destination);
+
+    this.running = true;
+  }
+
+  stop(): void {
+    this.running = false;
+    this.busy = false;
+    this.queued = null;
+
+    try {
+      this.playing?.stop();
+    } catch {
+      // Already stopped
+    }
+    this.playing = null;
+
+    this.processor?.disconnect();
+    this.source?.disconnect();
+    this.sink?.disconnect();
+    this.processor = null;
+    this.source = null;
+    this.sink = null;
+
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.demodulator = null;
+
+    if (this.ownsContext && this.context) {
+      this.context.close();
+      this.context = null;
+    }
+  }
+
+  onReceive(callback: TransportReceiveCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  /**
+   * Play a packet. If a transmission is in progress, the newest packet
+   * is played once it finishes.
+   */
+  async send(data: string): Promise<void> {
+    if (!this.running || !this.context) return;
+
+    if (this.busy) {
+      this.queued = data;
+      return;
+    }
+
+    // Modulate before claiming the speaker so oversized packets throw cleanly
+    const samples = modulate(data, this.modemConfig);
+    this.busy = true;
+
+    await new Promise((resolve) => setTimeout(resolve, Math.random() * this.jitter));
+    if (!this.running || !this.context) {
+      this.busy = false;
+      return;
+    }
+
+    const buffer = this.context.createBuffer(1, samples.length, this.context.sampleRate);
+    buffer.getChannelData(0).set(samples);
+
+    const source = this.context.createBufferSource();
+    const gain = this.context.createGain();
+    gain.gain.value = this.volume;
+    source.buffer = buffer;
+    source.connect(gain);
+    gain.connect(this.context.destination);
+
+    source.onended = () => {
+      gain.disconnect();
+      this.playing = null;
+      this.busy = false;
+      const next = this.queued;
+      this.queued = null;
+      if (next !== null) {
+        this.send(next).catch((e) => this.onError?.(e as Error));
+      }
+    };
+
+    this.playing = source;
+    source.start();
+  }
+
+  private handleSamples(samples: Float32Array): void {
+    if (!this.demodulator) return;
+    for (const frame of this.demodulator.push(samples)) {
+      this.callbacks.forEach((callback) => callback(frame));
+    }
+  }
+}
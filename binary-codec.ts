@@ -0,0 +1,503 @@
+/**
+ * Protocol v4 - binary wire codec
+ *
+ * Same QRPacket model as v3 (protocol.ts), packed as bytes instead of
+ * text: device IDs as 4 raw bytes, packet numbers and ACK ranges as
+ * varints, the public key and encrypted payloads as raw bytes. The bytes
+ * go into QR byte mode directly, or through base45 (RFC 9285) when an
+ * alphanumeric-only representation is needed (clipboard, audio, v3-style
+ * chunking).
+ *
+ * Layout:
+ *   [0x40 | wide | type] [flags:varint] [src:4] ([dst:4] [pn:varint])?  (beacons stop after src)
+ *   [mt:1]? [key]? [name]? [payload]? [acks]? [caps:varint]?
+ *   ([frame:varint] (beacons) | [epoch:4] (INITIALs))? [sk]? [hs]? (INITIALs)
+ *   ([mac:4] | [sig:64]? [crc:2])
+ * With the wide bit (0x08) set, src and dst are length-prefixed instead:
+ * device IDs other than 8 hex chars. Every optional field has a flag bit of
+ * its own; the flags are a varint, so DATA and ACK packets (bits below
+ * 0x80) still spend one byte on them. Byte strings are
+ * varint-length-prefixed. ACK ranges are a varint count followed by
+ * (gap, span) varint pairs, each start relative to the last end.
+ * Signatures cover the v3 body (encodePacketBody), like MACs, so they
+ * verify whichever version carried the packet.
+ *
+ * On the wire the base45 form follows the Q4 version marker (see
+ * encodeFrame); importing this module registers the codec.
+ */
+
+import QRCode, { type QRCodeSegment } from 'qrcode';
+import {
+  PACKET_TYPES,
+  MESSAGE_TYPES,
+  BROADCAST_ADDR,
+  DECODE_ERRORS,
+  crc16,
+  encodePacket,
+  encodeBase45,
+  decodeBase45,
+  registerCodec,
+  type PacketCodec,
+  type QRPacket,
+  type PacketType,
+  type MessageType,
+  type AckRange,
+  type DecodeResult,
+} from './protocol';
+import {
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  arrayBufferToBase32,
+  base32ToArrayBuffer,
+} from './crypto';
+
+export const BINARY_PROTOCOL_VERSION = 4;
+
+const TYPE_CODES: Record<PacketType, number> = {
+  [PACKET_TYPES.BEACON]: 0,
+  [PACKET_TYPES.INITIAL]: 1,
+  [PACKET_TYPES.DATA]: 2,
+  [PACKET_TYPES.ACK]: 3,
+};
+const TYPES_BY_CODE = Object.keys(TYPE_CODES) as PacketType[];
+const TYPE_MASK = 0x07;
+const WIDE_IDS = 0x08;    // In the type byte - src/dst are length-prefixed
+
+const FLAGS = {
+  KEY: 0x01,
+  NAME: 0x02,
+  PAYLOAD: 0x04,
+  PAYLOAD_BASE32: 0x08,   // Payload bytes are the decoded base32 string (mt=E/G/K)
+  ACKS: 0x10,
+  MAC: 0x20,
+  CAPS: 0x40,
+  FRAME: 0x80,            // Beacons only
+  EPOCH: 0x100,           // INITIALs only
+  SIGNING_KEY: 0x200,     // INITIALs only
+  HANDSHAKE: 0x400,       // INITIALs only
+  SIGNATURE: 0x800,       // Beacons and INITIALs only
+} as const;
+
+const ID_BYTES = 4;
+const MAC_BYTES = 4;
+const EPOCH_BYTES = 4;
+const SIGNATURE_BYTES = 64;
+const CRC_BYTES = 2;
+
+// ============================================================
+// Byte writer / reader
+// ============================================================
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  raw(data: Uint8Array): void {
+    data.forEach((b) => this.bytes.push(b));
+  }
+
+  varint(value: number): void {
+    let n = value;
+    while (n >= 0x80) {
+      this.bytes.push((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.bytes.push(n);
+  }
+
+  prefixed(data: Uint8Array): void {
+    this.varint(data.length);
+    this.raw(data);
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) throw new Error('Unexpected end of packet');
+    return this.bytes[this.offset++];
+  }
+
+  raw(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new Error('Unexpected end of packet');
+    const out = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (let i = 0; i < 8; i++) {
+      const b = this.byte();
+      value += (b & 0x7f) * scale;
+      if (!(b & 0x80)) return value;
+      scale *= 0x80;
+    }
+    throw new Error('Varint too long');
+  }
+
+  prefixed(): Uint8Array {
+    return this.raw(this.varint());
+  }
+
+  remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+}
+
+/**
+ * 8 uppercase hex chars (device ID, epoch or MAC) <-> 4 bytes. wide
+ * allows any device ID length.
+ */
+function hexToBytes(hex: string, wide: boolean = false): Uint8Array {
+  const valid = wide ? /^(?:[0-9A-F]{2}){4,16}$/ : /^[0-9A-F]{8}$/;
+  if (!valid.test(hex)) throw new Error(`Invalid hex field: ${hex}`);
+  return new Uint8Array(hex.match(/../g)!.map((pair) => parseInt(pair, 16)));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0').toUpperCase())
+    .join('');
+}
+
+// Message types whose payload is ciphertext in base32
+const BASE32_MESSAGE_TYPES: ReadonlySet<string> = new Set([
+  MESSAGE_TYPES.ENCRYPTED_CHAT,
+  MESSAGE_TYPES.GROUP_CHAT,
+  MESSAGE_TYPES.GROUP_KEY,
+  MESSAGE_TYPES.RATCHET_CHAT,
+  MESSAGE_TYPES.HANDSHAKE,
+]);
+
+/**
+ * Raw bytes for an encrypted payload, or null if it isn't canonical base32
+ * (then it travels as UTF-8 like any other payload)
+ */
+function base32Bytes(payload: string): Uint8Array | null {
+  try {
+    const bytes = new Uint8Array(base32ToArrayBuffer(payload));
+    return arrayBufferToBase32(bytes.buffer) === payload ? bytes : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeError(code: (typeof DECODE_ERRORS)[keyof typeof DECODE_ERRORS], message: string): DecodeResult {
+  return { ok: false, error: { code, message } };
+}
+
+// ============================================================
+// Packet codec
+// ============================================================
+
+/**
+ * Encode packet to v4 bytes, including its integrity suffix
+ */
+export function encodePacketBinary(packet: QRPacket): Uint8Array {
+  const encoder = new TextEncoder();
+  const isBeacon = packet.t === PACKET_TYPES.BEACON;
+  const isInitial = packet.t === PACKET_TYPES.INITIAL;
+  // Beacons and INITIALs are signed, everything else is sealed with a MAC
+  const signature = (isBeacon || isInitial) && packet.sig ? new Uint8Array(base32ToArrayBuffer(packet.sig)) : null;
+  const mac = isBeacon || isInitial ? undefined : packet.mac;
+  const base32Payload =
+    packet.payload && packet.mt && BASE32_MESSAGE_TYPES.has(packet.mt) ? base32Bytes(packet.payload) : null;
+
+  let flags = 0;
+  if (packet.key) flags |= FLAGS.KEY;
+  if (packet.name) flags |= FLAGS.NAME;
+  if (packet.payload && !isInitial) flags |= FLAGS.PAYLOAD;
+  if (base32Payload) flags |= FLAGS.PAYLOAD_BASE32;
+  if (packet.acks && packet.acks.length > 0) flags |= FLAGS.ACKS;
+  if (mac) flags |= FLAGS.MAC;
+  if (packet.caps !== undefined) flags |= FLAGS.CAPS;
+  if (isBeacon && packet.frame !== undefined) flags |= FLAGS.FRAME;
+  if (isInitial && packet.epoch !== undefined) flags |= FLAGS.EPOCH;
+  if (isInitial && packet.sk) flags |= FLAGS.SIGNING_KEY;
+  if (isInitial && packet.hs) flags |= FLAGS.HANDSHAKE;
+  if (signature) flags |= FLAGS.SIGNATURE;
+
+  const writer = new ByteWriter();
+  const wide = packet.src.length !== ID_BYTES * 2 || (!isBeacon && packet.dst.length !== ID_BYTES * 2);
+  const writeId = (id: string) => (wide ? writer.prefixed(hexToBytes(id, true)) : writer.raw(hexToBytes(id)));
+
+  writer.byte((BINARY_PROTOCOL_VERSION << 4) | (wide ? WIDE_IDS : 0) | TYPE_CODES[packet.t]);
+  writer.varint(flags);
+  writeId(packet.src);
+
+  if (!isBeacon) {
+    writeId(packet.dst);
+    writer.varint(packet.pn);
+  }
+  if (packet.t === PACKET_TYPES.DATA) {
+    writer.byte(packet.mt ? packet.mt.charCodeAt(0) : 0);
+  }
+  if (packet.key) {
+    writer.prefixed(new Uint8Array(base64ToArrayBuffer(packet.key)));
+  }
+  if (packet.name) {
+    writer.prefixed(encoder.encode(packet.name));
+  }
+  if (packet.payload && !isInitial) {
+    writer.prefixed(base32Payload ?? encoder.encode(packet.payload));
+  }
+  if (flags & FLAGS.ACKS) {
+    const acks = packet.acks!;
+    writer.varint(acks.length);
+    let last = -1;
+    for (const [start, end] of acks) {
+      writer.varint(start - last - 1);
+      writer.varint(end - start);
+      last = end;
+    }
+  }
+
+  if (packet.caps !== undefined) {
+    writer.varint(packet.caps);
+  }
+  if (isBeacon && packet.frame !== undefined) {
+    writer.varint(packet.frame);
+  }
+  if (isInitial && packet.epoch !== undefined) {
+    writer.raw(hexToBytes(packet.epoch));
+  }
+  if (isInitial && packet.sk) {
+    writer.prefixed(new Uint8Array(base64ToArrayBuffer(packet.sk)));
+  }
+  if (isInitial && packet.hs) {
+    writer.prefixed(new Uint8Array(base32ToArrayBuffer(packet.hs)));
+  }
+
+  if (signature) {
+    if (signature.length !== SIGNATURE_BYTES) throw new Error('Invalid signature length');
+    writer.raw(signature);
+  }
+  if (mac) {
+    writer.raw(hexToBytes(mac));
+  } else {
+    const body = writer.toBytes();
+    const crc = crc16(body);
+    writer.byte(crc >> 8);
+    writer.byte(crc);
+  }
+
+  return writer.toBytes();
+}
+
+/**
+ * Decode v4 bytes, reporting why they were rejected. As with v3, a MAC
+ * is only split off here; MeshState checks it.
+ */
+export function decodePacketBinary(bytes: Uint8Array): DecodeResult {
+  if (bytes.length < 2 || bytes[0] >> 4 !== BINARY_PROTOCOL_VERSION) {
+    return decodeError(DECODE_ERRORS.UNKNOWN_TYPE, 'Not a v4 packet');
+  }
+
+  const type = TYPES_BY_CODE[bytes[0] & TYPE_MASK];
+  if (!type) {
+    return decodeError(DECODE_ERRORS.UNKNOWN_TYPE, `Unknown packet type code: ${bytes[0] & TYPE_MASK}`);
+  }
+  const wide = (bytes[0] & WIDE_IDS) !== 0;
+
+  let flags: number;
+  try {
+    flags = new ByteReader(bytes.subarray(1)).varint();
+  } catch (e) {
+    return decodeError(DECODE_ERRORS.MALFORMED, (e as Error).message);
+  }
+  const signable = type === PACKET_TYPES.BEACON || type === PACKET_TYPES.INITIAL;
+  const hasMac = !signable && (flags & FLAGS.MAC) !== 0;
+  let body = bytes;
+  if (!hasMac) {
+    if (bytes.length < 2 + CRC_BYTES) {
+      return decodeError(DECODE_ERRORS.MALFORMED, 'Packet too short');
+    }
+    body = bytes.slice(0, -CRC_BYTES);
+    const crc = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+    if (crc16(body) !== crc) {
+      return decodeError(DECODE_ERRORS.CHECKSUM, 'Checksum mismatch');
+    }
+  }
+
+  try {
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    const reader = new ByteReader(body);
+    reader.byte();
+    reader.varint();
+    const readId = () => bytesToHex(wide ? reader.prefixed() : reader.raw(ID_BYTES));
+
+    const packet: QRPacket = {
+      v: BINARY_PROTOCOL_VERSION,
+      t: type,
+      src: readId(),
+      dst: BROADCAST_ADDR,
+      pn: 0,
+    };
+
+    if (type !== PACKET_TYPES.BEACON) {
+      packet.dst = readId();
+      packet.pn = reader.varint();
+    }
+    if (type === PACKET_TYPES.DATA) {
+      const mt = reader.byte();
+      if (mt) packet.mt = String.fromCharCode(mt) as MessageType;
+    }
+    if (flags & FLAGS.KEY) {
+      packet.key = arrayBufferToBase64(reader.prefixed().slice().buffer);
+    }
+    if (flags & FLAGS.NAME) {
+      packet.name = decoder.decode(reader.prefixed());
+    }
+    if (flags & FLAGS.PAYLOAD && type !== PACKET_TYPES.INITIAL) {
+      const payload = reader.prefixed();
+      packet.payload = flags & FLAGS.PAYLOAD_BASE32 && type === PACKET_TYPES.DATA
+        ? arrayBufferToBase32(payload.slice().buffer)
+        : decoder.decode(payload);
+    }
+    if (flags & FLAGS.ACKS) {
+      const count = reader.varint();
+      const acks: AckRange[] = [];
+      let last = -1;
+      for (let i = 0; i < count; i++) {
+        const start = last + 1 + reader.varint();
+        const end = start + reader.varint();
+        acks.push([start, end]);
+        last = end;
+      }
+      packet.acks = acks;
+    }
+    if (flags & FLAGS.CAPS) {
+      packet.caps = reader.varint();
+    }
+    if (flags & FLAGS.FRAME && type === PACKET_TYPES.BEACON) {
+      packet.frame = reader.varint();
+    }
+    if (flags & FLAGS.EPOCH && type === PACKET_TYPES.INITIAL) {
+      packet.epoch = bytesToHex(reader.raw(EPOCH_BYTES));
+    }
+    if (flags & FLAGS.SIGNING_KEY && type === PACKET_TYPES.INITIAL) {
+      packet.sk = arrayBufferToBase64(reader.prefixed().slice().buffer);
+    }
+    if (flags & FLAGS.HANDSHAKE && type === PACKET_TYPES.INITIAL) {
+      packet.hs = arrayBufferToBase32(reader.prefixed().slice().buffer);
+    }
+    if (flags & FLAGS.SIGNATURE && signable) {
+      packet.sig = arrayBufferToBase32(reader.raw(SIGNATURE_BYTES).slice().buffer);
+    }
+    if (hasMac) {
+      packet.mac = bytesToHex(reader.raw(MAC_BYTES));
+    }
+
+    if (reader.remaining() !== 0) {
+      return decodeError(DECODE_ERRORS.MALFORMED, 'Trailing bytes');
+    }
+    return { ok: true, packet };
+  } catch (e) {
+    return decodeError(DECODE_ERRORS.MALFORMED, (e as Error).message);
+  }
+}
+
+/**
+ * Encode packet to v4 as base45 text (QR alphanumeric mode)
+ */
+export function encodePacketBase45(packet: QRPacket): string {
+  return encodeBase45(encodePacketBinary(packet));
+}
+
+/**
+ * Inverse of encodePacketBase45
+ */
+export function decodePacketBase45(text: string): DecodeResult {
+  let bytes: Uint8Array;
+  try {
+    bytes = decodeBase45(text);
+  } catch (e) {
+    return decodeError(DECODE_ERRORS.MALFORMED, (e as Error).message);
+  }
+  return decodePacketBinary(bytes);
+}
+
+export const binaryCodec: PacketCodec = {
+  version: BINARY_PROTOCOL_VERSION,
+  encode: encodePacketBase45,
+  decode: decodePacketBase45,
+};
+
+registerCodec(binaryCodec);
+
+// ============================================================
+// Size report
+// ============================================================
+
+export interface EncodingSize {
+  length: number;      // chars (text) or bytes (byte mode)
+  qrVersion: number;   // Smallest QR version that fits, at the given error correction
+}
+
+export interface PacketSizeReport {
+  type: PacketType;
+  v3: EncodingSize;
+  v4Base45: EncodingSize;
+  v4Bytes: EncodingSize;
+}
+
+function qrVersion(data: string | QRCodeSegment[], level: 'L' | 'M' | 'Q' | 'H'): number {
+  try {
+    return QRCode.create(data, { errorCorrectionLevel: level }).version;
+  } catch {
+    return -1; // Doesn't fit in any version
+  }
+}
+
+/**
+ * Compare v3 text against both v4 representations for one packet
+ */
+export function packetSizeReport(
+  packet: QRPacket,
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H' = 'L'
+): PacketSizeReport {
+  const v3 = encodePacket(packet);
+  const bytes = encodePacketBinary(packet);
+  const base45 = encodeBase45(bytes);
+
+  return {
+    type: packet.t,
+    v3: { length: v3.length, qrVersion: qrVersion(v3, errorCorrectionLevel) },
+    v4Base45: {
+      length: base45.length,
+      qrVersion: qrVersion([{ mode: 'alphanumeric', data: base45 }], errorCorrectionLevel),
+    },
+    v4Bytes: {
+      length: bytes.length,
+      qrVersion: qrVersion([{ mode: 'byte', data: bytes }], errorCorrectionLevel),
+    },
+  };
+}
+
+/**
+ * Size report as a plain-text table, one row per packet
+ */
+export function formatSizeReport(reports: PacketSizeReport[]): string {
+  const rows = reports.map((r) =>
+    [
+      r.type,
+      `${r.v3.length} (v${r.v3.qrVersion})`,
+      `${r.v4Base45.length} (v${r.v4Base45.qrVersion})`,
+      `${r.v4Bytes.length} (v${r.v4Bytes.qrVersion})`,
+    ].map((cell) => cell.padEnd(14)).join('')
+  );
+  const header = ['type', 'v3 text', 'v4 base45', 'v4 bytes'].map((cell) => cell.padEnd(14)).join('');
+  return [header, ...rows].join('\n').replace(/ +$/gm, '');
+}
@@ -0,0 +1,184 @@
+/**
+ * Clipboard Panel Web Component
+ *
+ * Small UI for a ClipboardTransport: shows the outgoing packets as
+ * copyable text and accepts pasted packets/chunks from another device.
+ * Usage: <qrmesh-clipboard></qrmesh-clipboard>, then set `.transport`.
+ */
+
+import type { ClipboardTransport } from './clipboard-transport';
+
+const styles = `
+  :host {
+    display: block;
+    font-family: system-ui, -apple-system, sans-serif;
+    color: #e2e8f0;
+  }
+
+  * {
+    box-sizing: border-box;
+  }
+
+  label {
+    display: block;
+    font-size: 0.75rem;
+    color: #94a3b8;
+    margin-bottom: 0.25rem;
+  }
+
+  textarea {
+    width: 100%;
+    min-height: 4.5rem;
+    background: #0f172a;
+    border: none;
+    border-radius: 0.25rem;
+    padding: 0.5rem;
+    color: #facc15;
+    font-family: monospace;
+    font-size: 0.75rem;
+    resize: vertical;
+  }
+
+  textarea:focus {
+    outline: 2px solid #3b82f6;
+  }
+
+  .row {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 0.5rem;
+    margin: 0.25rem 0 0.75rem;
+  }
+
+  .status {
+    font-size: 0.75rem;
+    color: #64748b;
+  }
+
+  button {
+    background: #2563eb;
+    color: white;
+    border: none;
+    padding: 0.25rem 0.75rem;
+    border-radius: 0.25rem;
+    cursor: pointer;
+    font-size: 0.875rem;
+  }
+
+  button:hover {
+    background: #1d4ed8;
+  }
+`;
+
+/**
+ * Clipboard panel custom element
+ */
+export class QRMeshClipboardElement extends HTMLElement {
+  private shadow: ShadowRoot;
+  private _transport: ClipboardTransport | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  // DOM refs
+  private outgoingEl: HTMLTextAreaElement | null = null;
+  private incomingEl: HTMLTextAreaElement | null = null;
+  private statusEl: HTMLElement | null = null;
+
+  constructor() {
+    super();
+    this.shadow = this.attachShadow({ mode: 'open' });
+  }
+
+  get transport(): ClipboardTransport | null {
+    return this._transport;
+  }
+
+  set transport(transport: ClipboardTransport | null) {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this._transport = transport;
+
+    if (transport) {
+      this.unsubscribe = transport.onOutgoing((text) => this.showOutgoing(text));
+      this.showOutgoing(transport.getOutgoingText());
+    }
+  }
+
+  connectedCallback() {
+    this.render();
+    if (this._transport) {
+      this.showOutgoing(this._transport.getOutgoingText());
+    }
+  }
+
+  disconnectedCallback() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private showOutgoing(text: string) {
+    if (this.outgoingEl) {
+      this.outgoingEl.value = text;
+    }
+  }
+
+  private updateStatus(text: string) {
+    if (this.statusEl) {
+      this.statusEl.textContent = text;
+    }
+  }
+
+  private async copy() {
+    if (!this._transport) return;
+    try {
+      await this._transport.copy();
+      this.updateStatus('Copied');
+    } catch {
+      // Clipboard API unavailable (e.g. insecure context) - select for manual copy
+      this.outgoingEl?.select();
+      this.updateStatus('Press Ctrl+C to copy');
+    }
+  }
+
+  private paste() {
+    if (!this._transport || !this.incomingEl) return;
+    const count = this._transport.paste(this.incomingEl.value);
+    this.incomingEl.value = '';
+    this.updateStatus(count > 0 ? `Fed ${count} frame${count === 1 ? '' : 's'}` : 'Nothing to feed');
+  }
+
+  private render() {
+    this.shadow.innerHTML = `
+      <style>${styles}</style>
+      <label for="outgoing">Outgoing packets (copy to the other device)</label>
+      <textarea id="outgoing" readonly></textarea>
+      <div class="row">
+        <span class="status" id="status"></span>
+        <button id="copy-btn">Copy</button>
+      </div>
+      <label for="incoming">Paste packets from the other device</label>
+      <textarea id="incoming" placeholder="One packet or chunk per line"></textarea>
+      <div class="row">
+        <span></span>
+        <button id="feed-btn">Feed</button>
+      </div>
+    `;
+
+    this.outgoingEl = this.shadow.getElementById('outgoing') as HTMLTextAreaElement;
+    this.incomingEl = this.shadow.getElementById('incoming') as HTMLTextAreaElement;
+    this.statusEl = this.shadow.getElementById('status');
+
+    this.shadow.getElementById('copy-btn')?.addEventListener('click', () => this.copy());
+    this.shadow.getElementById('feed-btn')?.addEventListener('click', () => this.paste());
+  }
+}
+
+export function registerClipboardPanelElement(tagName: string = 'qrmesh-clipboard') {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, QRMeshClipboardElement);
+  }
+}
+
+if (typeof window !== 'undefined') {
+  registerClipboardPanelElement();
+}
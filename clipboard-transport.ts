@@ -0,0 +1,102 @@
+/**
+ * Clipboard Transport - manual copy/paste packet exchange
+ *
+ * Fallback for when cameras are unavailable, and handy for debugging.
+ * Outgoing packets are exposed as text (one packet per line) for the user
+ * to copy; pasted text may contain any number of packets or chunks.
+ */
+
+import type { MeshState } from './mesh';
+import type { Transport, TransportReceiveCallback } from './transport';
+
+export interface ClipboardTransportOptions {
+  mesh?: MeshState;      // If set, outgoing text lists the mesh's whole queue
+  maxPackets?: number;   // Cap on packets listed from the mesh queue
+}
+
+/**
+ * Split pasted text into frames (one per non-empty line)
+ */
+export function splitFrames(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Copy/paste transport
+ */
+export class ClipboardTransport implements Transport {
+  readonly name = 'clipboard';
+  private mesh?: MeshState;
+  private maxPackets: number;
+  private current: string | null = null;
+  private receiveCallbacks: Set<TransportReceiveCallback> = new Set();
+  private outgoingCallbacks: Set<(text: string) => void> = new Set();
+
+  constructor(options: ClipboardTransportOptions = {}) {
+    this.mesh = options.mesh;
+    this.maxPackets = options.maxPackets ?? 10;
+  }
+
+  async start(): Promise<void> {}
+
+  stop(): void {
+    this.current = null;
+  }
+
+  onReceive(callback: TransportReceiveCallback): () => void {
+    this.receiveCallbacks.add(callback);
+    return () => this.receiveCallbacks.delete(callback);
+  }
+
+  /**
+   * Subscribe to changes of the outgoing text. Returns an unsubscribe function.
+   */
+  onOutgoing(callback: (text: string) => void): () => void {
+    this.outgoingCallbacks.add(callback);
+    return () => this.outgoingCallbacks.delete(callback);
+  }
+
+  send(data: string): void {
+    this.current = data;
+    const text = this.getOutgoingText();
+    this.outgoingCallbacks.forEach((callback) => callback(text));
+  }
+
+  /**
+   * Text the user should copy to the other device
+   */
+  getOutgoingText(): string {
+    if (this.mesh) {
+      const packets = this.mesh
+        .getOutgoingPackets(this.maxPackets)
+        .map((packet) => this.mesh!.encodeOutgoing(packet));
+      // The packet MeshNode is currently showing goes first
+      if (this.current && !packets.includes(this.current)) {
+        packets.unshift(this.current);
+      }
+      return packets.join('\n');
+    }
+    return this.current ?? '';
+  }
+
+  /**
+   * Copy the outgoing text to the system clipboard
+   */
+  async copy(): Promise<void> {
+    await navigator.clipboard.writeText(this.getOutgoingText());
+  }
+
+  /**
+   * Feed pasted text into the mesh. Returns the number of frames found.
+   */
+  paste(text: string): number {
+    const frames = splitFrames(text);
+    for (const frame of frames) {
+      this.receiveCallbacks.forEach((callback) => callback(frame));
+    }
+    return frames.length;
+  }
+}
@@ -7,11 +7,14 @@
  * Can be used in any framework (React, Vue, Angular, Svelte) or plain HTML.
  */
 
-import QRCode from 'qrcode';
 import { getOrCreateKeyPair, type KeyPair, type KeyStorage } from './crypto';
-import { encodePacket, decodePacket, PACKET_TYPES, type QRPacket } from './protocol';
-import { QRScanner } from './scanner';
-import { MeshState, type MeshEvent, type Peer } from './mesh';
+import { type QRPacket } from './protocol';
+import { MeshState, ConnectionState, type MeshEvent, type Peer } from './mesh';
+import { MeshNode } from './transport';
+import { QRTransport } from './qr-transport';
+import { ClipboardTransport } from './clipboard-transport';
+import { type QRMeshClipboardElement } from './clipboard-panel';
+import './clipboard-panel';
 
 // Styles for the component (scoped via Shadow DOM)
 const styles = `
@@ -198,6 +201,7 @@ const styles = `
 
   .state-active { color: #4ade80; }
   .state-discovered { color: #facc15; }
+  .state-connecting { color: #60a5fa; }
   .state-error { color: #f87171; }
 
   .peer-actions {
@@ -336,10 +340,10 @@ export class QRTCPDemoElement extends HTMLElement {
   private shadow: ShadowRoot;
   private keyPair: KeyPair | null = null;
   private mesh: MeshState | null = null;
-  private scanner: QRScanner | null = null;
+  private node: MeshNode | null = null;
+  private qrTransport: QRTransport | null = null;
   private selectedPeer: string | null = null;
   private deviceName: string = '';
-  private lastDisplayedPacket: string | null = null;
 
   // DOM elements
   private qrCanvas: HTMLCanvasElement | null = null;
@@ -370,7 +374,7 @@ export class QRTCPDemoElement extends HTMLElement {
   }
 
   private cleanup() {
-    this.scanner?.stop();
+    this.node?.stop();
   }
 
   private async init() {
@@ -395,8 +399,27 @@ export class QRTCPDemoElement extends HTMLElement {
       this.mesh = new MeshState(this.keyPair, { deviceName: this.deviceName || undefined });
       this.mesh.subscribe((event) => this.handleMeshEvent(event));
 
-      // Show initial beacon (static - only changes on scan)
-      this.updateQR();
+      this.qrTransport = new QRTransport({
+        canvas: this.qrCanvas!,
+        chunked: false,
+        width: 400,
+        margin: 1,
+        onError: (error) => {
+          console.error('Scanner error:', error);
+          this.showCameraError(error.message);
+        },
+      });
+
+      // Copy/paste fallback for devices without a camera
+      const clipboardTransport = new ClipboardTransport({ mesh: this.mesh });
+      const clipboardPanel = this.shadow.getElementById('clipboard') as QRMeshClipboardElement | null;
+      if (clipboardPanel) clipboardPanel.transport = clipboardTransport;
+
+      // Node shows the initial beacon and handles scans from here on
+      this.node = new MeshNode(this.mesh, [this.qrTransport, clipboardTransport], {
+        onPacket: (packet) => this.updateScanStatus(`Scanned: ${packet.src.slice(0, 4)}...`),
+      });
+      await this.node.start();
 
       this.updateScanStatus('Beacon ready');
     } catch (e) {
@@ -409,8 +432,8 @@ export class QRTCPDemoElement extends HTMLElement {
     switch (event.type) {
       case 'peer_discovered':
       case 'peer_updated':
+      case 'connection_state_changed':
         this.renderPeerList();
-        this.updateQR(); // Update QR to send INITIAL or respond
         break;
       case 'packet_sent':
       case 'packet_received':
@@ -430,48 +453,14 @@ export class QRTCPDemoElement extends HTMLElement {
     }
   }
 
-  private async updateQR() {
-    if (!this.mesh || !this.qrCanvas) return;
-
-    const packet = this.mesh.getNextOutgoingPacket();
-    if (packet) {
-      const data = encodePacket(packet);
-
-      // Only redraw if changed
-      if (data === this.lastDisplayedPacket) return;
-      this.lastDisplayedPacket = data;
-
-      try {
-        await QRCode.toCanvas(this.qrCanvas, data, {
-          width: 400,
-          margin: 1,
-          errorCorrectionLevel: 'L',
-        });
-        this.mesh.markPacketDisplayed(packet);
-      } catch (e) {
-        console.error('QR generation failed:', e);
-      }
-    }
-  }
-
-
   private async startCamera() {
-    if (!this.videoEl || this.scanner) return;
+    if (!this.videoEl || !this.qrTransport || this.qrTransport.getScanner()) return;
 
     try {
       this.hideCameraError();
       this.updateScanStatus('Starting camera...');
 
-      this.scanner = new QRScanner({
-        onScan: (result) => this.handleScan(result.data),
-        onError: (error) => {
-          console.error('Scanner error:', error);
-          this.showCameraError(error.message);
-        },
-        scanInterval: 100,
-      });
-
-      await this.scanner.start(this.videoEl);
+      await this.qrTransport.startCamera(this.videoEl);
       this.updateScanStatus('Scanning...');
       if (this.startCameraBtn) {
         this.startCameraBtn.classList.add('hidden');
@@ -483,23 +472,6 @@ export class QRTCPDemoElement extends HTMLElement {
     }
   }
 
-  private handleScan(data: string) {
-    if (!this.mesh) return;
-
-    const packet = decodePacket(data);
-    if (!packet) return;
-
-    // Process based on packet type
-    if (packet.t === PACKET_TYPES.BEACON) {
-      this.mesh.processBeacon(packet);
-    } else {
-      this.mesh.processPacket(packet);
-    }
-
-    this.updateScanStatus(`Scanned: ${packet.src.slice(0, 4)}...`);
-    // Don't update QR here - keep beacon static
-  }
-
   private updateScanStatus(text: string) {
     if (this.scanStatus) {
       this.scanStatus.textContent = text;
@@ -542,14 +514,29 @@ export class QRTCPDemoElement extends HTMLElement {
     }
   }
 
+  private connectPeer(peerId: string) {
+    if (!this.mesh) return;
+    this.mesh.connect(peerId);
+  }
+
   private getPeerState(peer: Peer): string {
-    if (peer.sharedKey) return 'active';
-    return 'discovered';
+    switch (peer.state) {
+      case ConnectionState.ESTABLISHED: return 'connected';
+      case ConnectionState.SYN_SENT:
+      case ConnectionState.SYN_RECEIVED: return 'connecting';
+      case ConnectionState.FAILED: return 'failed';
+      default: return 'discovered';
+    }
   }
 
   private getStateClass(peer: Peer): string {
-    if (peer.sharedKey) return 'state-active';
-    return 'state-discovered';
+    switch (peer.state) {
+      case ConnectionState.ESTABLISHED: return 'state-active';
+      case ConnectionState.SYN_SENT:
+      case ConnectionState.SYN_RECEIVED: return 'state-connecting';
+      case ConnectionState.FAILED: return 'state-error';
+      default: return 'state-discovered';
+    }
   }
 
   private renderPeerList() {
@@ -582,6 +569,8 @@ export class QRTCPDemoElement extends HTMLElement {
             ` : ''}
           </div>
           <div class="peer-actions">
+            ${peer.state === ConnectionState.DISCONNECTED || peer.state === ConnectionState.FAILED
+              ? `<button data-action="connect" data-peer="${peer.id}">Connect</button>` : ''}
             <button data-action="chat" data-peer="${peer.id}">Chat</button>
           </div>
         </div>
@@ -735,6 +724,12 @@ export class QRTCPDemoElement extends HTMLElement {
           </div>
         </div>
 
+        <!-- Copy / Paste -->
+        <div class="card">
+          <h2>No Camera? Copy / Paste</h2>
+          <qrmesh-clipboard id="clipboard"></qrmesh-clipboard>
+        </div>
+
         <!-- Discovered Peers -->
         <div class="card">
           <h2>Discovered Peers</h2>
@@ -810,6 +805,8 @@ export class QRTCPDemoElement extends HTMLElement {
 
       if (action === 'chat' && peerId) {
         this.selectPeer(peerId);
+      } else if (action === 'connect' && peerId) {
+        this.connectPeer(peerId);
       }
     });
   }
@@ -1,6 +1,7 @@
 /**
  * Cryptographic utilities for QR-TCP mesh protocol
- * Uses Web Crypto API with ECDH (P-256) + AES-GCM
+ * Uses Web Crypto API with ECDH (P-256) + AES-GCM, and ECDSA (P-256)
+ * for signed beacons and INITIALs
  *
  * This module is framework-agnostic and can be used in any environment
  * that supports the Web Crypto API.
@@ -10,12 +11,37 @@ export interface KeyPair {
   publicKey: CryptoKey;
   privateKey: CryptoKey;
   publicKeyRaw: string; // Base64 encoded
-  deviceId: string; // First 8 chars of public key hash
+  deviceId: string; // Prefix of the public key hash (DEVICE_ID_LENGTH hex chars by default)
+  signingKey: CryptoKey;    // ECDSA private key
+  verifyingKey: CryptoKey;  // ECDSA public key
+  signingKeyRaw: string;    // Base64 encoded ECDSA public key
 }
 
 export interface SerializedKeyPair {
+  idLength?: number;   // Device ID length (default DEVICE_ID_LENGTH)
   privateKeyJwk: JsonWebKey;
   publicKeyJwk: JsonWebKey;
+  signingPrivateKeyJwk?: JsonWebKey;  // Absent in keypairs stored before signing keys
+  signingPublicKeyJwk?: JsonWebKey;
+}
+
+/**
+ * A SerializedKeyPair encrypted under a passphrase: PBKDF2-SHA256
+ * derives an AES-GCM key. WebCrypto has no memory-hard KDF (Argon2,
+ * scrypt), so the iteration count is what slows guessing down.
+ */
+export interface EncryptedKeyPair {
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;         // Base64
+  iv: string;           // Base64
+  ciphertext: string;   // Base64 AES-GCM of the SerializedKeyPair JSON
+}
+
+export interface KeyPairOptions {
+  idLength?: number;    // Device ID length of a new keypair (stored ones keep theirs)
+  passphrase?: string;  // Keep the stored keypair encrypted under this passphrase
+  iterations?: number;  // PBKDF2 iterations when encrypting, 100,000 to 10,000,000 (default PASSPHRASE_ITERATIONS)
 }
 
 export interface KeyStorage {
@@ -27,10 +53,41 @@ export interface KeyStorage {
 // Default storage key
 const DEFAULT_STORAGE_KEY = 'qrtcp-keypair';
 
+// AES-GCM IV length in bytes
+const IV_LENGTH = 12;
+
+// Passphrase-encrypted keypairs (OWASP's PBKDF2-HMAC-SHA256 figure)
+export const PASSPHRASE_ITERATIONS = 600_000;
+const PASSPHRASE_KDF = 'PBKDF2-SHA256';
+const SALT_LENGTH = 16;
+// The iteration count is stored with the ciphertext - too few is no brake
+// on guessing, too many stalls the device that decrypts it
+const MIN_ITERATIONS = 100_000;
+const MAX_ITERATIONS = 10_000_000;
+
+// Packet MAC: HMAC-SHA256 truncated to 4 bytes (8 hex chars) to fit QR budgets
+const MAC_BYTES = 4;
+const MAC_KEY_INFO = 'qrmesh-packet-mac';
+
+// Packet signatures: ECDSA P-256 over SHA-256, raw r || s
+const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' } as const;
+const SIGNING_CURVE = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+
+// Device IDs: a prefix of the key's SHA-256 fingerprint, in hex chars.
+// 8 chars (32 bits) keep beacons tiny but collide at mesh scale and can
+// be ground for; longer IDs cost a few chars per packet.
+export const DEVICE_ID_LENGTH = 8;
+export const MAX_DEVICE_ID_LENGTH = 32;
+const SHORT_ID_LENGTH = 8;
+
+// RFC 4648 base32 alphabet - all chars are valid in QR alphanumeric mode
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
 /**
- * Generate a new ECDH keypair
+ * Generate a new ECDH keypair. idLength sets the device ID length in hex
+ * chars (even, DEVICE_ID_LENGTH to MAX_DEVICE_ID_LENGTH).
  */
-export async function generateKeyPair(): Promise<KeyPair> {
+export async function generateKeyPair(idLength: number = DEVICE_ID_LENGTH): Promise<KeyPair> {
   const keyPair = await crypto.subtle.generateKey(
     {
       name: 'ECDH',
@@ -41,23 +98,39 @@ export async function generateKeyPair(): Promise<KeyPair> {
   );
 
   const publicKeyRaw = await exportPublicKey(keyPair.publicKey);
-  const deviceId = await deriveDeviceId(publicKeyRaw);
+  const deviceId = await deriveDeviceId(publicKeyRaw, idLength);
+  const signing = await generateSigningKeyPair();
 
   return {
     publicKey: keyPair.publicKey,
     privateKey: keyPair.privateKey,
     publicKeyRaw,
     deviceId,
+    signingKey: signing.privateKey,
+    verifyingKey: signing.publicKey,
+    signingKeyRaw: await exportPublicKey(signing.publicKey),
   };
 }
 
+/**
+ * Generate the ECDSA keypair that signs our beacons and INITIALs. It is
+ * independent of the ECDH key, so the device ID doesn't cover it: peers
+ * pin it from the Noise handshake, which binds it to the ECDH key.
+ */
+async function generateSigningKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(SIGNING_CURVE, true, ['sign', 'verify']);
+}
+
 /**
  * Serialize a keypair for storage
  */
 export async function serializeKeyPair(keyPair: KeyPair): Promise<SerializedKeyPair> {
   const privateKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
   const publicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
-  return { privateKeyJwk, publicKeyJwk };
+  const signingPrivateKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.signingKey);
+  const signingPublicKeyJwk = await crypto.subtle.exportKey('jwk', keyPair.verifyingKey);
+  const idLength = keyPair.deviceId.length === DEVICE_ID_LENGTH ? undefined : keyPair.deviceId.length;
+  return { idLength, privateKeyJwk, publicKeyJwk, signingPrivateKeyJwk, signingPublicKeyJwk };
 }
 
 /**
@@ -81,25 +154,158 @@ export async function deserializeKeyPair(serialized: SerializedKeyPair): Promise
   );
 
   const publicKeyRaw = await exportPublicKey(publicKey);
-  const deviceId = await deriveDeviceId(publicKeyRaw);
+  const deviceId = await deriveDeviceId(publicKeyRaw, serialized.idLength);
+
+  // Keypairs stored before signing keys existed get a new signing key
+  let signing: CryptoKeyPair;
+  if (serialized.signingPrivateKeyJwk && serialized.signingPublicKeyJwk) {
+    signing = {
+      privateKey: await crypto.subtle.importKey('jwk', serialized.signingPrivateKeyJwk, SIGNING_CURVE, true, ['sign']),
+      publicKey: await crypto.subtle.importKey('jwk', serialized.signingPublicKeyJwk, SIGNING_CURVE, true, ['verify']),
+    };
+  } else {
+    signing = await generateSigningKeyPair();
+  }
+
+  return {
+    publicKey,
+    privateKey,
+    publicKeyRaw,
+    deviceId,
+    signingKey: signing.privateKey,
+    verifyingKey: signing.publicKey,
+    signingKeyRaw: await exportPublicKey(signing.publicKey),
+  };
+}
 
-  return { publicKey, privateKey, publicKeyRaw, deviceId };
+/**
+ * True if a parsed stored value is a passphrase-encrypted keypair
+ */
+export function isEncryptedKeyPair(value: unknown): value is EncryptedKeyPair {
+  return typeof value === 'object' && value !== null && (value as EncryptedKeyPair).kdf === PASSPHRASE_KDF;
+}
+
+function checkIterations(iterations: number): void {
+  if (!Number.isInteger(iterations) || iterations < MIN_ITERATIONS || iterations > MAX_ITERATIONS) {
+    throw new Error(`PBKDF2 iterations out of range (${MIN_ITERATIONS}-${MAX_ITERATIONS}): ${iterations}`);
+  }
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  checkIterations(iterations);
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
 }
 
 /**
- * Get or create a keypair, optionally using storage for persistence
+ * Encrypt a serialized keypair under a passphrase
+ */
+export async function encryptKeyPair(
+  serialized: SerializedKeyPair,
+  passphrase: string,
+  iterations: number = PASSPHRASE_ITERATIONS
+): Promise<EncryptedKeyPair> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await derivePassphraseKey(passphrase, salt, iterations);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(serialized))
+  );
+
+  return {
+    kdf: PASSPHRASE_KDF,
+    iterations,
+    salt: arrayBufferToBase64(salt.buffer),
+    iv: arrayBufferToBase64(iv.buffer),
+    ciphertext: arrayBufferToBase64(ciphertext),
+  };
+}
+
+/**
+ * Decrypt a passphrase-encrypted keypair. Throws on a wrong passphrase,
+ * or an iteration count out of range.
+ */
+export async function decryptKeyPair(encrypted: EncryptedKeyPair, passphrase: string): Promise<SerializedKeyPair> {
+  const key = await derivePassphraseKey(
+    passphrase,
+    new Uint8Array(base64ToArrayBuffer(encrypted.salt)),
+    encrypted.iterations
+  );
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(encrypted.iv)) },
+      key,
+      base64ToArrayBuffer(encrypted.ciphertext)
+    );
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as SerializedKeyPair;
+}
+
+/**
+ * Write a keypair to storage - encrypted if options.passphrase is set.
+ * Also how an imported identity replaces the stored one.
+ */
+export async function storeKeyPair(
+  keyPair: KeyPair,
+  storage: KeyStorage,
+  storageKey: string = DEFAULT_STORAGE_KEY,
+  options: KeyPairOptions = {}
+): Promise<void> {
+  const serialized = await serializeKeyPair(keyPair);
+  const record = options.passphrase ? await encryptKeyPair(serialized, options.passphrase, options.iterations) : serialized;
+  storage.set(storageKey, JSON.stringify(record));
+}
+
+/**
+ * Get or create a keypair, optionally using storage for persistence.
+ * A keypair stored encrypted needs options.passphrase: without it, or
+ * with a wrong one, this throws rather than replace the identity. A
+ * plain stored keypair is encrypted once a passphrase is given.
  */
 export async function getOrCreateKeyPair(
   storage?: KeyStorage,
-  storageKey: string = DEFAULT_STORAGE_KEY
+  storageKey: string = DEFAULT_STORAGE_KEY,
+  options: KeyPairOptions = {}
 ): Promise<KeyPair> {
   // Try to load from storage if provided
   if (storage) {
     const stored = storage.get(storageKey);
-    if (stored) {
+    let record: SerializedKeyPair | EncryptedKeyPair | null = null;
+    try {
+      record = stored ? JSON.parse(stored) as SerializedKeyPair | EncryptedKeyPair : null;
+    } catch (e) {
+      console.warn('Failed to parse stored keypair, generating new one:', e);
+    }
+
+    if (isEncryptedKeyPair(record)) {
+      if (!options.passphrase) throw new Error('Stored keypair is passphrase-protected');
+      const serialized = await decryptKeyPair(record, options.passphrase);
+      const keyPair = await deserializeKeyPair(serialized);
+      if (!serialized.signingPrivateKeyJwk) await storeKeyPair(keyPair, storage, storageKey, options);
+      return keyPair;
+    }
+
+    if (record) {
       try {
-        const serialized = JSON.parse(stored) as SerializedKeyPair;
-        return await deserializeKeyPair(serialized);
+        const keyPair = await deserializeKeyPair(record);
+        // Keep the signing key generated for an older stored keypair,
+        // and stop storing it in clear once there is a passphrase
+        if (!record.signingPrivateKeyJwk || options.passphrase) {
+          await storeKeyPair(keyPair, storage, storageKey, options);
+        }
+        return keyPair;
       } catch (e) {
         console.warn('Failed to load stored keypair, generating new one:', e);
       }
@@ -107,12 +313,11 @@ export async function getOrCreateKeyPair(
   }
 
   // Generate new keypair
-  const keyPair = await generateKeyPair();
+  const keyPair = await generateKeyPair(options.idLength);
 
   // Store if storage provided
   if (storage) {
-    const serialized = await serializeKeyPair(keyPair);
-    storage.set(storageKey, JSON.stringify(serialized));
+    await storeKeyPair(keyPair, storage, storageKey, options);
   }
 
   return keyPair;
@@ -141,23 +346,77 @@ export async function importPublicKey(base64: string): Promise<CryptoKey> {
 }
 
 /**
- * Derive device ID from public key (first 8 hex chars of SHA-256 hash)
+ * Derive device ID from public key (first idLength hex chars of SHA-256 hash)
  */
-async function deriveDeviceId(publicKeyRaw: string): Promise<string> {
-  const data = new TextEncoder().encode(publicKeyRaw);
-  const hash = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = new Uint8Array(hash);
+async function deriveDeviceId(publicKeyRaw: string, idLength: number = DEVICE_ID_LENGTH): Promise<string> {
+  if (idLength % 2 !== 0 || idLength < DEVICE_ID_LENGTH || idLength > MAX_DEVICE_ID_LENGTH) {
+    throw new Error(`Invalid device ID length: ${idLength}`);
+  }
+  return (await computeFingerprint(publicKeyRaw)).slice(0, idLength);
+}
+
+async function digestKey(publicKeyRaw: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(publicKeyRaw)));
+}
+
+/**
+ * Full SHA-256 fingerprint of a public key (64 uppercase hex chars).
+ * The device ID is a prefix of it.
+ */
+export async function computeFingerprint(publicKeyRaw: string): Promise<string> {
   // Use UPPERCASE hex for QR alphanumeric mode efficiency
-  return Array.from(hashArray.slice(0, 4))
+  return Array.from(await digestKey(publicKeyRaw))
     .map((b) => b.toString(16).padStart(2, '0').toUpperCase())
     .join('');
 }
 
+/**
+ * Safety number for two keys: 60 digits in groups of 5, identical on
+ * both devices. Reading them out to each other rules out a man in the
+ * middle, who would have to present a different key to each side.
+ */
+export async function computeSafetyNumber(publicKeyA: string, publicKeyB: string): Promise<string> {
+  const halves = await Promise.all([publicKeyA, publicKeyB].map(async (key) => {
+    const digest = await digestKey(key);
+    let digits = '';
+    // Six 5-byte chunks, each reduced to 5 digits (as in Signal)
+    for (let i = 0; i < 30; i += 5) {
+      const value = digest.slice(i, i + 5).reduce((n, b) => n * 256 + b, 0);
+      digits += (value % 100000).toString().padStart(5, '0');
+    }
+    return digits;
+  }));
+
+  return halves.sort().join('').match(/\d{5}/g)!.join(' ');
+}
+
 /**
  * Get device ID from a public key string
  */
-export async function deviceIdFromPublicKey(publicKeyRaw: string): Promise<string> {
-  return deriveDeviceId(publicKeyRaw);
+export async function deviceIdFromPublicKey(publicKeyRaw: string, idLength?: number): Promise<string> {
+  return deriveDeviceId(publicKeyRaw, idLength);
+}
+
+/**
+ * True for a well-formed device ID of any supported length
+ */
+export function isDeviceId(id: string): boolean {
+  return id.length >= DEVICE_ID_LENGTH && id.length <= MAX_DEVICE_ID_LENGTH && /^(?:[0-9A-F]{2})+$/.test(id);
+}
+
+/**
+ * True if the key hashes to the device ID, whatever its length
+ */
+export async function keyMatchesDeviceId(publicKeyRaw: string, id: string): Promise<boolean> {
+  return isDeviceId(id) && (await computeFingerprint(publicKeyRaw)).startsWith(id);
+}
+
+/**
+ * The compact ID to show people: the first 8 chars of any device ID.
+ * Not unique - MeshState reports keys that share one (id_collision).
+ */
+export function shortDeviceId(id: string): string {
+  return id.slice(0, SHORT_ID_LENGTH);
 }
 
 /**
@@ -184,6 +443,105 @@ export async function deriveSharedKey(
   );
 }
 
+/**
+ * Generate a random group sender key (AES-GCM, exportable so it can be
+ * handed to the other members)
+ */
+export async function generateGroupKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Export a group sender key as base64
+ */
+export async function exportGroupKey(key: CryptoKey): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('raw', key));
+}
+
+/**
+ * Import a group sender key received from another member (exportable,
+ * so the group can be persisted)
+ */
+export async function importGroupKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', base64ToArrayBuffer(raw), 'AES-GCM', true, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Derive the packet MAC key from the same ECDH secret as the shared key,
+ * via HKDF so the two keys are independent. A session context (e.g. both
+ * sides' epochs) gives every session its own key, so packets captured in
+ * one don't verify in another.
+ */
+export async function deriveMacKey(
+  privateKey: CryptoKey,
+  peerPublicKeyRaw: string,
+  context?: string
+): Promise<CryptoKey> {
+  const peerPublicKey = await importPublicKey(peerPublicKeyRaw);
+  const secret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: peerPublicKey },
+    privateKey,
+    256
+  );
+  const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: new TextEncoder().encode(context ? `${MAC_KEY_INFO}|${context}` : MAC_KEY_INFO),
+    },
+    hkdfKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+}
+
+/**
+ * Compute a truncated packet MAC (uppercase hex)
+ */
+export async function computeMac(key: CryptoKey, data: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+  return Array.from(new Uint8Array(signature).slice(0, MAC_BYTES))
+    .map((b) => b.toString(16).padStart(2, '0').toUpperCase())
+    .join('');
+}
+
+/**
+ * Check a truncated packet MAC
+ */
+export async function verifyMac(key: CryptoKey, data: string, mac: string): Promise<boolean> {
+  const expected = await computeMac(key, data);
+  let diff = expected.length ^ mac.length;
+  for (let i = 0; i < expected.length && i < mac.length; i++) {
+    diff |= expected.charCodeAt(i) ^ mac.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Sign data with our ECDSA key. Returns the 64-byte raw signature as
+ * base32 (103 chars) - ECDSA signatures can't be truncated like MACs.
+ */
+export async function computeSignature(signingKey: CryptoKey, data: string): Promise<string> {
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, signingKey, new TextEncoder().encode(data));
+  return arrayBufferToBase32(signature);
+}
+
+/**
+ * Check a signature made by computeSignature against a peer's signing key
+ */
+export async function verifySignature(signingKeyRaw: string, data: string, signature: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey('raw', base64ToArrayBuffer(signingKeyRaw), SIGNING_CURVE, false, ['verify']);
+    return await crypto.subtle.verify(SIGNATURE_ALGORITHM, key, base32ToArrayBuffer(signature), new TextEncoder().encode(data));
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Encrypt plaintext with AES-GCM
  */
@@ -191,7 +549,7 @@ export async function encrypt(
   key: CryptoKey,
   plaintext: string
 ): Promise<{ ciphertext: string; iv: string }> {
-  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
   const data = new TextEncoder().encode(plaintext);
 
   const ciphertext = await crypto.subtle.encrypt(
@@ -226,6 +584,44 @@ export async function decrypt(
   return new TextDecoder().decode(plaintext);
 }
 
+/**
+ * Encrypt plaintext into a single compact string: base32(iv || ciphertext)
+ *
+ * Uses only QR alphanumeric characters and no delimiters, so it can be
+ * dropped straight into a DATA payload without a JSON wrapper.
+ */
+export async function encryptCompact(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const data = new TextEncoder().encode(plaintext);
+
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data)
+  );
+
+  const packed = new Uint8Array(IV_LENGTH + ciphertext.length);
+  packed.set(iv, 0);
+  packed.set(ciphertext, IV_LENGTH);
+  return arrayBufferToBase32(packed.buffer);
+}
+
+/**
+ * Decrypt a string produced by encryptCompact
+ */
+export async function decryptCompact(key: CryptoKey, packed: string): Promise<string> {
+  const bytes = new Uint8Array(base32ToArrayBuffer(packed));
+  if (bytes.length <= IV_LENGTH) {
+    throw new Error('Compact ciphertext too short');
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+    key,
+    bytes.slice(IV_LENGTH)
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
+
 // Utility functions
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
@@ -244,3 +640,49 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   }
   return bytes.buffer;
 }
+
+
+/**
+ * Encode bytes as unpadded uppercase base32
+ */
+export function arrayBufferToBase32(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let result = '';
+  let bits = 0;
+  let value = 0;
+  for (let i = 0; i < bytes.byteLength; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      result += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return result;
+}
+
+/**
+ * Decode unpadded base32 (as produced by arrayBufferToBase32)
+ */
+export function base32ToArrayBuffer(base32: string): ArrayBuffer {
+  const bytes = new Uint8Array(Math.floor((base32.length * 5) / 8));
+  let bits = 0;
+  let value = 0;
+  let index = 0;
+  for (const char of base32) {
+    const n = BASE32_ALPHABET.indexOf(char);
+    if (n === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | n;
+    bits += 5;
+    if (bits >= 8) {
+      bytes[index++] = (value >>> (bits - 8)) & 255;
+      bits -= 8;
+    }
+  }
+  return bytes.buffer;
+}
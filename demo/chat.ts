@@ -5,11 +5,16 @@
  * Uses QUIC-inspired protocol for 0-RTT messaging.
  */
 
-import QRCode from 'qrcode';
 import { getOrCreateKeyPair, type KeyPair, type KeyStorage } from '../crypto';
-import { encodePacket, decodePacket, PACKET_TYPES, chunkPacket, isChunk, ChunkAssembler } from '../protocol';
-import { QRScanner, getScannerMode } from '../scanner';
-import { MeshState, type MeshEvent } from '../mesh';
+import { getScannerMode } from '../scanner';
+import { MeshState, ConnectionState, type MeshEvent } from '../mesh';
+import { MeshNode } from '../transport';
+import { MeshPersistence, createIndexedDBMeshStorage } from '../mesh-storage';
+import { LinkQuality } from '../link-quality';
+import { QRTransport } from '../qr-transport';
+import { ClipboardTransport } from '../clipboard-transport';
+import { type QRMeshClipboardElement } from '../clipboard-panel';
+import '../clipboard-panel';
 
 const styles = `
   :host {
@@ -406,6 +411,20 @@ const styles = `
     color: #64748b;
   }
 
+  .clipboard-section {
+    background: #1e293b;
+    border-radius: 0.75rem;
+    padding: 1rem;
+    margin-top: 1rem;
+  }
+
+  .clipboard-section summary {
+    cursor: pointer;
+    font-size: 0.875rem;
+    color: #94a3b8;
+    margin-bottom: 0.5rem;
+  }
+
   .instructions {
     background: #1e293b;
     border-radius: 0.75rem;
@@ -447,21 +466,15 @@ export class QRMeshChatElement extends HTMLElement {
   private shadow: ShadowRoot;
   private keyPair: KeyPair | null = null;
   private mesh: MeshState | null = null;
-  private scanner: QRScanner | null = null;
+  private persistence: MeshPersistence | null = null;
+  private node: MeshNode | null = null;
+  private qrTransport: QRTransport | null = null;
   private activePeerId: string | null = null;
   private messageQueue: QueuedMessage[] = [];
   private sentMessages: Array<{ text: string; timestamp: number; pn?: number }> = [];
   private receivedMessages: Array<{ text: string; timestamp: number }> = [];
-  private lastDisplayedPacket: string | null = null;
   private scanFlashTimeout: ReturnType<typeof setTimeout> | null = null;
 
-  // Chunking state
-  private chunkAssembler = new ChunkAssembler();
-  private currentChunks: string[] = [];
-  private currentChunkIndex: number = 0;
-  private chunkCycleInterval: ReturnType<typeof setInterval> | null = null;
-  private streamIdCounter: number = 0;
-
   // DOM refs
   private qrCanvas: HTMLCanvasElement | null = null;
   private videoEl: HTMLVideoElement | null = null;
@@ -487,8 +500,9 @@ export class QRMeshChatElement extends HTMLElement {
 
   disconnectedCallback() {
     if (this.scanFlashTimeout) clearTimeout(this.scanFlashTimeout);
-    if (this.chunkCycleInterval) clearInterval(this.chunkCycleInterval);
-    this.scanner?.stop();
+    if (this.scanDebugInterval) clearInterval(this.scanDebugInterval);
+    this.node?.stop();
+    this.persistence?.stop();
   }
 
   private async init() {
@@ -504,11 +518,34 @@ export class QRMeshChatElement extends HTMLElement {
         this.deviceIdEl.textContent = this.keyPair.deviceId;
       }
 
-      this.mesh = new MeshState(this.keyPair, { deviceName: 'Chat Demo' });
+      // Peers, keys and undelivered messages survive a reload
+      const meshStorage = createIndexedDBMeshStorage();
+      this.mesh = new MeshState(this.keyPair, { deviceName: 'Chat Demo', storage: meshStorage });
       this.mesh.subscribe((event) => this.handleMeshEvent(event));
+      this.persistence = new MeshPersistence(this.mesh, meshStorage);
+      await this.persistence.load();
+      this.persistence.start();
+
+      this.qrTransport = new QRTransport({
+        canvas: this.qrCanvas!,
+        width: 500,
+        margin: 4,
+        frameInterval: 150, // Cycle chunks fast for more scan opportunities
+        onFrameDisplayed: (frame, index, total) => this.updateQRDebug(frame, index, total),
+        onError: (error) => this.updateCameraOverlay(error.message, true),
+      });
 
-      // Show initial beacon QR (static - only changes on scan)
-      this.updateQR();
+      // Copy/paste fallback for devices without a camera
+      const clipboardTransport = new ClipboardTransport({ mesh: this.mesh });
+      const clipboardPanel = this.shadow.getElementById('clipboard') as QRMeshClipboardElement | null;
+      if (clipboardPanel) clipboardPanel.transport = clipboardTransport;
+
+      // Node shows the initial beacon and handles scans from here on
+      this.node = new MeshNode(this.mesh, [this.qrTransport, clipboardTransport], {
+        linkQuality: new LinkQuality(), // Bigger frames while ACKs come back promptly
+        onFrame: (data) => this.handleFrame(data),
+      });
+      await this.node.start();
 
       this.updateStatus('Beacon ready', 'idle');
     } catch (e) {
@@ -533,7 +570,13 @@ export class QRMeshChatElement extends HTMLElement {
         this.processMessageQueue();
         break;
       case 'peer_updated':
-        this.updatePeerBadge(event.peer.id, 'discovered');
+        this.updatePeerBadge(event.peer.id, event.peer.state === ConnectionState.ESTABLISHED ? 'active' : 'discovered');
+        break;
+      case 'connection_state_changed':
+        this.updatePeerBadge(event.peer.id, event.state === ConnectionState.ESTABLISHED ? 'active' : 'discovered');
+        if (event.state === ConnectionState.FAILED) {
+          this.updateStatus('Handshake failed: ' + event.peer.id.slice(0, 4) + '...', 'error');
+        }
         break;
       case 'packet_acked':
         console.log('[Chat] packet_acked event for pn:', event.pn);
@@ -550,8 +593,6 @@ export class QRMeshChatElement extends HTMLElement {
           this.messageQueue = this.messageQueue.filter(m => m.id !== ackedMsg.id);
           this.updateQueueBadge();
           this.renderMessages();
-          // Update QR to show next pending message (or beacon if done)
-          this.updateQR();
         } else {
           console.log('[Chat] No matching message found for pn:', event.pn, 'queue:', this.messageQueue.map(m => m.pn));
         }
@@ -571,8 +612,6 @@ export class QRMeshChatElement extends HTMLElement {
             timestamp: event.message.timestamp,
           });
           this.renderMessages();
-          // Update QR to show ACK packet
-          this.updateQR();
         }
         break;
     }
@@ -602,87 +641,25 @@ export class QRMeshChatElement extends HTMLElement {
         this.renderMessages();
       }
     }
-
-    // Update QR to show outgoing message
-    this.updateQR();
-  }
-
-  private async updateQR() {
-    if (!this.mesh || !this.qrCanvas) return;
-
-    const packet = this.mesh.getNextOutgoingPacket();
-    if (packet) {
-      const encoded = encodePacket(packet);
-
-      // Only update if packet changed
-      if (encoded === this.lastDisplayedPacket) return;
-      this.lastDisplayedPacket = encoded;
-
-      // Chunk the packet (returns single-element array if <= 8 chars)
-      this.currentChunks = chunkPacket(encoded, this.streamIdCounter++);
-      this.currentChunkIndex = 0;
-
-      // Stop existing cycle
-      if (this.chunkCycleInterval) {
-        clearInterval(this.chunkCycleInterval);
-        this.chunkCycleInterval = null;
-      }
-
-      // Display first chunk
-      await this.displayCurrentChunk();
-      this.mesh.markPacketDisplayed(packet);
-
-      // If multiple chunks, cycle through them faster for reliable scanning
-      if (this.currentChunks.length > 1) {
-        this.chunkCycleInterval = setInterval(async () => {
-          this.currentChunkIndex = (this.currentChunkIndex + 1) % this.currentChunks.length;
-          await this.displayCurrentChunk();
-        }, 150); // Cycle every 150ms - faster for more scan opportunities
-      }
-    }
   }
 
-  private async displayCurrentChunk() {
-    if (!this.qrCanvas || this.currentChunks.length === 0) return;
-
-    const chunk = this.currentChunks[this.currentChunkIndex];
-    try {
-      await QRCode.toCanvas(this.qrCanvas, chunk, {
-        width: 500,
-        margin: 4,
-        errorCorrectionLevel: 'L',
-        color: { dark: '#000', light: '#fff' },
-      });
-
-      // Update debug display
-      const qrDebug = this.shadow.getElementById('qr-debug');
-      if (qrDebug) {
-        if (this.currentChunks.length > 1) {
-          qrDebug.textContent = `Chunk ${this.currentChunkIndex + 1}/${this.currentChunks.length}: ${chunk}`;
-        } else {
-          qrDebug.textContent = `QR: ${chunk} (${chunk.length} chars)`;
-        }
-      }
-    } catch (e) {
-      console.error('QR error:', e);
+  private updateQRDebug(frame: string, index: number, total: number) {
+    const qrDebug = this.shadow.getElementById('qr-debug');
+    if (!qrDebug) return;
+    if (total > 1) {
+      qrDebug.textContent = `Frame ${index + 1} (${total} per packet): ${frame}`;
+    } else {
+      qrDebug.textContent = `QR: ${frame} (${frame.length} chars)`;
     }
   }
 
   private async startCamera() {
-    if (!this.videoEl || this.scanner) return;
+    if (!this.videoEl || !this.qrTransport || this.qrTransport.getScanner()) return;
 
     try {
       this.updateCameraOverlay('Starting camera...', false);
 
-      this.scanner = new QRScanner({
-        onScan: (result) => this.handleScan(result.data),
-        onError: (error) => {
-          this.updateCameraOverlay(error.message, true);
-        },
-        scanInterval: 100,
-      });
-
-      await this.scanner.start(this.videoEl);
+      await this.qrTransport.startCamera(this.videoEl);
       this.hideCameraOverlay();
       this.updateStatus('Scanning', 'scanning');
 
@@ -706,57 +683,18 @@ export class QRMeshChatElement extends HTMLElement {
     if (scanModeEl) scanModeEl.textContent = getScannerMode();
 
     this.scanDebugInterval = setInterval(() => {
-      if (this.scanner) {
-        if (scanCountEl) scanCountEl.textContent = String(this.scanner.scanCount);
-        if (scanResultEl) scanResultEl.textContent = this.scanner.lastScanResult;
+      const scanner = this.qrTransport?.getScanner();
+      if (scanner) {
+        if (scanCountEl) scanCountEl.textContent = String(scanner.scanCount);
+        if (scanResultEl) scanResultEl.textContent = scanner.lastScanResult;
       }
     }, 500);
   }
 
-  private handleScan(data: string) {
-    console.log('[Chat] handleScan raw:', data);
-    if (!this.mesh) return;
-
-    // Check if this is a chunk that needs assembly
-    if (isChunk(data)) {
-      const chunkInfo = data.slice(0, 4); // F + stream + index + flag
-      const isLast = data[3] === 'L';
-      console.log(`[Chat] Chunk: ${chunkInfo} (${isLast ? 'LAST' : 'more...'})`);
-      const assembled = this.chunkAssembler.addChunk(data);
-      if (assembled) {
-        console.log('[Chat] ASSEMBLED:', assembled);
-        data = assembled;
-      } else {
-        // Still waiting for more chunks - flash to show we're receiving
-        this.flashScanIndicator();
-        return;
-      }
-    }
-
-    const packet = decodePacket(data);
-    console.log('[Chat] decoded packet:', packet);
-    if (!packet) {
-      console.log('[Chat] Failed to decode packet');
-      return;
-    }
-
-    // Flash the status to indicate scan
+  private handleFrame(data: string) {
+    console.log('[Chat] frame:', data);
+    // Flash on every frame (including partial chunks) to show we're receiving
     this.flashScanIndicator();
-
-    if (packet.t === PACKET_TYPES.BEACON) {
-      console.log('[Chat] Processing beacon from:', packet.src);
-      this.mesh.processBeacon(packet);
-      // Auto-select peer when discovered
-      const peers = this.mesh.getPeers();
-      console.log('[Chat] Peers after beacon:', peers.length, 'activePeerId:', this.activePeerId);
-      if (peers.length > 0 && !this.activePeerId) {
-        this.activePeerId = peers[0].id;
-        this.updatePeerBadge(peers[0].id, peers[0].sharedKey ? 'active' : 'discovered');
-      }
-    } else {
-      console.log('[Chat] Processing non-beacon packet type:', packet.t);
-      this.mesh.processPacket(packet);
-    }
   }
 
   private flashScanIndicator() {
@@ -1013,6 +951,11 @@ export class QRMeshChatElement extends HTMLElement {
           </div>
         </div>
 
+        <details class="clipboard-section">
+          <summary>No camera? Copy / paste packets instead</summary>
+          <qrmesh-clipboard id="clipboard"></qrmesh-clipboard>
+        </details>
+
         <div class="instructions">
           <h3>How it works:</h3>
           <ol>
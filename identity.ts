@@ -0,0 +1,125 @@
+/**
+ * Identity Backup - move a keypair to a new device
+ *
+ * exportIdentity encrypts the keypair under a passphrase (the same
+ * PBKDF2 + AES-GCM wrap getOrCreateKeyPair stores it with) and packs it
+ * into one QR-alphanumeric string:
+ *
+ *   K{base32([version:1] [iterations:4] [salt:16] [iv:12] [ciphertext])}{crc}
+ *
+ * At around 1,200 chars that fits one dense QR code; for small screens or
+ * shaky cameras createIdentityFrames shows it as a fountain-coded
+ * sequence instead. The new device feeds each scan to a FountainDecoder,
+ * hands the result to importIdentity, and saves it with storeKeyPair.
+ */
+
+import {
+  type KeyPair,
+  type EncryptedKeyPair,
+  type SerializedKeyPair,
+  serializeKeyPair,
+  deserializeKeyPair,
+  encryptKeyPair,
+  decryptKeyPair,
+  arrayBufferToBase32,
+  base32ToArrayBuffer,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  PASSPHRASE_ITERATIONS,
+} from './crypto';
+import { type FountainOptions, FountainEncoder, crc16 } from './protocol';
+
+const BACKUP_VERSION = 1;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const HEADER_BYTES = 1 + 4 + SALT_BYTES + IV_BYTES;
+const BACKUP_PATTERN = /^K([A-Z2-7]+)([0-9A-F]{4})$/;
+
+export interface IdentityExportOptions {
+  iterations?: number;  // PBKDF2 iterations, 100,000 to 10,000,000 (default PASSPHRASE_ITERATIONS)
+}
+
+function checksum(body: string): string {
+  return crc16(new TextEncoder().encode(body)).toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Drop the JWK fields importKey doesn't need - they'd only lengthen the code
+ */
+function compactJwk(jwk: JsonWebKey): JsonWebKey {
+  const { kty, crv, x, y, d } = jwk;
+  return { kty, crv, x, y, d };
+}
+
+/**
+ * Encrypt a keypair into a backup code. Anyone with the code and the
+ * passphrase holds this identity - pick a strong passphrase.
+ */
+export async function exportIdentity(
+  keyPair: KeyPair,
+  passphrase: string,
+  options: IdentityExportOptions = {}
+): Promise<string> {
+  const serialized = await serializeKeyPair(keyPair);
+  const compact: SerializedKeyPair = {
+    ...serialized,
+    publicKeyJwk: compactJwk(serialized.publicKeyJwk),
+    privateKeyJwk: compactJwk(serialized.privateKeyJwk),
+    signingPublicKeyJwk: serialized.signingPublicKeyJwk && compactJwk(serialized.signingPublicKeyJwk),
+    signingPrivateKeyJwk: serialized.signingPrivateKeyJwk && compactJwk(serialized.signingPrivateKeyJwk),
+  };
+  const encrypted = await encryptKeyPair(compact, passphrase, options.iterations ?? PASSPHRASE_ITERATIONS);
+
+  const ciphertext = new Uint8Array(base64ToArrayBuffer(encrypted.ciphertext));
+  const bytes = new Uint8Array(HEADER_BYTES + ciphertext.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, BACKUP_VERSION);
+  view.setUint32(1, encrypted.iterations);
+  bytes.set(new Uint8Array(base64ToArrayBuffer(encrypted.salt)), 5);
+  bytes.set(new Uint8Array(base64ToArrayBuffer(encrypted.iv)), 5 + SALT_BYTES);
+  bytes.set(ciphertext, HEADER_BYTES);
+
+  const body = `K${arrayBufferToBase32(bytes.buffer)}`;
+  return `${body}${checksum(body)}`;
+}
+
+export function isIdentityBackup(data: string): boolean {
+  return BACKUP_PATTERN.test(data);
+}
+
+/**
+ * Decrypt a backup code back into a keypair. Throws if the code is
+ * damaged, asks for an iteration count out of range, or the passphrase
+ * is wrong.
+ */
+export async function importIdentity(backup: string, passphrase: string): Promise<KeyPair> {
+  const match = backup.trim().match(BACKUP_PATTERN);
+  if (!match || checksum(`K${match[1]}`) !== match[2]) {
+    throw new Error('Invalid identity backup');
+  }
+
+  const bytes = new Uint8Array(base32ToArrayBuffer(match[1]));
+  if (bytes.length <= HEADER_BYTES) throw new Error('Invalid identity backup');
+  const view = new DataView(bytes.buffer);
+  if (view.getUint8(0) !== BACKUP_VERSION) {
+    throw new Error(`Unsupported identity backup version: ${view.getUint8(0)}`);
+  }
+
+  // decryptKeyPair refuses an iteration count out of range
+  const encrypted: EncryptedKeyPair = {
+    kdf: 'PBKDF2-SHA256',
+    iterations: view.getUint32(1),
+    salt: arrayBufferToBase64(bytes.slice(5, 5 + SALT_BYTES).buffer),
+    iv: arrayBufferToBase64(bytes.slice(5 + SALT_BYTES, HEADER_BYTES).buffer),
+    ciphertext: arrayBufferToBase64(bytes.slice(HEADER_BYTES).buffer),
+  };
+  return deserializeKeyPair(await decryptKeyPair(encrypted, passphrase));
+}
+
+/**
+ * Show a backup code as a multi-frame QR sequence: call nextFrame() for
+ * each code to display. Enough frames, in any order, reassemble it.
+ */
+export function createIdentityFrames(backup: string, options: FountainOptions = {}): FountainEncoder {
+  return new FountainEncoder(backup, options);
+}
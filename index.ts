@@ -15,24 +15,55 @@ export {
   type KeyPair,
   type SerializedKeyPair,
   type KeyStorage,
+  type EncryptedKeyPair,
+  type KeyPairOptions,
   generateKeyPair,
   serializeKeyPair,
   deserializeKeyPair,
   getOrCreateKeyPair,
+  storeKeyPair,
+  encryptKeyPair,
+  decryptKeyPair,
+  isEncryptedKeyPair,
+  PASSPHRASE_ITERATIONS,
   importPublicKey,
   deviceIdFromPublicKey,
+  keyMatchesDeviceId,
+  isDeviceId,
+  shortDeviceId,
+  DEVICE_ID_LENGTH,
+  MAX_DEVICE_ID_LENGTH,
+  computeFingerprint,
+  computeSafetyNumber,
+  computeSignature,
+  verifySignature,
   deriveSharedKey,
+  generateGroupKey,
+  exportGroupKey,
+  importGroupKey,
   encrypt,
   decrypt,
+  encryptCompact,
+  decryptCompact,
   arrayBufferToBase64,
   base64ToArrayBuffer,
+  arrayBufferToBase32,
+  base32ToArrayBuffer,
 } from './crypto';
+export {
+  type IdentityExportOptions,
+  exportIdentity,
+  importIdentity,
+  isIdentityBackup,
+  createIdentityFrames,
+} from './identity';
 
 // Protocol exports
 export {
   PROTOCOL_VERSION,
   PROTOCOL_PREFIX,
   BROADCAST_ADDR,
+  BROADCAST_GROUP,
   PACKET_TYPES,
   MESSAGE_TYPES,
   type PacketType,
@@ -41,8 +72,29 @@ export {
   type QRPacket,
   type ChatPayload,
   type OfferPayload,
+  type AnnouncePayload,
+  type RoutePayload,
+  type GroupKeyPayload,
+  DECODE_ERRORS,
+  type DecodeErrorCode,
+  type DecodeError,
+  type DecodeResult,
+  crc16,
+  encodePacketBody,
   encodePacket,
   decodePacket,
+  tryDecodePacket,
+  type PacketCodec,
+  registerCodec,
+  getCodec,
+  getSupportedVersions,
+  versionsToCapabilities,
+  capabilitiesToVersions,
+  negotiateVersion,
+  encodeFrame,
+  decodeFrame,
+  encodeBase45,
+  decodeBase45,
   isForUs,
   addToAckRanges,
   isAcked,
@@ -54,7 +106,29 @@ export {
   createAckPacket,
   createChatPacket,
   parseChatPayload,
+  type FountainOptions,
+  type FountainFrame,
+  type FountainDecoderOptions,
+  FountainEncoder,
+  FountainDecoder,
+  isFountainFrame,
+  parseFountainFrame,
+  encodeVerificationCode,
+  isVerificationCode,
+  parseVerificationCode,
 } from './protocol';
+export {
+  BINARY_PROTOCOL_VERSION,
+  binaryCodec,
+  type EncodingSize,
+  type PacketSizeReport,
+  encodePacketBinary,
+  decodePacketBinary,
+  encodePacketBase45,
+  decodePacketBase45,
+  packetSizeReport,
+  formatSizeReport,
+} from './binary-codec';
 
 // Scanner exports
 export {
@@ -70,13 +144,114 @@ export {
 export {
   type SentPacket,
   type Peer,
+  type PendingEpoch,
+  type Group,
   type PacketLogEntry,
   type ChatMessage,
   type MeshEvent,
   type MeshEventHandler,
   type MeshConfig,
+  type PeerSnapshot,
+  type GroupSnapshot,
+  type MeshSnapshot,
+  MESH_SNAPSHOT_VERSION,
+  ConnectionState,
   MeshState,
 } from './mesh';
+export {
+  type MeshStorage,
+  type MeshPersistenceOptions,
+  MeshPersistence,
+  migrateSnapshot,
+  createMemoryMeshStorage,
+  createIndexedDBMeshStorage,
+} from './mesh-storage';
+export { ReplayWindow } from './replay-window';
+export { type RatchetState, SessionRatchet } from './ratchet';
+export {
+  NOISE_PATTERNS,
+  type NoisePattern,
+  type NoiseKeyPair,
+  type NoiseSplit,
+  NoiseHandshake,
+  packHandshakeMessage,
+  unpackHandshakeMessage,
+} from './noise';
+export {
+  type Route,
+  type RouteAdvert,
+  type RoutingTableOptions,
+  RoutingTable,
+} from './routing';
+export {
+  type QueueStorage,
+  type QueuedMessage,
+  type MessageQueueOptions,
+  MessageQueue,
+} from './message-queue';
+
+// Transport exports
+export {
+  type Transport,
+  type TransportReceiveCallback,
+  type TransportSendOptions,
+  type MeshNodeOptions,
+  MeshNode,
+} from './transport';
+export {
+  type ErrorCorrectionLevel,
+  type LinkQualityOptions,
+  type LinkQualityStats,
+  LinkQuality,
+} from './link-quality';
+
+export {
+  type QRTransportOptions,
+  QRTransport,
+} from './qr-transport';
+
+export {
+  type AudioTransportOptions,
+  AudioTransport,
+} from './audio-transport';
+
+export {
+  type ClipboardTransportOptions,
+  ClipboardTransport,
+  splitFrames,
+} from './clipboard-transport';
+
+export {
+  type DataChannelLike,
+  type PeerConnectionLike,
+  type SessionDescriptionLike,
+  type WebRTCUpgradeOptions,
+  type UpgradeEvent,
+  type UpgradeEventHandler,
+  RTCTransport,
+  WebRTCUpgradeManager,
+  LoopbackRTC,
+  compressSdp,
+  decompressSdp,
+} from './webrtc-upgrade';
+export {
+  type WebSocketLike,
+  type WebSocketTransportOptions,
+  type WebSocketUpgradeOptions,
+  WebSocketTransport,
+  WebSocketUpgradeManager,
+} from './websocket-transport';
+
+// Audio modem exports
+export {
+  type FSKConfig,
+  type ChannelOptions,
+  DEFAULT_FSK_CONFIG,
+  modulate,
+  frameDuration,
+  FSKDemodulator,
+  simulateChannel,
+} from './audio-modem';
 
 /**
  * Create a localStorage-compatible KeyStorage adapter
@@ -103,3 +278,4 @@ export function createMemoryStorageAdapter(): import('./crypto').KeyStorage {
 
 // Web Component export
 export { QRTCPDemoElement, registerQRTCPElement } from './component';
+export { QRMeshClipboardElement, registerClipboardPanelElement } from './clipboard-panel';
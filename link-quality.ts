@@ -0,0 +1,122 @@
+/**
+ * Link Quality - how much a QR link carries per frame
+ *
+ * MeshNode feeds the estimator what it can observe about the display and
+ * camera link: ACK round trips, packets that had to be shown again, and
+ * scanned frames that failed their checksum. Frame size follows TCP's
+ * AIMD: it grows by a few chars with every timely ACK and halves on every
+ * retransmission. The QR error-correction level steps up as misreads and
+ * retransmissions rise, trading capacity for robustness.
+ */
+
+export type ErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface LinkQualityOptions {
+  initialFrameSize?: number;  // chars (default 34, QR v2 at L)
+  minFrameSize?: number;      // Floor for worst-case cameras (default 10)
+  maxFrameSize?: number;      // default 150
+  increment?: number;         // chars added per timely ACK (default 8)
+  targetRtt?: number;         // ms - slower ACKs don't grow the frame (default 2000)
+  smoothing?: number;         // Weight of each new sample in the averages (default 0.2)
+}
+
+export interface LinkQualityStats {
+  frameSize: number;
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  rtt: number | null;         // Smoothed ACK round trip (ms)
+  retransmitRate: number;     // Share of sends that were retransmissions
+  misreadRate: number;        // Share of scanned frames that failed decoding
+}
+
+/**
+ * Link quality estimator
+ */
+export class LinkQuality {
+  private initialFrameSize: number;
+  private minFrameSize: number;
+  private maxFrameSize: number;
+  private increment: number;
+  private targetRtt: number;
+  private smoothing: number;
+
+  private size: number;
+  private rtt: number | null = null;
+  private retransmitRate: number = 0;
+  private misreadRate: number = 0;
+
+  constructor(options: LinkQualityOptions = {}) {
+    this.minFrameSize = options.minFrameSize ?? 10;
+    this.maxFrameSize = options.maxFrameSize ?? 150;
+    this.initialFrameSize = this.clamp(options.initialFrameSize ?? 34);
+    this.increment = options.increment ?? 8;
+    this.targetRtt = options.targetRtt ?? 2000;
+    this.smoothing = options.smoothing ?? 0.2;
+    this.size = this.initialFrameSize;
+  }
+
+  /**
+   * Largest frame (chars) to send right now
+   */
+  get frameSize(): number {
+    return this.size;
+  }
+
+  get errorCorrectionLevel(): ErrorCorrectionLevel {
+    const loss = Math.max(this.misreadRate, this.retransmitRate);
+    if (loss < 0.1) return 'L';
+    if (loss < 0.25) return 'M';
+    if (loss < 0.5) return 'Q';
+    return 'H';
+  }
+
+  /**
+   * A packet was acknowledged rtt ms after it was (last) shown
+   */
+  recordAck(rtt: number): void {
+    this.rtt = this.rtt === null ? rtt : this.average(this.rtt, rtt);
+    this.retransmitRate = this.average(this.retransmitRate, 0);
+    if (rtt <= this.targetRtt) {
+      this.size = this.clamp(this.size + this.increment);
+    }
+  }
+
+  /**
+   * A packet had to be shown again
+   */
+  recordRetransmit(): void {
+    this.retransmitRate = this.average(this.retransmitRate, 1);
+    this.size = this.clamp(Math.floor(this.size / 2));
+  }
+
+  /**
+   * A frame was scanned; ok is false if it failed to decode (misread)
+   */
+  recordScan(ok: boolean): void {
+    this.misreadRate = this.average(this.misreadRate, ok ? 0 : 1);
+  }
+
+  getStats(): LinkQualityStats {
+    return {
+      frameSize: this.size,
+      errorCorrectionLevel: this.errorCorrectionLevel,
+      rtt: this.rtt,
+      retransmitRate: this.retransmitRate,
+      misreadRate: this.misreadRate,
+    };
+  }
+
+  reset(): void {
+    this.size = this.initialFrameSize;
+    this.rtt = null;
+    this.retransmitRate = 0;
+    this.misreadRate = 0;
+  }
+
+  private average(current: number, sample: number): number {
+    return current + this.smoothing * (sample - current);
+  }
+
+  private clamp(size: number): number {
+    return Math.min(this.maxFrameSize, Math.max(this.minFrameSize, size));
+  }
+}
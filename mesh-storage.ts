@@ -0,0 +1,330 @@
+/**
+ * Mesh Storage - persists MeshState across reloads
+ *
+ * MeshPersistence watches mesh events and writes only what changed: one
+ * record per peer and group, one per chat message, and a meta record
+ * with the schema version and packet counter. Loading reassembles a
+ * MeshSnapshot, migrates it to the current schema and restores the mesh.
+ * A MeshStorage also fits MeshConfig.storage, so the message queue can
+ * live in the same database.
+ */
+
+import {
+  MESH_SNAPSHOT_VERSION,
+  type ChatMessage,
+  type GroupSnapshot,
+  type MeshEvent,
+  type MeshSnapshot,
+  type MeshState,
+  type PeerSnapshot,
+} from './mesh';
+
+/**
+ * Async key-value storage
+ */
+export interface MeshStorage {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface MeshPersistenceOptions {
+  prefix?: string;   // Key prefix (default 'qrmesh:')
+  delay?: number;    // ms to batch changes before writing (default 100)
+}
+
+/**
+ * Meta record - everything needed to find and read the rest
+ */
+interface StoredMeta {
+  version: number;
+  epoch?: string;
+  pn: number;
+  chatCount: number;
+  groups: string[];
+}
+
+type SnapshotMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * MIGRATIONS[n] turns a schema n snapshot into schema n + 1. Add one
+ * (and bump MESH_SNAPSHOT_VERSION) whenever a snapshot type changes.
+ */
+const MIGRATIONS: Record<number, SnapshotMigration> = {
+  // v2 added session epochs. v1 sessions keep their epoch-less MAC keys
+  // until the peers exchange INITIALs again; we start a new epoch.
+  1: (snapshot) => ({
+    ...snapshot,
+    peers: (snapshot.peers as Record<string, unknown>[]).map((peer) => ({ ...peer, epoch: undefined })),
+  }),
+  // v3 added Peer.verified - existing contacts start unverified
+  2: (snapshot) => ({
+    ...snapshot,
+    peers: (snapshot.peers as Record<string, unknown>[]).map((peer) => ({ ...peer, verified: false })),
+  }),
+  // v4 added Peer.signingKey - pinned from each peer's next signed INITIAL
+  3: (snapshot) => snapshot,
+  // v5 added the chat ratchet - it starts at each peer's next INITIAL exchange
+  4: (snapshot) => snapshot,
+  // v6 seeds the ratchet from the Noise handshake: ratchets are named by
+  // their handshake, and peers no longer keep an ephemeral key
+  5: (snapshot) => ({
+    ...snapshot,
+    peers: (snapshot.peers as Record<string, unknown>[]).map(({ ephemeralKey: _, ratchet, ...peer }) => {
+      if (!ratchet) return peer;
+      const { localKey, remoteKey, ...chains } = ratchet as Record<string, unknown>;
+      return { ...peer, ratchet: { ...chains, session: `${localKey}|${remoteKey}` } };
+    }),
+  }),
+  // v7 added Peer.pastEpochs - replays are refused from epochs seen after it
+  6: (snapshot) => ({
+    ...snapshot,
+    peers: (snapshot.peers as Record<string, unknown>[]).map((peer) => ({ ...peer, pastEpochs: [] })),
+  }),
+};
+
+/**
+ * Bring a stored snapshot up to the current schema
+ */
+export function migrateSnapshot(snapshot: { version: number } & Record<string, unknown>): MeshSnapshot {
+  if (snapshot.version > MESH_SNAPSHOT_VERSION) {
+    throw new Error(`Snapshot version ${snapshot.version} is newer than supported (${MESH_SNAPSHOT_VERSION})`);
+  }
+
+  let current: Record<string, unknown> = snapshot;
+  for (let version = snapshot.version; version < MESH_SNAPSHOT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from snapshot version ${version}`);
+    current = { ...migrate(current), version: version + 1 };
+  }
+  return current as unknown as MeshSnapshot;
+}
+
+/**
+ * Create an in-memory MeshStorage
+ */
+export function createMemoryMeshStorage(): MeshStorage {
+  const store = new Map<string, string>();
+  return {
+    get: async (key) => store.get(key) ?? null,
+    set: async (key, value) => { store.set(key, value); },
+    remove: async (key) => { store.delete(key); },
+    keys: async () => Array.from(store.keys()),
+  };
+}
+
+/**
+ * Create a MeshStorage backed by an IndexedDB object store
+ */
+export function createIndexedDBMeshStorage(name: string = 'qrmesh', storeName: string = 'state'): MeshStorage {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const store = (await open()).transaction(storeName, mode).objectStore(storeName);
+    return new Promise((resolve, reject) => {
+      const request = action(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: async (key) => (await run<string | undefined>('readonly', (store) => store.get(key))) ?? null,
+    set: async (key, value) => { await run('readwrite', (store) => store.put(value, key)); },
+    remove: async (key) => { await run('readwrite', (store) => store.delete(key)); },
+    keys: async () => (await run('readonly', (store) => store.getAllKeys())).map(String),
+  };
+}
+
+/**
+ * Incremental MeshState persistence
+ */
+export class MeshPersistence {
+  private mesh: MeshState;
+  private storage: MeshStorage;
+  private prefix: string;
+  private delay: number;
+
+  private dirtyPeers: Set<string> = new Set();
+  private dirtyGroups: Set<string> = new Set();
+  private newMessages: ChatMessage[] = [];
+  private chatCount: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(mesh: MeshState, storage: MeshStorage, options: MeshPersistenceOptions = {}) {
+    this.mesh = mesh;
+    this.storage = storage;
+    this.prefix = options.prefix ?? 'qrmesh:';
+    this.delay = options.delay ?? 100;
+  }
+
+  /**
+   * Restore the mesh from storage (use instead of mesh.restore()).
+   * Returns false if nothing was stored yet.
+   */
+  async load(): Promise<boolean> {
+    const meta = await this.read<StoredMeta>('meta');
+    if (!meta) {
+      await this.mesh.restore();
+      return false;
+    }
+
+    const peers: PeerSnapshot[] = [];
+    for (const key of await this.storage.keys()) {
+      if (!key.startsWith(`${this.prefix}peer:`)) continue;
+      const peer = await this.read<PeerSnapshot>(key.slice(this.prefix.length));
+      if (peer) peers.push(peer);
+    }
+
+    const chatHistory: ChatMessage[] = [];
+    for (let i = 0; i < meta.chatCount; i++) {
+      const message = await this.read<ChatMessage>(`chat:${i}`);
+      if (message) chatHistory.push(message);
+    }
+
+    const groups: GroupSnapshot[] = [];
+    for (const id of meta.groups) {
+      const group = await this.read<GroupSnapshot>(`group:${id}`);
+      if (group) groups.push(group);
+    }
+
+    this.chatCount = meta.chatCount;
+    await this.mesh.restore(migrateSnapshot({ version: meta.version, epoch: meta.epoch, pn: meta.pn, peers, chatHistory, groups }));
+    return true;
+  }
+
+  /**
+   * Start writing changes as mesh events report them
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.mesh.subscribe((event) => this.handleEvent(event));
+  }
+
+  /**
+   * Stop watching. Changes not yet written are flushed.
+   */
+  stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    return this.flush();
+  }
+
+  /**
+   * Write pending changes now
+   */
+  flush(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.writing = this.writing
+      .then(() => this.write())
+      .catch((e) => console.error('[MeshPersistence] Write failed:', e));
+    return this.writing;
+  }
+
+  /**
+   * Delete everything this persistence wrote
+   */
+  async clear(): Promise<void> {
+    await this.writing;
+    for (const key of await this.storage.keys()) {
+      if (key.startsWith(this.prefix)) await this.storage.remove(key);
+    }
+    this.chatCount = 0;
+  }
+
+  private handleEvent(event: MeshEvent): void {
+    switch (event.type) {
+      case 'peer_discovered':
+      case 'peer_updated':
+      case 'peer_restarted':
+      case 'connection_state_changed':
+        this.dirtyPeers.add(event.peer.id);
+        break;
+      case 'packet_sent':
+        // Group packets are tracked by every recipient
+        for (const id of Object.keys(this.mesh.getRecipientStatus(event.packet.pn))) {
+          this.dirtyPeers.add(id);
+        }
+        break;
+      case 'packet_received':
+        this.dirtyPeers.add(event.packet.src);
+        break;
+      case 'packet_acked':
+      case 'packet_failed':
+        this.dirtyPeers.add(event.peerId);
+        break;
+      case 'chat_message':
+        this.newMessages.push(event.message);
+        break;
+      case 'group_updated':
+        this.dirtyGroups.add(event.group.id);
+        break;
+      default:
+        return;
+    }
+
+    if (this.timer === null) {
+      this.timer = setTimeout(() => this.flush(), this.delay);
+    }
+  }
+
+  private async write(): Promise<void> {
+    const peers = Array.from(this.dirtyPeers);
+    const groups = Array.from(this.dirtyGroups);
+    const messages = this.newMessages;
+    this.dirtyPeers.clear();
+    this.dirtyGroups.clear();
+    this.newMessages = [];
+
+    for (const id of peers) {
+      const peer = this.mesh.snapshotPeer(id);
+      if (peer) await this.put(`peer:${id}`, peer);
+    }
+    for (const id of groups) {
+      const group = await this.mesh.snapshotGroup(id);
+      if (group) await this.put(`group:${id}`, group);
+    }
+    for (const message of messages) {
+      await this.put(`chat:${this.chatCount++}`, message);
+    }
+
+    const meta: StoredMeta = {
+      version: MESH_SNAPSHOT_VERSION,
+      epoch: this.mesh.epoch,
+      pn: this.mesh.packetNumber,
+      chatCount: this.chatCount,
+      groups: this.mesh.getGroups().map((group) => group.id),
+    };
+    await this.put('meta', meta);
+  }
+
+  private async read<T>(key: string): Promise<T | null> {
+    const raw = await this.storage.get(this.prefix + key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  private put(key: string, value: unknown): Promise<void> {
+    return this.storage.set(this.prefix + key, JSON.stringify(value));
+  }
+}
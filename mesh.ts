@@ -2,24 +2,170 @@
  * Mesh State - QUIC-style peer management with ultra-compact packets
  *
  * Protocol v3 uses minimal beacons for discovery, only exchanging
- * full public keys when actually communicating.
+ * full public keys when actually communicating. Devices out of view are
+ * reached through neighbours with ROUTE messages (see routing.ts).
+ * Chat and routed messages wait in a persistent queue until acknowledged
+ * or expired, so they survive partings and restarts (see message-queue.ts).
+ * Groups (and the broadcast group of all established peers) share one
+ * frame between many scanners, encrypted with per-sender group keys.
+ * INITIALs carry a Noise handshake (XX, or IK for peers whose key we
+ * hold - see noise.ts), and direct chats take a fresh key per message
+ * from a session ratchet seeded by it (see ratchet.ts).
  */
 
-import { KeyPair, deriveSharedKey, decrypt } from './crypto';
+import {
+  KeyPair,
+  deriveSharedKey,
+  deriveMacKey,
+  computeMac,
+  verifyMac,
+  computeSignature,
+  verifySignature,
+  decrypt,
+  encryptCompact,
+  decryptCompact,
+  keyMatchesDeviceId,
+  deviceIdFromPublicKey,
+  shortDeviceId,
+  MAX_DEVICE_ID_LENGTH,
+  generateGroupKey,
+  exportGroupKey,
+  importGroupKey,
+  computeFingerprint,
+  computeSafetyNumber,
+  arrayBufferToBase32,
+  base32ToArrayBuffer,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+} from './crypto';
 import {
   QRPacket,
   AckRange,
+  MessageType,
   OfferPayload,
+  AnnouncePayload,
+  RoutePayload,
+  GroupKeyPayload,
   createBeaconPacket,
   createInitialPacket,
   createDataPacket,
   createAckPacket,
+  encodePacketBody,
+  encodeFrame,
+  getCodec,
+  getSupportedVersions,
+  versionsToCapabilities,
+  negotiateVersion,
   parseChatPayload,
   isForUs,
   addToAckRanges,
+  encodeVerificationCode,
+  parseVerificationCode,
   PACKET_TYPES,
   MESSAGE_TYPES,
+  PROTOCOL_VERSION,
+  BROADCAST_GROUP,
+  DECODE_ERRORS,
+  type DecodeError,
 } from './protocol';
+import './binary-codec'; // Registers the v4 codec
+import { RoutingTable, type Route, type RouteAdvert } from './routing';
+import { MessageQueue, type QueuedMessage, type QueueStorage } from './message-queue';
+import { ReplayWindow } from './replay-window';
+import { SessionRatchet, type RatchetState } from './ratchet';
+import {
+  NoiseHandshake,
+  NOISE_PATTERNS,
+  packHandshakeMessage,
+  unpackHandshakeMessage,
+  type NoiseKeyPair,
+  type NoisePattern,
+} from './noise';
+
+/**
+ * Packet numbers skipped after a restart. The counter is persisted at
+ * least every PN_RESTART_GAP packets, so the skip clears any pn used
+ * after the last save.
+ */
+const PN_RESTART_GAP = 256;
+
+// Group messages held per sender while its group key is on the way
+const MAX_PENDING_GROUP_MESSAGES = 16;
+
+// Ratchet messages held per peer while the handshake starting their session is on the way
+const MAX_PENDING_RATCHET_MESSAGES = 16;
+
+// Past epochs remembered per peer, to refuse INITIALs replayed from them
+const MAX_PAST_EPOCHS = 16;
+
+// Raw ECDSA P-256 signature (r || s), as carried in a GROUP_CHAT payload
+const SIGNATURE_BYTES = 64;
+
+// Raw (uncompressed) ECDSA P-256 public key, as carried in handshake payloads
+const SIGNING_KEY_BYTES = 65;
+
+/**
+ * True for the handshake messages that carry their sender's signing key:
+ * all but XX's first, which nothing authenticates yet
+ */
+function carriesSigningKey(pattern: NoisePattern, index: number): boolean {
+  return !(pattern === NOISE_PATTERNS.XX && index === 0);
+}
+
+/**
+ * What a group message's signature covers: sender, group, pn and
+ * ciphertext, so it can't be replayed under another group or number
+ */
+function groupChatSignedData(src: string, groupId: string, pn: number, ciphertext: string): string {
+  return `G|${src}|${groupId}|${pn}|${ciphertext}`;
+}
+
+/**
+ * Two base32 strings as one (their bytes back to back), so the payload
+ * stays canonical base32 for the v4 codec
+ */
+function joinBase32(first: string, second: string): string {
+  const a = new Uint8Array(base32ToArrayBuffer(first));
+  const b = new Uint8Array(base32ToArrayBuffer(second));
+  const joined = new Uint8Array(a.length + b.length);
+  joined.set(a);
+  joined.set(b, a.length);
+  return arrayBufferToBase32(joined.buffer);
+}
+
+/**
+ * Inverse of joinBase32 given the first part's length in bytes. The
+ * first part is empty if the payload is too short or not base32.
+ */
+function splitBase32(joined: string, firstBytes: number): [string, string] {
+  try {
+    const bytes = new Uint8Array(base32ToArrayBuffer(joined));
+    if (bytes.length <= firstBytes) return ['', joined];
+    return [
+      arrayBufferToBase32(bytes.slice(0, firstBytes).buffer),
+      arrayBufferToBase32(bytes.slice(firstBytes).buffer),
+    ];
+  } catch {
+    return ['', joined];
+  }
+}
+
+/**
+ * Per-peer connection state (INITIAL handshake)
+ *
+ * DISCONNECTED -> SYN_SENT -> ESTABLISHED      (we called connect())
+ * DISCONNECTED -> SYN_RECEIVED -> ESTABLISHED  (peer sent INITIAL first)
+ * SYN_SENT / SYN_RECEIVED -> FAILED            (handshake attempts exhausted)
+ */
+export const ConnectionState = {
+  DISCONNECTED: 'disconnected',   // Known (e.g. from beacon), no handshake
+  SYN_SENT: 'syn_sent',           // Our INITIAL sent, waiting for peer's INITIAL
+  SYN_RECEIVED: 'syn_received',   // Peer's INITIAL answered, waiting for ACK of ours
+  ESTABLISHED: 'established',     // Both sides hold each other's key
+  FAILED: 'failed',               // Handshake gave up after max attempts
+} as const;
+
+export type ConnectionState = (typeof ConnectionState)[keyof typeof ConnectionState];
 
 /**
  * Sent packet tracking
@@ -35,18 +181,107 @@ export interface SentPacket {
  * Peer information
  */
 export interface Peer {
-  id: string;
+  id: string;                 // Device ID as on the wire - 8 to 32 hex chars
   publicKey?: string;         // Only set after INITIAL exchange
+  fingerprint?: string;       // Full hash of publicKey; id (and its short form) is a prefix of it
   name?: string;
   sharedKey?: CryptoKey;
+  macKey?: CryptoKey;         // Seals/verifies packets once the shared key exists
   lastSeen: number;
   receivedPns: AckRange[];
   ackedByPeer: AckRange[];
   nextPn: number;
   sentPackets: Map<number, SentPacket>;
   offer?: OfferPayload;
+  capabilities?: number;      // Versions the peer reads (from its beacon/INITIAL)
+  maxFrameSize?: number;      // Largest frame the peer scans well (from its beacon)
+  version: number;            // Negotiated wire version for packets to this peer
+  state: ConnectionState;
+  handshakePn?: number;       // pn of our latest INITIAL to this peer
+  handshakeAttempts: number;
+  handshakeStartedAt: number;
+  epoch?: string;             // Peer's session epoch (from its latest completed handshake)
+  pastEpochs: string[];       // Epochs it used before - INITIALs claiming one are replays
+  nextEpoch?: PendingEpoch;   // New epoch claimed by an INITIAL, until its handshake completes
+  replay: ReplayWindow;       // Packet numbers seen in the peer's current epoch
+  verified?: boolean;         // Key confirmed out of band (verification QR / safety number)
+  signingKey?: string;        // ECDSA public key, pinned from the peer's first Noise handshake
+  ratchet?: SessionRatchet;   // Per-message chat keys, once a Noise handshake completed
+  noise?: NoiseHandshake;     // Noise handshake in progress
+  handshakeReply?: string;    // Our answer to the peer's Noise handshake, resent on retries
+  noiseEpoch?: string;        // Epoch the peer's INITIAL claimed for the handshake we answered
+  earlyData?: string;         // Text passed to connect(), not sent yet
+}
+
+/**
+ * A new epoch a peer claimed, not adopted until its handshake completes.
+ * Its packet numbers start over, so they're tracked apart until then.
+ */
+export interface PendingEpoch {
+  epoch: string;
+  replay: ReplayWindow;
+  receivedPns: AckRange[];
+}
+
+/**
+ * Group (sender keys): each member encrypts its group messages with its
+ * own key and hands that key to every other member over the pairwise
+ * encrypted channel. Membership is this device's own view.
+ */
+export interface Group {
+  id: string;                         // 8 hex chars, used as the DATA dst
+  name?: string;
+  members: Set<string>;               // Other members' device IDs
+  senderKey: CryptoKey;               // Ours - replaced when a member is removed
+  keySentTo: Set<string>;             // Members that have our current sender key
+  memberKeys: Map<string, CryptoKey>; // Other members' sender keys
+}
+
+/**
+ * Serializable peer state. Keys aren't stored - they're derived again
+ * from publicKey on restore.
+ */
+export interface PeerSnapshot {
+  id: string;
+  publicKey?: string;
+  name?: string;
+  lastSeen: number;
+  receivedPns: AckRange[];
+  ackedByPeer: AckRange[];
+  capabilities?: number;
+  maxFrameSize?: number;
+  state: ConnectionState;
+  epoch?: string;
+  pastEpochs: string[];
+  verified?: boolean;
+  signingKey?: string;
+  ratchet?: RatchetState;
+  sentPackets: [number, SentPacket][];  // Pending DATA packets only
+}
+
+export interface GroupSnapshot {
+  id: string;
+  name?: string;
+  members: string[];
+  senderKey: string;                    // base64 raw AES key
+  keySentTo: string[];
+  memberKeys: [string, string][];       // [device ID, base64 raw AES key]
 }
 
+/**
+ * Everything MeshState needs to pick up after a restart
+ */
+export interface MeshSnapshot {
+  version: number;                      // MESH_SNAPSHOT_VERSION
+  epoch?: string;                       // Our session epoch (absent in migrated v1 snapshots)
+  pn: number;
+  peers: PeerSnapshot[];
+  chatHistory: ChatMessage[];
+  groups: GroupSnapshot[];
+}
+
+export const MESH_SNAPSHOT_VERSION = 7;
+
 /**
  * Log entry
  */
@@ -67,6 +302,8 @@ export interface ChatMessage {
   timestamp: number;
   encrypted: boolean;
   pn?: number;
+  via?: string;      // Neighbour it was relayed through (routed messages only)
+  group?: string;    // Group it was sent to (peerId is the group ID for sent ones)
 }
 
 /**
@@ -75,12 +312,20 @@ export interface ChatMessage {
 export type MeshEvent =
   | { type: 'peer_discovered'; peer: Peer }
   | { type: 'peer_updated'; peer: Peer }
+  | { type: 'peer_restarted'; peer: Peer }
+  | { type: 'key_changed'; peer: Peer; previousKey: string; key: string; signing: boolean }
+  | { type: 'id_collision'; shortId: string; peer: Peer; other?: Peer; key?: string }
+  | { type: 'connection_state_changed'; peer: Peer; previous: ConnectionState; state: ConnectionState }
   | { type: 'packet_sent'; packet: QRPacket }
   | { type: 'packet_received'; packet: QRPacket }
-  | { type: 'packet_acked'; pn: number; peerId: string }
+  | { type: 'packet_acked'; pn: number; peerId: string; rtt: number }
   | { type: 'packet_failed'; pn: number; peerId: string }
   | { type: 'chat_message'; message: ChatMessage }
   | { type: 'offer_received'; peerId: string; offer: OfferPayload }
+  | { type: 'routes_updated'; routes: Route[] }
+  | { type: 'message_forwarded'; origin: string; destination: string; nextHop: string }
+  | { type: 'message_expired'; message: QueuedMessage }
+  | { type: 'group_updated'; group: Group }
   | { type: 'error'; message: string };
 
 export type MeshEventHandler = (event: MeshEvent) => void;
@@ -93,6 +338,17 @@ export interface MeshConfig {
   retryTimeout?: number;
   maxRetries?: number;
   maxLogSize?: number;
+  requireEncryption?: boolean; // Never exchange plaintext chat with peers that have a shared key
+  handshakeTimeout?: number;   // ms before an unanswered INITIAL is resent
+  maxHandshakeAttempts?: number;
+  versions?: number[];         // Wire versions to advertise and accept (default: every registered codec)
+  maxFrameSize?: number;       // Largest frame (chars) our camera scans well - advertised in beacons
+  maxHops?: number;            // TTL of routed messages and longest route kept (default 8)
+  storage?: QueueStorage;      // Persists undelivered messages across restarts (see restore())
+  messageTtl?: number;         // ms an undelivered message is kept (default 24h)
+  replayWindow?: number;       // Packet numbers remembered per peer for replay detection (default 1024)
+  requireSignatures?: boolean; // Drop unsigned (or unverifiable) BEACONs and INITIALs
+  signBeacons?: boolean;       // Sign our beacons - ~110 more chars (default: requireSignatures)
 }
 
 /**
@@ -105,11 +361,30 @@ export class MeshState {
   private chatHistory: ChatMessage[] = [];
   private eventHandlers: Set<MeshEventHandler> = new Set();
   private globalPn: number = 0;
+  private sessionEpoch: string;
+  private replayWindow: number;
   private cachedBeacon: QRPacket | null = null;
   private deviceName?: string;
   private retryTimeout: number;
   private maxRetries: number;
   private maxLogSize: number;
+  private requireEncryption: boolean;
+  private requireSignatures: boolean;
+  private signBeacons: boolean;
+  private handshakeTimeout: number;
+  private maxHandshakeAttempts: number;
+  private versions: number[];
+  private maxFrameSize?: number;
+  private endToEndKeys: Map<string, CryptoKey> = new Map(); // public key -> AES key
+  readonly routing: RoutingTable;
+  private queue: MessageQueue;
+  private flushing: Promise<void> = Promise.resolve();
+  private groups: Map<string, Group> = new Map();
+  private pendingGroupMessages: Map<string, QRPacket[]> = new Map(); // group:sender -> packets
+  private pendingRatchetMessages: Map<string, QRPacket[]> = new Map(); // peer -> packets
+  private reportedVersions: Set<number> = new Set();
+  private reportedLegacy: Set<string> = new Set();
+  private fullId?: string;   // Our ID at MAX_DEVICE_ID_LENGTH - set on the first packet we process
 
   constructor(keyPair: KeyPair, config: MeshConfig = {}) {
     this.keyPair = keyPair;
@@ -117,6 +392,24 @@ export class MeshState {
     this.retryTimeout = config.retryTimeout ?? 3000;
     this.maxRetries = config.maxRetries ?? 3;
     this.maxLogSize = config.maxLogSize ?? 100;
+    this.requireEncryption = config.requireEncryption ?? false;
+    this.requireSignatures = config.requireSignatures ?? false;
+    this.signBeacons = config.signBeacons ?? this.requireSignatures;
+    this.handshakeTimeout = config.handshakeTimeout ?? 15000;
+    this.maxHandshakeAttempts = config.maxHandshakeAttempts ?? 3;
+    this.maxFrameSize = config.maxFrameSize;
+    this.routing = new RoutingTable(keyPair.deviceId, { maxHops: config.maxHops });
+    this.queue = new MessageQueue({ storage: config.storage, ttl: config.messageTtl });
+    this.replayWindow = config.replayWindow ?? 1024;
+    this.sessionEpoch = Array.from(crypto.getRandomValues(new Uint8Array(4)), (b) => b.toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+    this.versions = (config.versions ?? getSupportedVersions())
+      .filter((version) => version === PROTOCOL_VERSION || getCodec(version));
+    if (!this.versions.includes(PROTOCOL_VERSION)) {
+      // v3 is the common denominator - beacons always use it
+      this.versions.unshift(PROTOCOL_VERSION);
+    }
   }
 
   get deviceId(): string {
@@ -127,6 +420,22 @@ export class MeshState {
     return this.keyPair.publicKeyRaw;
   }
 
+  /**
+   * Random ID of this session, sent in INITIALs. Peers that see it change
+   * know we restarted; session MAC keys are bound to both sides' epochs
+   * and the handshake that adopted them.
+   */
+  get epoch(): string {
+    return this.sessionEpoch;
+  }
+
+  /**
+   * Bitmask of the wire versions we read, as sent in beacons and INITIALs
+   */
+  get capabilities(): number {
+    return versionsToCapabilities(this.versions);
+  }
+
   subscribe(handler: MeshEventHandler): () => void {
     this.eventHandlers.add(handler);
     return () => this.eventHandlers.delete(handler);
@@ -145,7 +454,7 @@ export class MeshState {
   }
 
   getActivePeers(): Peer[] {
-    return this.getPeers().filter((p) => p.sharedKey !== undefined);
+    return this.getPeers().filter((p) => p.state === ConnectionState.ESTABLISHED);
   }
 
   getPacketLog(): PacketLogEntry[] {
@@ -159,9 +468,15 @@ export class MeshState {
     return [...this.chatHistory];
   }
 
+  /**
+   * Packet numbers by delivery state for a peer. For a group ID, a
+   * packet is acked once every recipient acked it (see getRecipientStatus).
+   */
   getDeliveryStatus(peerId: string): { pending: number[]; acked: number[]; failed: number[] } {
     const peer = this.peers.get(peerId);
-    if (!peer) return { pending: [], acked: [], failed: [] };
+    if (!peer) {
+      return this.groups.has(peerId) ? this.getGroupDeliveryStatus(peerId) : { pending: [], acked: [], failed: [] };
+    }
 
     const pending: number[] = [];
     const acked: number[] = [];
@@ -176,22 +491,224 @@ export class MeshState {
     return { pending, acked, failed };
   }
 
+  /**
+   * Delivery state of a packet per recipient (one entry for pairwise
+   * packets, one per member for group packets)
+   */
+  getRecipientStatus(pn: number): Record<string, SentPacket['status']> {
+    const status: Record<string, SentPacket['status']> = {};
+    for (const peer of this.peers.values()) {
+      const sent = peer.sentPackets.get(pn);
+      if (sent) status[peer.id] = sent.status;
+    }
+    return status;
+  }
+
+  private getGroupDeliveryStatus(groupId: string): { pending: number[]; acked: number[]; failed: number[] } {
+    const byPn = new Map<number, SentPacket['status'][]>();
+    for (const peer of this.peers.values()) {
+      for (const [pn, sent] of peer.sentPackets) {
+        if (sent.packet.dst !== groupId) continue;
+        byPn.set(pn, [...(byPn.get(pn) ?? []), sent.status]);
+      }
+    }
+
+    const pending: number[] = [];
+    const acked: number[] = [];
+    const failed: number[] = [];
+
+    for (const [pn, statuses] of byPn) {
+      if (statuses.includes('pending')) pending.push(pn);
+      else if (statuses.includes('failed')) failed.push(pn);
+      else acked.push(pn);
+    }
+
+    return { pending, acked, failed };
+  }
+
   private getNextPn(): number {
-    return this.globalPn++;
+    const pn = this.globalPn++;
+    if (this.globalPn % PN_RESTART_GAP === 0) this.persistQueue();
+    return pn;
+  }
+
+  /**
+   * Next packet number (persisted, so restarts don't reuse pns)
+   */
+  get packetNumber(): number {
+    return this.globalPn;
+  }
+
+  /**
+   * Restore a snapshot (if given) and reload undelivered messages from
+   * storage. Call once at startup, before sending anything; messages go
+   * out again as soon as their next hop is in view.
+   */
+  async restore(snapshot?: MeshSnapshot): Promise<void> {
+    if (snapshot) await this.applySnapshot(snapshot);
+
+    const pn = await this.queue.load();
+    if (pn > 0) this.globalPn = Math.max(this.globalPn, pn + PN_RESTART_GAP);
+
+    // Messages whose packet didn't survive go out again in new ones
+    for (const message of this.queue.getAll()) {
+      if (message.pn === undefined) continue;
+      const sent = this.peers.get(message.peerId)?.sentPackets.get(message.pn);
+      if (sent?.status !== 'pending') message.pn = undefined;
+    }
+    this.flushQueue();
+  }
+
+  /**
+   * Serializable copy of the state worth keeping across restarts
+   */
+  async snapshot(): Promise<MeshSnapshot> {
+    return {
+      version: MESH_SNAPSHOT_VERSION,
+      epoch: this.sessionEpoch,
+      pn: this.globalPn,
+      peers: this.getPeers().map((peer) => this.peerSnapshot(peer)),
+      chatHistory: [...this.chatHistory],
+      groups: await Promise.all(this.getGroups().map((group) => this.groupSnapshot(group))),
+    };
+  }
+
+  snapshotPeer(peerId: string): PeerSnapshot | undefined {
+    const peer = this.peers.get(peerId);
+    return peer ? this.peerSnapshot(peer) : undefined;
+  }
+
+  async snapshotGroup(groupId: string): Promise<GroupSnapshot | undefined> {
+    const group = this.groups.get(groupId);
+    return group ? this.groupSnapshot(group) : undefined;
+  }
+
+  private peerSnapshot(peer: Peer): PeerSnapshot {
+    return {
+      id: peer.id,
+      publicKey: peer.publicKey,
+      name: peer.name,
+      lastSeen: peer.lastSeen,
+      receivedPns: peer.receivedPns,
+      ackedByPeer: peer.ackedByPeer,
+      capabilities: peer.capabilities,
+      maxFrameSize: peer.maxFrameSize,
+      state: peer.state,
+      epoch: peer.epoch,
+      pastEpochs: peer.pastEpochs,
+      verified: peer.verified,
+      signingKey: peer.signingKey,
+      ratchet: peer.ratchet?.toState(),
+      // Handshakes and ACKs don't outlive the session
+      sentPackets: Array.from(peer.sentPackets).filter(
+        ([, sent]) => sent.status === 'pending' && sent.packet.t === PACKET_TYPES.DATA
+      ),
+    };
+  }
+
+  private async groupSnapshot(group: Group): Promise<GroupSnapshot> {
+    return {
+      id: group.id,
+      name: group.name,
+      members: Array.from(group.members),
+      senderKey: await exportGroupKey(group.senderKey),
+      keySentTo: Array.from(group.keySentTo),
+      memberKeys: await Promise.all(
+        Array.from(group.memberKeys, async ([id, key]): Promise<[string, string]> => [id, await exportGroupKey(key)])
+      ),
+    };
+  }
+
+  private async applySnapshot(snapshot: MeshSnapshot): Promise<void> {
+    if (snapshot.version !== MESH_SNAPSHOT_VERSION) {
+      this.emit({ type: 'error', message: `Unsupported snapshot version: ${snapshot.version}` });
+      return;
+    }
+
+    // Some pns may have gone out after the snapshot was taken
+    this.globalPn = Math.max(this.globalPn, snapshot.pn + PN_RESTART_GAP);
+    // Same epoch - the session (and its MAC keys) carries on
+    if (snapshot.epoch) this.sessionEpoch = snapshot.epoch;
+
+    const groupPackets = new Map<string, QRPacket>();
+    for (const saved of snapshot.peers) {
+      const peer = this.createPeer(saved.id, saved.publicKey, saved.name);
+      peer.lastSeen = saved.lastSeen;
+      peer.receivedPns = saved.receivedPns;
+      peer.ackedByPeer = saved.ackedByPeer;
+      peer.maxFrameSize = saved.maxFrameSize;
+      peer.epoch = saved.epoch;
+      peer.pastEpochs = saved.pastEpochs;
+      peer.verified = saved.verified;
+      peer.signingKey = saved.signingKey;
+      if (saved.publicKey) peer.fingerprint = await computeFingerprint(saved.publicKey);
+      if (saved.ratchet) peer.ratchet = SessionRatchet.fromState(saved.ratchet);
+      peer.replay = ReplayWindow.fromRanges(saved.receivedPns, this.replayWindow);
+      if (saved.capabilities !== undefined) {
+        peer.capabilities = saved.capabilities;
+        peer.version = negotiateVersion(this.versions, saved.capabilities);
+      }
+
+      for (const [pn, sent] of saved.sentPackets) {
+        // A group packet is one object shared by its recipients
+        const key = `${sent.packet.dst}:${pn}`;
+        const packet = sent.packet.dst === peer.id ? sent.packet : groupPackets.get(key) ?? sent.packet;
+        groupPackets.set(key, packet);
+        peer.sentPackets.set(pn, { ...sent, packet });
+      }
+
+      if (saved.publicKey) {
+        try {
+          peer.sharedKey = await deriveSharedKey(this.keyPair.privateKey, saved.publicKey);
+          peer.macKey = await deriveMacKey(this.keyPair.privateKey, saved.publicKey, this.sessionContext(peer));
+        } catch (e) {
+          console.error('Failed to derive shared key:', e);
+        }
+      }
+      // Handshakes in flight are lost - they start over when needed
+      peer.state = saved.state === ConnectionState.ESTABLISHED && peer.sharedKey
+        ? ConnectionState.ESTABLISHED
+        : ConnectionState.DISCONNECTED;
+    }
+
+    for (const saved of snapshot.groups) {
+      this.groups.set(saved.id, {
+        id: saved.id,
+        name: saved.name,
+        members: new Set(saved.members),
+        senderKey: await importGroupKey(saved.senderKey),
+        keySentTo: new Set(saved.keySentTo),
+        memberKeys: new Map(await Promise.all(
+          saved.memberKeys.map(async ([id, key]): Promise<[string, CryptoKey]> => [id, await importGroupKey(key)])
+        )),
+      });
+    }
+
+    this.chatHistory = [...snapshot.chatHistory, ...this.chatHistory];
+  }
+
+  /**
+   * Messages waiting for delivery (ours and those carried for others)
+   */
+  getQueuedMessages(): QueuedMessage[] {
+    return this.queue.getAll();
   }
 
   /**
-   * Get packets to display - returns minimal beacon by default
+   * Get packets to display - returns minimal beacon by default.
+   * Peers in excludePeers (e.g. reached over another transport) are skipped.
    */
-  getOutgoingPackets(maxPackets: number = 3): QRPacket[] {
+  getOutgoingPackets(maxPackets: number = 3, excludePeers?: ReadonlySet<string>): QRPacket[] {
     const packets: QRPacket[] = [];
     const now = Date.now();
 
     // Priority 1: Packets needing retransmission
     for (const peer of this.peers.values()) {
+      if (excludePeers?.has(peer.id)) continue;
       for (const [, sent] of peer.sentPackets) {
         if (sent.status === 'pending' && now - sent.timestamp > this.retryTimeout) {
-          if (sent.retries < this.maxRetries) {
+          // Group packets sit in every recipient's map - show them once
+          if (sent.retries < this.maxRetries && !packets.includes(sent.packet)) {
             packets.push(sent.packet);
             if (packets.length >= maxPackets) return packets;
           }
@@ -201,33 +718,42 @@ export class MeshState {
 
     // Priority 2: Fresh pending packets
     for (const peer of this.peers.values()) {
+      if (excludePeers?.has(peer.id)) continue;
       for (const [, sent] of peer.sentPackets) {
-        if (sent.status === 'pending' && now - sent.timestamp <= this.retryTimeout) {
+        if (sent.status === 'pending' && now - sent.timestamp <= this.retryTimeout && !packets.includes(sent.packet)) {
           packets.push(sent.packet);
           if (packets.length >= maxPackets) return packets;
         }
       }
     }
 
-    // Default: minimal beacon
+    // Default: minimal beacon (held back until signed, with signBeacons)
     if (packets.length === 0) {
-      packets.push(this.createBeacon());
+      const beacon = this.createBeacon();
+      if (beacon.sig || !this.signBeacons) packets.push(beacon);
     }
 
     return packets;
   }
 
-  getNextOutgoingPacket(): QRPacket | null {
-    const packets = this.getOutgoingPackets(1);
+  getNextOutgoingPacket(excludePeers?: ReadonlySet<string>): QRPacket | null {
+    const packets = this.getOutgoingPackets(1, excludePeers);
     return packets[0] || null;
   }
 
   /**
-   * Create minimal beacon (just ID + name, no key!)
+   * Create minimal beacon (just ID + name, no key!). With signBeacons the
+   * signature is added to the cached beacon as soon as it's computed.
    */
   createBeacon(): QRPacket {
     if (!this.cachedBeacon) {
-      this.cachedBeacon = createBeaconPacket(this.deviceId, this.deviceName);
+      const beacon = createBeaconPacket(this.deviceId, this.deviceName);
+      beacon.caps = this.capabilities;
+      if (this.maxFrameSize !== undefined) beacon.frame = this.maxFrameSize;
+      if (this.signBeacons) {
+        this.signPacket(beacon).catch((e) => console.error('Failed to sign beacon:', e));
+      }
+      this.cachedBeacon = beacon;
     }
     return this.cachedBeacon;
   }
@@ -237,30 +763,174 @@ export class MeshState {
   }
 
   /**
-   * Send chat - sends plaintext for now (encryption disabled for QR size)
+   * Wire version for packets to a peer. Broadcasts use v3 so every
+   * device can read them.
+   */
+  getWireVersion(peerId: string): number {
+    return this.peers.get(peerId)?.version ?? PROTOCOL_VERSION;
+  }
+
+  /**
+   * Encode an outgoing packet in the version negotiated with its peer
+   */
+  encodeOutgoing(packet: QRPacket): string {
+    return encodeFrame(this.toWireAddresses(packet), this.getWireVersion(packet.dst));
+  }
+
+  /**
+   * Once the INITIALs are exchanged, our DATA and ACKs to a peer carry
+   * both full IDs - a short ID only finds the peer until then. MACs
+   * cover the packet as sent from the IDs peers are known by.
+   */
+  private toWireAddresses(packet: QRPacket): QRPacket {
+    if (packet.t !== PACKET_TYPES.DATA && packet.t !== PACKET_TYPES.ACK) return packet;
+    const peer = this.peers.get(packet.dst);
+    if (!this.fullId || packet.src !== this.deviceId || !peer?.fingerprint) return packet;
+    if (peer.state !== ConnectionState.ESTABLISHED) return packet;
+    return { ...packet, src: this.fullId, dst: peer.fingerprint.slice(0, MAX_DEVICE_ID_LENGTH) };
+  }
+
+  /**
+   * Full IDs on an incoming packet back to the IDs peers are known by.
+   * A full source ID only matches a peer whose key we hold.
+   */
+  private async toLocalAddresses(packet: QRPacket): Promise<QRPacket> {
+    const dst = packet.dst === (await this.getFullId()) ? this.deviceId : packet.dst;
+    const peer = packet.src.length === MAX_DEVICE_ID_LENGTH && !this.peers.has(packet.src)
+      ? this.getPeers().find((p) => p.fingerprint?.startsWith(packet.src))
+      : undefined;
+    if (!peer && dst === packet.dst) return packet;
+    return { ...packet, src: peer?.id ?? packet.src, dst };
+  }
+
+  private async getFullId(): Promise<string> {
+    this.fullId ??= await deviceIdFromPublicKey(this.publicKey, MAX_DEVICE_ID_LENGTH);
+    return this.fullId;
+  }
+
+  /**
+   * The ID a device is known by here, for a full ID from a routed message
+   * or route advert: ours, that of a peer whose key we hold, or else the
+   * full ID itself
+   */
+  private async localDeviceId(fullId: string): Promise<string> {
+    if (fullId === (await this.getFullId())) return this.deviceId;
+    return this.getPeers().find((peer) => peer.fingerprint?.startsWith(fullId))?.id ?? fullId;
+  }
+
+  /**
+   * Surface frames the transport layer couldn't decode. Unsupported
+   * versions become an error event (once per version); checksum noise
+   * from misreads is ignored.
+   */
+  reportDecodeError(error: DecodeError): void {
+    if (error.code !== DECODE_ERRORS.UNSUPPORTED_VERSION || error.version === undefined) return;
+    if (this.reportedVersions.has(error.version)) return;
+    this.reportedVersions.add(error.version);
+    this.emit({ type: 'error', message: `Cannot read packet: ${error.message}` });
+  }
+
+  /**
+   * Start the INITIAL handshake with a known peer. If we hold its key,
+   * earlyData goes out encrypted in the INITIAL itself (0-RTT, not
+   * queued); otherwise it's sent as a chat once the handshake completes.
+   * Returns the INITIAL packet number, or -1 if nothing was sent.
+   */
+  connect(peerId: string, earlyData?: string): number {
+    const peer = this.peers.get(peerId);
+    if (!peer) {
+      this.emit({ type: 'error', message: `Unknown peer: ${peerId}` });
+      return -1;
+    }
+
+    if (peer.state === ConnectionState.ESTABLISHED) return -1;
+    if (peer.state === ConnectionState.SYN_SENT || peer.state === ConnectionState.SYN_RECEIVED) {
+      return peer.handshakePn ?? -1;
+    }
+
+    peer.handshakeAttempts = 1;
+    peer.handshakeStartedAt = Date.now();
+    peer.earlyData = earlyData;
+    const pn = this.sendInitial(peer);
+    this.setState(peer, ConnectionState.SYN_SENT);
+    return pn;
+  }
+
+  /**
+   * Tear down the connection locally: drops the session key and
+   * abandons everything still in flight. There is no close packet on
+   * the wire - the peer notices on our next INITIAL.
+   */
+  disconnect(peerId: string): void {
+    const peer = this.peers.get(peerId);
+    if (!peer) return;
+
+    for (const [pn, sent] of peer.sentPackets) {
+      if (sent.status === 'pending') this.failPacket(peer, pn, sent);
+    }
+
+    peer.sharedKey = undefined;
+    peer.macKey = undefined;
+    peer.handshakePn = undefined;
+    peer.handshakeAttempts = 0;
+    peer.noise = undefined;
+    peer.handshakeReply = undefined;
+    this.setState(peer, ConnectionState.DISCONNECTED);
+  }
+
+  /**
+   * Send chat - encrypted automatically once a shared key has been
+   * derived, with a fresh ratchet key per message if the peer has one
    */
   async sendChat(peerId: string, text: string): Promise<number> {
     let peer = this.peers.get(peerId);
 
     if (!peer) {
+      // Not in view - relay it if a neighbour can reach it
+      const route = this.routing.lookup(peerId);
+      if (route) return this.sendRoutedChat(route, text);
+
+      if (this.routing.matching(peerId).length > 1) {
+        this.emit({ type: 'error', message: `Ambiguous device ID, several routes share it: ${peerId}` });
+        return -1;
+      }
       this.emit({ type: 'error', message: `Unknown peer: ${peerId}` });
       return -1;
     }
 
-    const pn = this.getNextPn();
-    const acks = peer.receivedPns.length > 0 ? peer.receivedPns : undefined;
+    let messageType: MessageType = MESSAGE_TYPES.CHAT;
+    let payload = text;
 
-    // Send raw text as payload (no JSON wrapper) for minimal QR size
-    const packet = createDataPacket(this.deviceId, peerId, pn, MESSAGE_TYPES.CHAT, text, acks);
-    this.trackSentPacket(peer, packet);
-    this.emit({ type: 'packet_sent', packet });
+    if (peer.ratchet || peer.sharedKey) {
+      try {
+        if (peer.ratchet) {
+          payload = await peer.ratchet.encrypt(text);
+          messageType = MESSAGE_TYPES.RATCHET_CHAT;
+        } else {
+          payload = await encryptCompact(peer.sharedKey!, text);
+          messageType = MESSAGE_TYPES.ENCRYPTED_CHAT;
+        }
+      } catch (e) {
+        if (this.requireEncryption) {
+          this.emit({ type: 'error', message: `Encryption failed for peer: ${peerId}` });
+          return -1;
+        }
+        console.error('Encrypt failed, sending plaintext:', e);
+      }
+    }
+
+    // Raw payload (no JSON wrapper) for minimal QR size. Ratchet chat keeps
+    // its text in memory: the peer only holds the last two sessions' chains,
+    // and a queued message may outlive them.
+    const plaintext = messageType === MESSAGE_TYPES.RATCHET_CHAT ? text : undefined;
+    const pn = await this.sendQueued(peer, messageType, payload, undefined, plaintext);
 
     const message: ChatMessage = {
       peerId,
       direction: 'sent',
       text,
       timestamp: Date.now(),
-      encrypted: false,
+      encrypted: messageType !== MESSAGE_TYPES.CHAT,
       pn,
     };
     this.chatHistory.push(message);
@@ -269,82 +939,519 @@ export class MeshState {
     return pn;
   }
 
-  sendOffer(peerId: string, offer: OfferPayload): number {
+  async sendOffer(peerId: string, offer: OfferPayload): Promise<number> {
     const peer = this.peers.get(peerId);
     if (!peer) {
       this.emit({ type: 'error', message: `Unknown peer: ${peerId}` });
       return -1;
     }
 
-    const pn = this.getNextPn();
-    const acks = peer.receivedPns.length > 0 ? peer.receivedPns : undefined;
-    const packet = createDataPacket(
-      this.deviceId,
-      peerId,
-      pn,
-      MESSAGE_TYPES.OFFER,
-      JSON.stringify(offer),
-      acks
-    );
+    return this.sendMessage(peer, MESSAGE_TYPES.OFFER, JSON.stringify(offer));
+  }
 
-    this.trackSentPacket(peer, packet);
-    this.emit({ type: 'packet_sent', packet });
+  getGroups(): Group[] {
+    return Array.from(this.groups.values());
+  }
 
-    return pn;
+  getGroup(groupId: string): Group | undefined {
+    return this.groups.get(groupId);
   }
 
-  sendAck(peerId: string): void {
-    const peer = this.peers.get(peerId);
-    if (!peer || peer.receivedPns.length === 0) return;
+  /**
+   * Create a group with the given peers. Each gets our sender key as
+   * soon as we share a pairwise key with it.
+   */
+  async createGroup(memberIds: string[], name?: string): Promise<Group> {
+    const id = Array.from(crypto.getRandomValues(new Uint8Array(4)), (b) => b.toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+    const group = await this.addGroup(id, name, memberIds);
+    await this.distributeSenderKey(group);
+    return group;
+  }
 
-    const pn = this.getNextPn();
-    const packet = createAckPacket(this.deviceId, peerId, pn, peer.receivedPns);
-    this.logPacket(packet, 'sent');
-    this.emit({ type: 'packet_sent', packet });
+  async addGroupMember(groupId: string, peerId: string): Promise<void> {
+    const group = this.groups.get(groupId);
+    if (!group || peerId === this.deviceId || group.members.has(peerId)) return;
+
+    group.members.add(peerId);
+    this.emit({ type: 'group_updated', group });
+    await this.distributeSenderKey(group);
   }
 
   /**
-   * Process received packet
+   * Remove a member from our view of the group. Our sender key is
+   * replaced, so it can't read what we send from now on.
    */
-  async processPacket(packet: QRPacket): Promise<void> {
-    if (packet.src === this.deviceId) return;
-    if (!isForUs(packet, this.deviceId)) return;
-
-    this.logPacket(packet, 'received');
-    this.emit({ type: 'packet_received', packet });
+  async removeGroupMember(groupId: string, peerId: string): Promise<void> {
+    const group = this.groups.get(groupId);
+    if (!group?.members.delete(peerId)) return;
+
+    group.memberKeys.delete(peerId);
+    group.senderKey = await generateGroupKey();
+    group.keySentTo.clear();
+    this.emit({ type: 'group_updated', group });
+    await this.distributeSenderKey(group);
+  }
 
-    let peer = this.peers.get(packet.src);
-    const isNewPeer = !peer;
+  /**
+   * Forget a group. Members that still send to it are ignored.
+   */
+  leaveGroup(groupId: string): void {
+    this.groups.delete(groupId);
+  }
 
-    // Create peer if needed (for INITIAL packets that have key)
-    if (!peer) {
-      if (packet.t === PACKET_TYPES.INITIAL && packet.key) {
-        peer = this.createPeer(packet.src, packet.key, packet.name);
-      } else {
-        return; // Can't process without peer
-      }
+  /**
+   * Send chat to a group: one frame for every member, which each member
+   * ACKs and which is tracked per recipient. Returns -1 if no member is
+   * known.
+   */
+  async sendGroupChat(groupId: string, text: string): Promise<number> {
+    const group = this.groups.get(groupId);
+    if (!group) {
+      this.emit({ type: 'error', message: `Unknown group: ${groupId}` });
+      return -1;
     }
 
-    peer.lastSeen = Date.now();
-
-    // Check if we've already seen this packet (duplicate detection)
-    const isDuplicate = packet.t !== PACKET_TYPES.BEACON &&
-      peer.receivedPns.some(([start, end]) => packet.pn >= start && packet.pn <= end);
+    await this.distributeSenderKey(group);
 
-    // Track received pn (except for beacons which always have pn=0)
-    if (packet.t !== PACKET_TYPES.BEACON) {
-      peer.receivedPns = addToAckRanges(peer.receivedPns, packet.pn);
+    const recipients = Array.from(group.members, (id) => this.peers.get(id)).filter((peer): peer is Peer => !!peer);
+    if (recipients.length === 0) {
+      this.emit({ type: 'error', message: `No known members in group: ${groupId}` });
+      return -1;
     }
 
-    // Process ACKs (always, even for duplicates)
-    if (packet.acks && packet.acks.length > 0) {
-      this.processAcks(peer, packet.acks);
+    // The frame carries no MAC and no piggybacked ACKs - both are
+    // pairwise; each member ACKs it in its own sealed ACKs. Every member
+    // holds our sender key, so it can't say who wrote a message; our
+    // signature does.
+    const pn = this.getNextPn();
+    const ciphertext = await encryptCompact(group.senderKey, text);
+    const signature = await computeSignature(this.keyPair.signingKey, groupChatSignedData(this.deviceId, group.id, pn, ciphertext));
+    const payload = joinBase32(signature, ciphertext);
+    const packet = createDataPacket(this.deviceId, group.id, pn, MESSAGE_TYPES.GROUP_CHAT, payload);
+    for (const peer of recipients) {
+      peer.sentPackets.set(pn, { packet, timestamp: Date.now(), retries: 0, status: 'pending' });
+    }
+    this.logPacket(packet, 'sent', 'pending');
+    this.emit({ type: 'packet_sent', packet });
+
+    const message: ChatMessage = {
+      peerId: group.id,
+      direction: 'sent',
+      text,
+      timestamp: Date.now(),
+      encrypted: true,
+      pn,
+      group: group.id,
+    };
+    this.chatHistory.push(message);
+    this.emit({ type: 'chat_message', message });
+
+    return pn;
+  }
+
+  /**
+   * Send chat to every established peer in one frame (the broadcast group)
+   */
+  async broadcast(text: string): Promise<number> {
+    await this.getBroadcastGroup();
+    return this.sendGroupChat(BROADCAST_GROUP, text);
+  }
+
+  private async getBroadcastGroup(): Promise<Group> {
+    const group = this.groups.get(BROADCAST_GROUP) ?? await this.addGroup(BROADCAST_GROUP, undefined, []);
+    // Members are whoever we're established with right now
+    group.members = new Set(this.getActivePeers().map((peer) => peer.id));
+    return group;
+  }
+
+  private async addGroup(id: string, name: string | undefined, members: Iterable<string>): Promise<Group> {
+    const existing = this.groups.get(id);
+    if (existing) return existing;
+
+    const senderKey = await generateGroupKey();
+    // Another call may have added it while the key was generated
+    const added = this.groups.get(id);
+    if (added) return added;
+
+    const group: Group = {
+      id,
+      name,
+      members: new Set(members),
+      senderKey,
+      keySentTo: new Set(),
+      memberKeys: new Map(),
+    };
+    group.members.delete(this.deviceId);
+    this.groups.set(id, group);
+    this.emit({ type: 'group_updated', group });
+    return group;
+  }
+
+  /**
+   * Send our sender key to members that don't have it yet. Members we
+   * don't share a pairwise key with get it once established.
+   */
+  private async distributeSenderKey(group: Group): Promise<void> {
+    const key = await exportGroupKey(group.senderKey);
+
+    for (const id of group.members) {
+      const peer = this.peers.get(id);
+      if (!peer?.sharedKey || group.keySentTo.has(id)) continue;
+
+      group.keySentTo.add(id);
+      const payload: GroupKeyPayload = {
+        g: group.id,
+        n: group.name,
+        k: key,
+        // The broadcast group's members are each device's own peers
+        m: group.id === BROADCAST_GROUP ? [] : [this.deviceId, ...group.members],
+      };
+      await this.sendMessage(peer, MESSAGE_TYPES.GROUP_KEY, await encryptCompact(peer.sharedKey, JSON.stringify(payload)));
+    }
+  }
+
+  /**
+   * Give a newly established peer our sender keys for the groups it's in
+   */
+  private async shareGroupKeys(peer: Peer): Promise<void> {
+    if (this.groups.has(BROADCAST_GROUP)) await this.getBroadcastGroup();
+
+    for (const group of this.groups.values()) {
+      if (!group.members.has(peer.id)) continue;
+      // It may have lost our key (restart, new session)
+      group.keySentTo.delete(peer.id);
+      await this.distributeSenderKey(group);
+    }
+  }
+
+  private isGroupAddress(dst: string): boolean {
+    return dst === BROADCAST_GROUP || this.groups.has(dst);
+  }
+
+  /**
+   * Safety number for a peer (null until we have its key). Both devices
+   * show the same digits; if they match, mark the peer verified.
+   */
+  async getSafetyNumber(peerId: string): Promise<string | null> {
+    const peer = this.peers.get(peerId);
+    if (!peer?.publicKey) return null;
+    return computeSafetyNumber(this.publicKey, peer.publicKey);
+  }
+
+  /**
+   * Our verification QR content - the full fingerprint of our key
+   */
+  async getVerificationCode(): Promise<string> {
+    return encodeVerificationCode(await computeFingerprint(this.publicKey));
+  }
+
+  /**
+   * Check a peer's scanned verification code against the key we hold
+   * for it. A match marks the peer verified; a mismatch means someone
+   * relayed a different key to us.
+   */
+  async verifyPeer(code: string): Promise<boolean> {
+    const fingerprint = parseVerificationCode(code);
+    if (!fingerprint) {
+      this.emit({ type: 'error', message: 'Invalid verification code' });
+      return false;
+    }
+
+    // IDs are fingerprint prefixes of any length - prefer the peer bound to this one
+    const candidates = Array.from(this.peers.values()).filter((p) => fingerprint.startsWith(p.id));
+    const peer = candidates.find((p) => p.fingerprint === fingerprint) ?? candidates[0];
+    if (!peer?.publicKey) {
+      this.emit({ type: 'error', message: `No key to verify for peer: ${shortDeviceId(fingerprint)}` });
+      return false;
+    }
+    const peerId = peer.id;
+
+    if (await computeFingerprint(peer.publicKey) !== fingerprint) {
+      this.setVerified(peerId, false);
+      this.emit({ type: 'error', message: `Verification failed - key mismatch for peer: ${peerId}` });
+      return false;
+    }
+
+    this.setVerified(peerId, true);
+    return true;
+  }
+
+  /**
+   * Mark a peer (un)verified, e.g. after comparing safety numbers
+   */
+  setVerified(peerId: string, verified: boolean): void {
+    const peer = this.peers.get(peerId);
+    if (!peer || !!peer.verified === verified) return;
+    peer.verified = verified;
+    this.emit({ type: 'peer_updated', peer });
+  }
+
+  /**
+   * Vet the key in an INITIAL: a known peer's key is pinned - a different
+   * one is refused with a key_changed warning, or an id_collision if it
+   * hashes to the same ID too - and a new key must hash to the sender's
+   * ID (a fingerprint prefix, whatever its length).
+   */
+  private async checkPeerKey(peerId: string, key: string): Promise<boolean> {
+    const peer = this.peers.get(peerId);
+    if (peer?.publicKey && peer.publicKey !== key) {
+      if (await keyMatchesDeviceId(key, peerId)) {
+        this.emit({ type: 'id_collision', shortId: shortDeviceId(peerId), peer, key });
+      } else {
+        this.emit({ type: 'key_changed', peer, previousKey: peer.publicKey, key, signing: false });
+      }
+      return false;
+    }
+
+    if (!(await keyMatchesDeviceId(key, peerId))) {
+      this.emit({ type: 'error', message: `INITIAL key does not match device ID: ${peerId}` });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Current routing table (direct neighbours and relayed destinations)
+   */
+  getRoutes(): Route[] {
+    return this.routing.getRoutes();
+  }
+
+  /**
+   * Encrypt chat end-to-end for a device we only reach through a
+   * neighbour, and hand it to the route's next hop
+   */
+  private async sendRoutedChat(route: Route, text: string): Promise<number> {
+    const nextHop = this.peers.get(route.nextHop);
+    if (!route.publicKey || !nextHop) {
+      this.emit({ type: 'error', message: `No usable route to: ${route.destination}` });
+      return -1;
+    }
+    if (!(await keyMatchesDeviceId(route.publicKey, route.destination))) {
+      this.emit({ type: 'error', message: `Route key does not match destination: ${route.destination}` });
+      return -1;
+    }
+
+    const key = await this.getEndToEndKey(route.publicKey);
+    const id = Array.from(crypto.getRandomValues(new Uint8Array(4)), (b) => b.toString(16).padStart(2, '0')).join('');
+    const payload: RoutePayload = {
+      s: await this.getFullId(),
+      d: await deviceIdFromPublicKey(route.publicKey, MAX_DEVICE_ID_LENGTH),
+      i: id,
+      t: this.routing.maxHops,
+      k: this.publicKey,
+      c: await encryptCompact(key, text),
+    };
+    this.routing.markSeen(payload.s, payload.i);
+
+    const pn = await this.sendQueued(nextHop, MESSAGE_TYPES.ROUTE, JSON.stringify(payload), route.destination);
+
+    const message: ChatMessage = {
+      peerId: route.destination,
+      direction: 'sent',
+      text,
+      timestamp: Date.now(),
+      encrypted: true,
+      pn,
+      via: nextHop.id,
+    };
+    this.chatHistory.push(message);
+    this.emit({ type: 'chat_message', message });
+
+    return pn;
+  }
+
+  /**
+   * Tell an established neighbour which devices we reach
+   */
+  private async sendAnnounce(peer: Peer): Promise<void> {
+    const adverts = this.routing.advertsFor(peer.id);
+    if (adverts.length === 0) return;
+    const payload: AnnouncePayload = {
+      r: await Promise.all(adverts.map(async ([, hops, publicKey]): Promise<RouteAdvert> =>
+        [await deviceIdFromPublicKey(publicKey, MAX_DEVICE_ID_LENGTH), hops, publicKey]
+      )),
+    };
+    await this.sendMessage(peer, MESSAGE_TYPES.ANNOUNCE, JSON.stringify(payload));
+  }
+
+  /**
+   * Send a chat or routed message that stays queued (and persisted)
+   * until acknowledged or expired. Without a next hop it is only queued.
+   * Returns the packet number, or -1 if nothing was sent yet.
+   */
+  private async sendQueued(
+    peer: Peer | undefined,
+    messageType: MessageType,
+    payload: string,
+    destination?: string,
+    text?: string
+  ): Promise<number> {
+    const pn = peer ? await this.sendMessage(peer, messageType, payload) : undefined;
+    this.queue.add({ peerId: peer?.id ?? destination!, destination, messageType, payload, text, pn });
+    this.persistQueue();
+    return pn ?? -1;
+  }
+
+  /**
+   * Send queued messages that aren't in flight and whose next hop is in
+   * view. When a peer reappears, its parked packets (out of retries) are
+   * shown again. Runs are serialized so a message is never sent twice.
+   */
+  private flushQueue(seen?: Peer): void {
+    this.flushing = this.flushing
+      .then(() => this.resumeQueued(seen))
+      .catch((e) => console.error('Queue flush failed:', e));
+  }
+
+  private async resumeQueued(seen?: Peer): Promise<void> {
+    const now = Date.now();
+    let changed = false;
+
+    for (const message of this.queue.getAll()) {
+      if (message.expiresAt <= now) continue;
+
+      if (message.pn !== undefined) {
+        const sent = this.peers.get(message.peerId)?.sentPackets.get(message.pn);
+        if (sent?.status !== 'pending') continue;
+        if (seen?.id === message.peerId && sent.retries >= this.maxRetries) {
+          sent.retries = 0;
+          sent.timestamp = now;
+        }
+        continue;
+      }
+
+      const nextHop = message.destination ? this.routing.lookup(message.destination)?.nextHop : message.peerId;
+      const peer = nextHop ? this.peers.get(nextHop) : undefined;
+      if (!peer) continue;
+
+      message.peerId = peer.id;
+      message.pn = await this.sendMessage(peer, message.messageType, message.payload);
+      changed = true;
+    }
+
+    if (changed) this.persistQueue();
+  }
+
+  private persistQueue(): void {
+    this.queue.save(this.globalPn).catch((e) => {
+      this.emit({ type: 'error', message: `Failed to persist message queue: ${e}` });
+    });
+  }
+
+  /**
+   * Queue a reliable DATA message (sealed once keys exist)
+   */
+  private async sendMessage(peer: Peer, messageType: MessageType, payload: string): Promise<number> {
+    const pn = this.getNextPn();
+    const acks = peer.receivedPns.length > 0 ? peer.receivedPns : undefined;
+    const packet = createDataPacket(this.deviceId, peer.id, pn, messageType, payload, acks);
+
+    await this.sealPacket(peer, packet);
+    this.trackSentPacket(peer, packet);
+    this.emit({ type: 'packet_sent', packet });
+
+    return pn;
+  }
+
+  async sendAck(peerId: string): Promise<void> {
+    const peer = this.peers.get(peerId);
+    if (!peer || peer.receivedPns.length === 0) return;
+
+    const pn = this.getNextPn();
+    const packet = createAckPacket(this.deviceId, peerId, pn, peer.receivedPns);
+    await this.sealPacket(peer, packet);
+    this.logPacket(packet, 'sent');
+    this.emit({ type: 'packet_sent', packet });
+  }
+
+  /**
+   * Process received packet
+   */
+  async processPacket(received: QRPacket): Promise<void> {
+    const packet = await this.toLocalAddresses(received);
+    if (packet.src === this.deviceId) return;
+    if (!isForUs(packet, this.deviceId) && !this.isGroupAddress(packet.dst)) return;
+    if (!this.acceptsVersion(packet)) return;
+
+    if (packet.legacy) {
+      // Peers that send capabilities checksum everything: a CRC-less frame
+      // from one is a misread that happens to parse in the old format
+      if (this.peers.get(packet.src)?.capabilities !== undefined) return;
+      // Read, but it can't read us: packets we send end in a CRC it doesn't expect
+      if (!this.reportedLegacy.has(packet.src)) {
+        this.reportedLegacy.add(packet.src);
+        this.emit({ type: 'error', message: `Peer ${packet.src} runs a client from before packet checksums - it needs updating to read ours` });
+      }
+    }
+
+    this.logPacket(packet, 'received');
+    this.emit({ type: 'packet_received', packet });
+
+    let peer = this.peers.get(packet.src);
+    const isNewPeer = !peer;
+
+    if (packet.t === PACKET_TYPES.INITIAL) {
+      if (packet.key && !(await this.checkPeerKey(packet.src, packet.key))) return;
+      if (!(await this.checkSignature(peer, packet))) return;
+    }
+
+    // Create peer if needed (for INITIAL packets that have key)
+    if (!peer) {
+      if (packet.t === PACKET_TYPES.INITIAL && packet.key) {
+        peer = this.createPeer(packet.src, packet.key, packet.name);
+      } else {
+        return; // Can't process without peer
+      }
+    }
+
+    // Sealed packets must carry a valid MAC before anything is trusted
+    if (!(await this.verifyPacket(peer, packet))) return;
+
+    this.updateCapabilities(peer, packet);
+
+    peer.lastSeen = Date.now();
+    this.flushQueue(peer);
+
+    // A new epoch means the peer restarted, but it only counts once its
+    // handshake completes (startPeerSession). Till then its packets,
+    // numbered from scratch, are tracked apart.
+    let session: { replay: ReplayWindow; receivedPns: AckRange[] } = peer;
+    if (packet.t === PACKET_TYPES.INITIAL && packet.epoch && packet.epoch !== peer.epoch) {
+      if (peer.pastEpochs.includes(packet.epoch)) {
+        this.emit({ type: 'error', message: `Refused INITIAL from a past session of peer: ${peer.id}` });
+        return;
+      }
+      if (peer.nextEpoch?.epoch !== packet.epoch) {
+        peer.nextEpoch = { epoch: packet.epoch, replay: new ReplayWindow(this.replayWindow), receivedPns: [] };
+      }
+      session = peer.nextEpoch;
+    } else if (packet.mt === MESSAGE_TYPES.HANDSHAKE && !packet.mac && peer.nextEpoch) {
+      session = peer.nextEpoch;
+    }
+
+    // Replays and duplicates: seen already, or older than the window.
+    // Only a MAC vouches for a pn, so only sealed packets move the window.
+    const isDuplicate = packet.t !== PACKET_TYPES.BEACON &&
+      !(packet.mac ? session.replay.accept(packet.pn) : session.replay.note(packet.pn));
+
+    // Track received pn (except for beacons which always have pn=0)
+    if (packet.t !== PACKET_TYPES.BEACON && !isDuplicate) {
+      session.receivedPns = addToAckRanges(session.receivedPns, packet.pn);
+    }
+
+    // Process ACKs (always, even for duplicates). Group packets are
+    // unsealed, so ACKs on them aren't trusted.
+    if (packet.acks && packet.acks.length > 0 && !this.isGroupAddress(packet.dst)) {
+      this.processAcks(peer, packet.acks);
     }
 
     // Skip processing if duplicate (but still ACK it)
-    if (isDuplicate && packet.t === PACKET_TYPES.DATA) {
+    if (isDuplicate && (packet.t === PACKET_TYPES.DATA || packet.t === PACKET_TYPES.INITIAL)) {
       // Re-queue ACK for duplicate
-      this.queueAck(peer);
+      await this.queueAck(peer);
       return;
     }
 
@@ -363,8 +1470,14 @@ export class MeshState {
         break;
 
       case PACKET_TYPES.DATA:
+        if (packet.mt === MESSAGE_TYPES.HANDSHAKE) {
+          // ACKed once read: it may start the session its pn counts in
+          await this.handleData(peer, packet);
+          await this.queueAck(peer);
+          break;
+        }
         // Queue ACK first, so updateQR will see it when chat_message is emitted
-        this.queueAck(peer);
+        await this.queueAck(peer);
         await this.handleData(peer, packet);
         break;
 
@@ -377,7 +1490,7 @@ export class MeshState {
   /**
    * Queue an ACK packet to be displayed
    */
-  private queueAck(peer: Peer): void {
+  private async queueAck(peer: Peer): Promise<void> {
     // Check if we already have a pending ACK for this peer
     const hasAck = Array.from(peer.sentPackets.values())
       .some(s => s.packet.t === PACKET_TYPES.ACK && s.status === 'pending');
@@ -385,6 +1498,7 @@ export class MeshState {
     if (!hasAck && peer.receivedPns.length > 0) {
       const pn = this.getNextPn();
       const ackPacket = createAckPacket(this.deviceId, peer.id, pn, peer.receivedPns);
+      await this.sealPacket(peer, ackPacket);
       this.trackSentPacket(peer, ackPacket);
     }
   }
@@ -393,31 +1507,46 @@ export class MeshState {
    * Process beacon (discovery only, no key)
    * Automatically sends INITIAL to start key exchange
    */
-  processBeacon(packet: QRPacket): void {
+  async processBeacon(packet: QRPacket): Promise<void> {
     if (packet.src === this.deviceId) return;
     if (packet.t !== PACKET_TYPES.BEACON) return;
+    if (!this.acceptsVersion(packet)) return;
 
     let peer = this.peers.get(packet.src);
+    if (!(await this.checkSignature(peer, packet))) return;
+
     if (!peer) {
       // Create peer without key - will get key on INITIAL
       peer = this.createPeer(packet.src, undefined, packet.name);
+      this.updateCapabilities(peer, packet);
+      peer.maxFrameSize = packet.frame;
       this.emit({ type: 'peer_discovered', peer });
     } else {
+      this.updateCapabilities(peer, packet);
+      peer.maxFrameSize = packet.frame;
       peer.lastSeen = Date.now();
       if (packet.name) peer.name = packet.name;
       this.emit({ type: 'peer_updated', peer });
     }
 
+    if (this.routing.addNeighbor(peer.id, peer.publicKey)) {
+      this.routesChanged();
+    }
+    this.flushQueue(peer);
+
     // Don't auto-send INITIAL - it's too large for reliable QR scanning
     // Key exchange will happen when first message is sent (if needed)
   }
 
   markPacketDisplayed(packet: QRPacket): void {
-    const peer = this.peers.get(packet.dst);
-    if (!peer) return;
+    // Group packets are tracked once per recipient
+    const direct = this.peers.get(packet.dst);
+    const recipients = direct ? [direct] : this.isGroupAddress(packet.dst) ? this.getPeers() : [];
+
+    for (const peer of recipients) {
+      const sent = peer.sentPackets.get(packet.pn);
+      if (!sent || sent.packet !== packet || sent.status !== 'pending') continue;
 
-    const sent = peer.sentPackets.get(packet.pn);
-    if (sent && sent.status === 'pending') {
       sent.timestamp = Date.now();
       sent.retries++;
 
@@ -438,17 +1567,36 @@ export class MeshState {
         if (sent.status !== 'pending') continue;
 
         if (now - sent.timestamp > this.retryTimeout && sent.retries >= this.maxRetries) {
-          sent.status = 'failed';
-          this.emit({ type: 'packet_failed', pn, peerId: peer.id });
+          // Queued messages park until the peer comes back or they expire
+          if (this.queue.findByPn(peer.id, pn)) continue;
+          this.failPacket(peer, pn, sent);
+        }
+      }
 
-          this.packetLog.forEach((entry) => {
-            if (entry.packet.pn === pn && entry.packet.dst === peer.id) {
-              entry.status = 'failed';
-            }
-          });
+      // Resend or give up on handshakes that went unanswered
+      if (peer.state === ConnectionState.SYN_SENT || peer.state === ConnectionState.SYN_RECEIVED) {
+        const initial = peer.handshakePn !== undefined ? peer.sentPackets.get(peer.handshakePn) : undefined;
+        if (initial?.status === 'failed' || now - peer.handshakeStartedAt > this.handshakeTimeout) {
+          this.retryHandshake(peer);
         }
       }
     }
+
+    this.expireQueued(now);
+  }
+
+  private expireQueued(now: number): void {
+    const expired = this.queue.expired(now);
+    if (expired.length === 0) return;
+
+    for (const message of expired) {
+      this.queue.remove(message.id);
+      const peer = this.peers.get(message.peerId);
+      const sent = message.pn !== undefined ? peer?.sentPackets.get(message.pn) : undefined;
+      if (peer && sent?.status === 'pending') this.failPacket(peer, message.pn!, sent);
+      this.emit({ type: 'message_expired', message });
+    }
+    this.persistQueue();
   }
 
   // Private handlers
@@ -456,8 +1604,11 @@ export class MeshState {
   private async handleInitial(peer: Peer, packet: QRPacket, isNewPeer: boolean): Promise<void> {
     if (packet.key && !peer.sharedKey) {
       peer.publicKey = packet.key;
+      peer.fingerprint = await computeFingerprint(packet.key);
       try {
         peer.sharedKey = await deriveSharedKey(this.keyPair.privateKey, packet.key);
+        peer.macKey = await deriveMacKey(this.keyPair.privateKey, packet.key, this.sessionContext(peer));
+        await this.resealPending(peer);
       } catch (e) {
         console.error('Failed to derive shared key:', e);
       }
@@ -471,25 +1622,41 @@ export class MeshState {
       this.emit({ type: 'peer_updated', peer });
     }
 
-    // Respond with our INITIAL
-    if (peer.sharedKey) {
-      const pn = this.getNextPn();
-      const response = createInitialPacket(
-        this.deviceId,
-        peer.id,
-        pn,
-        this.publicKey,
-        this.deviceName,
-        peer.receivedPns
-      );
-      this.trackSentPacket(peer, response);
-      this.emit({ type: 'packet_sent', packet: response });
+    if (!peer.sharedKey) return;
+
+    if (packet.hs) {
+      await this.handleHandshake(peer, packet.hs, packet);
+      return;
+    }
+
+    // Peers without Noise: the plain INITIAL exchange
+    switch (peer.state) {
+      case ConnectionState.SYN_SENT:
+        // Peer answered our INITIAL - ACK theirs so they can finish too
+        this.setState(peer, ConnectionState.ESTABLISHED);
+        await this.queueAck(peer);
+        break;
+
+      case ConnectionState.SYN_RECEIVED:
+        // Our response is already in flight
+        break;
+
+      default:
+        // Fresh handshake (or peer restarted one) - respond with our INITIAL
+        peer.handshakeReply = undefined;
+        peer.handshakeAttempts = 1;
+        peer.handshakeStartedAt = Date.now();
+        this.sendInitial(peer);
+        this.setState(peer, ConnectionState.SYN_RECEIVED);
+        break;
     }
   }
 
   private async handleData(peer: Peer, packet: QRPacket): Promise<void> {
     switch (packet.mt) {
       case MESSAGE_TYPES.CHAT:
+      case MESSAGE_TYPES.ENCRYPTED_CHAT:
+      case MESSAGE_TYPES.RATCHET_CHAT:
         await this.handleChat(peer, packet);
         break;
       case MESSAGE_TYPES.OFFER:
@@ -501,32 +1668,278 @@ export class MeshState {
           } catch { }
         }
         break;
+      case MESSAGE_TYPES.ANNOUNCE:
+        await this.handleAnnounce(peer, packet);
+        break;
+      case MESSAGE_TYPES.ROUTE:
+        await this.handleRoute(peer, packet);
+        break;
+      case MESSAGE_TYPES.GROUP_KEY:
+        await this.handleGroupKey(peer, packet);
+        break;
+      case MESSAGE_TYPES.HANDSHAKE:
+        if (packet.payload) await this.handleHandshake(peer, packet.payload);
+        break;
+      case MESSAGE_TYPES.GROUP_CHAT:
+        await this.handleGroupChat(peer, packet);
+        break;
     }
   }
 
-  private async handleChat(peer: Peer, packet: QRPacket): Promise<void> {
+  /**
+   * Store a member's sender key. A key for an unknown group is an
+   * invitation: we join with the sender's member list.
+   */
+  private async handleGroupKey(peer: Peer, packet: QRPacket): Promise<void> {
+    if (!peer.sharedKey || !packet.payload || packet.dst !== this.deviceId) return;
+
+    let payload: GroupKeyPayload;
+    let key: CryptoKey;
+    try {
+      payload = JSON.parse(await decryptCompact(peer.sharedKey, packet.payload)) as GroupKeyPayload;
+      if (!/^[0-9A-F]{8}$/.test(payload.g)) return;
+      key = await importGroupKey(payload.k);
+    } catch (e) {
+      console.error('Bad group key:', e);
+      return;
+    }
+
+    const group = this.groups.get(payload.g) ?? await this.addGroup(payload.g, payload.n, payload.m ?? []);
+    group.members.add(peer.id);
+    group.memberKeys.set(peer.id, key);
+    this.emit({ type: 'group_updated', group });
+    await this.distributeSenderKey(group);
+
+    // Messages that got here before the key
+    const pendingKey = `${group.id}:${peer.id}`;
+    const pending = this.pendingGroupMessages.get(pendingKey) ?? [];
+    this.pendingGroupMessages.delete(pendingKey);
+    for (const held of pending) {
+      await this.handleGroupChat(peer, held);
+    }
+  }
+
+  private async handleGroupChat(peer: Peer, packet: QRPacket): Promise<void> {
+    if (!packet.payload || !this.isGroupAddress(packet.dst)) return;
+
+    const key = this.groups.get(packet.dst)?.memberKeys.get(peer.id);
+    if (!key) {
+      // Sender key still on its way - hold the message for it
+      const pendingKey = `${packet.dst}:${peer.id}`;
+      const pending = this.pendingGroupMessages.get(pendingKey) ?? [];
+      if (pending.length < MAX_PENDING_GROUP_MESSAGES) pending.push(packet);
+      this.pendingGroupMessages.set(pendingKey, pending);
+      return;
+    }
+
+    // Any member could encrypt under this sender key - only the sender's
+    // pinned signing key proves the message is really from it
+    const [signature, ciphertext] = splitBase32(packet.payload, SIGNATURE_BYTES);
+    const signedData = groupChatSignedData(packet.src, packet.dst, packet.pn, ciphertext);
+    if (!peer.signingKey || !signature || !(await verifySignature(peer.signingKey, signedData, signature))) {
+      this.emit({ type: 'error', message: `Rejected unsigned group message ${packet.pn} from peer: ${peer.id}` });
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await decryptCompact(key, ciphertext);
+    } catch (e) {
+      console.error('Decrypt failed:', e);
+      text = '[Decryption failed]';
+    }
+
+    const message: ChatMessage = {
+      peerId: peer.id,
+      direction: 'received',
+      text,
+      timestamp: Date.now(),
+      encrypted: true,
+      pn: packet.pn,
+      group: packet.dst,
+    };
+
+    this.chatHistory.push(message);
+    this.emit({ type: 'chat_message', message });
+  }
+
+  private async handleAnnounce(peer: Peer, packet: QRPacket): Promise<void> {
+    // Only trust reachability claims from peers we share a key with
+    if (!peer.sharedKey || !packet.payload) return;
+
+    let adverts: RouteAdvert[];
+    try {
+      const payload = JSON.parse(packet.payload) as AnnouncePayload;
+      adverts = payload.r.filter((advert) =>
+        Array.isArray(advert) && typeof advert[0] === 'string' && typeof advert[2] === 'string'
+      );
+    } catch {
+      return;
+    }
+
+    // A key must hash to the full ID it is announced for, or a neighbour
+    // could slip in its own key and read what we send that device. Keys
+    // already in the table were checked when they arrived.
+    const checked = await Promise.all(adverts.map(async ([destination, , publicKey]) =>
+      destination.length === MAX_DEVICE_ID_LENGTH && (
+        this.routing.lookup(destination)?.publicKey === publicKey || keyMatchesDeviceId(publicKey, destination)
+      )
+    ));
+    const rejected = adverts.filter((_, i) => !checked[i]);
+    if (rejected.length > 0) {
+      this.emit({
+        type: 'error',
+        message: `Dropped route adverts from ${peer.id} with mismatched keys: ${rejected.map(([id]) => id).join(', ')}`,
+      });
+    }
+
+    const accepted = await Promise.all(adverts.filter((_, i) => checked[i]).map(
+      async ([destination, hops, publicKey]): Promise<RouteAdvert> => [await this.localDeviceId(destination), hops, publicKey]
+    ));
+    if (this.routing.update(peer.id, accepted)) {
+      this.routesChanged();
+    }
+  }
+
+  /**
+   * Deliver a routed message addressed to us, or pass it one hop on
+   */
+  private async handleRoute(peer: Peer, packet: QRPacket): Promise<void> {
     if (!packet.payload) return;
 
+    let route: RoutePayload;
+    try {
+      route = JSON.parse(packet.payload) as RoutePayload;
+    } catch {
+      return;
+    }
+    if (!route.s || !route.d || !route.i || !route.k || !route.c) return;
+    if (route.s.length !== MAX_DEVICE_ID_LENGTH || route.d.length !== MAX_DEVICE_ID_LENGTH) return;
+
+    // Loop prevention - each message is handled once per device
+    if (!this.routing.markSeen(route.s, route.i)) return;
+
+    const [origin, destination] = await Promise.all([this.localDeviceId(route.s), this.localDeviceId(route.d)]);
+    if (destination === this.deviceId) {
+      await this.deliverRouted(peer, route, origin);
+      return;
+    }
+
+    if (!(route.t > 1)) {
+      this.emit({ type: 'error', message: `Dropped routed message from ${origin}: TTL expired` });
+      return;
+    }
+
+    // Carry it until a route appears if there is none yet
+    const next = this.routing.lookup(destination);
+    const nextHop = next && next.nextHop !== peer.id ? this.peers.get(next.nextHop) : undefined;
+    await this.sendQueued(nextHop, MESSAGE_TYPES.ROUTE, JSON.stringify({ ...route, t: route.t - 1 }), destination);
+    if (!nextHop) return;
+
+    this.emit({ type: 'message_forwarded', origin, destination, nextHop: nextHop.id });
+  }
+
+  private async deliverRouted(peer: Peer, route: RoutePayload, origin: string): Promise<void> {
+    // The origin's key must match its full ID, or anyone could claim to be it
+    if (!(await keyMatchesDeviceId(route.k, route.s))) {
+      this.emit({ type: 'error', message: `Routed message key does not match origin: ${origin}` });
+      return;
+    }
+
     let text: string;
+    try {
+      text = await decryptCompact(await this.getEndToEndKey(route.k), route.c);
+    } catch (e) {
+      console.error('Decrypt failed:', e);
+      text = '[Decryption failed]';
+    }
+
+    const message: ChatMessage = {
+      peerId: origin,
+      direction: 'received',
+      text,
+      timestamp: Date.now(),
+      encrypted: true,
+      via: peer.id,
+    };
+
+    this.chatHistory.push(message);
+    this.emit({ type: 'chat_message', message });
+  }
+
+  private async getEndToEndKey(publicKey: string): Promise<CryptoKey> {
+    let key = this.endToEndKeys.get(publicKey);
+    if (!key) {
+      key = await deriveSharedKey(this.keyPair.privateKey, publicKey);
+      this.endToEndKeys.set(publicKey, key);
+    }
+    return key;
+  }
+
+  private async handleChat(peer: Peer, packet: QRPacket): Promise<void> {
+    if (!packet.payload) return;
 
-    // Try to parse as JSON (old format), otherwise treat as raw text (new compact format)
-    const payload = parseChatPayload(packet);
-    if (payload) {
-      if (payload.e && payload.c && payload.i && peer.sharedKey) {
+    let text: string;
+    let encrypted = false;
+
+    if (packet.mt === MESSAGE_TYPES.RATCHET_CHAT) {
+      encrypted = true;
+      if (!peer.ratchet?.canDecrypt(packet.payload)) {
+        // Sent in a session whose INITIAL hasn't reached us yet - hold it.
+        // The oldest go first: they may be from a session long gone.
+        const pending = this.pendingRatchetMessages.get(peer.id) ?? [];
+        pending.push(packet);
+        if (pending.length > MAX_PENDING_RATCHET_MESSAGES) pending.shift();
+        this.pendingRatchetMessages.set(peer.id, pending);
+        return;
+      }
+      try {
+        const decrypted = await peer.ratchet.decrypt(packet.payload);
+        if (decrypted === null) return;   // Read already (resent under a new pn)
+        text = decrypted;
+      } catch (e) {
+        console.error('Decrypt failed:', e);
+        text = '[Decryption failed]';
+      }
+    } else if (packet.mt === MESSAGE_TYPES.ENCRYPTED_CHAT) {
+      // Compact encrypted format: base32(iv || ciphertext)
+      encrypted = true;
+      if (peer.sharedKey) {
         try {
-          text = await decrypt(peer.sharedKey, payload.c, payload.i);
+          text = await decryptCompact(peer.sharedKey, packet.payload);
         } catch (e) {
           console.error('Decrypt failed:', e);
           text = '[Decryption failed]';
         }
-      } else if (payload.p) {
-        text = payload.p;
       } else {
-        text = '[Invalid message]';
+        text = '[Decryption failed]';
       }
     } else {
-      // Raw text payload (compact format)
-      text = packet.payload;
+      // Try to parse as JSON (old format), otherwise treat as raw text
+      const payload = parseChatPayload(packet);
+      if (payload) {
+        encrypted = !!payload.e;
+        if (payload.e && payload.c && payload.i && peer.sharedKey) {
+          try {
+            text = await decrypt(peer.sharedKey, payload.c, payload.i);
+          } catch (e) {
+            console.error('Decrypt failed:', e);
+            text = '[Decryption failed]';
+          }
+        } else if (payload.p) {
+          text = payload.p;
+        } else {
+          text = '[Invalid message]';
+        }
+      } else {
+        // Raw text payload (compact format)
+        text = packet.payload;
+      }
+    }
+
+    if (!encrypted && peer.sharedKey && this.requireEncryption) {
+      this.emit({ type: 'error', message: `Rejected plaintext chat from peer: ${peer.id}` });
+      return;
     }
 
     const message: ChatMessage = {
@@ -534,7 +1947,7 @@ export class MeshState {
       direction: 'received',
       text,
       timestamp: Date.now(),
-      encrypted: !!(payload && payload.e),
+      encrypted,
       pn: packet.pn,
     };
 
@@ -548,19 +1961,58 @@ export class MeshState {
         const sent = peer.sentPackets.get(pn);
         if (sent && sent.status === 'pending') {
           sent.status = 'acked';
-          this.emit({ type: 'packet_acked', pn, peerId: peer.id });
+          this.dequeue(peer, pn);
+          this.emit({ type: 'packet_acked', pn, peerId: peer.id, rtt: Date.now() - sent.timestamp });
 
           this.packetLog.forEach((entry) => {
             if (entry.packet.pn === pn && entry.packet.dst === peer.id) {
               entry.status = 'acked';
             }
           });
+
+          if (pn === peer.handshakePn && peer.state === ConnectionState.SYN_RECEIVED) {
+            this.setState(peer, ConnectionState.ESTABLISHED);
+          }
         }
       }
     }
     peer.ackedByPeer = acks;
   }
 
+  /**
+   * Start the session a completed handshake set up. A new epoch it
+   * carried is adopted, with the packets seen from it so far, and the MAC
+   * key is bound to both epochs and the handshake. Pending packets are
+   * sealed again under it.
+   */
+  private async startPeerSession(peer: Peer, epoch?: string): Promise<void> {
+    if (epoch && epoch !== peer.epoch) {
+      const restarted = peer.epoch !== undefined;
+      if (restarted) peer.pastEpochs = [...peer.pastEpochs, peer.epoch!].slice(-MAX_PAST_EPOCHS);
+      const next = peer.nextEpoch?.epoch === epoch ? peer.nextEpoch : undefined;
+      peer.epoch = epoch;
+      peer.nextEpoch = undefined;
+      peer.replay = next?.replay ?? new ReplayWindow(this.replayWindow);
+      peer.receivedPns = next?.receivedPns ?? [];
+      if (restarted) this.emit({ type: 'peer_restarted', peer });
+    }
+
+    // Otherwise handleInitial derives it along with the shared key
+    if (!peer.publicKey || !peer.sharedKey) return;
+
+    peer.macKey = await deriveMacKey(this.keyPair.privateKey, peer.publicKey, this.sessionContext(peer));
+    await this.resealPending(peer);
+  }
+
+  /**
+   * Both epochs, in an order both sides agree on, and the handshake that
+   * started the session (no epoch: legacy session-less MAC key)
+   */
+  private sessionContext(peer: Peer): string | undefined {
+    if (!peer.epoch) return undefined;
+    return [this.sessionEpoch, peer.epoch].sort().join('') + (peer.ratchet?.session ?? '');
+  }
+
   private createPeer(id: string, publicKey?: string, name?: string): Peer {
     const peer: Peer = {
       id,
@@ -571,11 +2023,510 @@ export class MeshState {
       ackedByPeer: [],
       nextPn: 0,
       sentPackets: new Map(),
+      version: PROTOCOL_VERSION,
+      state: ConnectionState.DISCONNECTED,
+      handshakeAttempts: 0,
+      handshakeStartedAt: 0,
+      pastEpochs: [],
+      replay: new ReplayWindow(this.replayWindow),
     };
+
+    // Short IDs are what people see and compare - flag another key behind one
+    const shortId = shortDeviceId(id);
+    for (const other of this.peers.values()) {
+      if (shortDeviceId(other.id) !== shortId || other.id === id) continue;
+      if (publicKey && other.publicKey === publicKey) continue;   // Same device under a wider ID
+      this.emit({ type: 'id_collision', shortId, peer: other, other: peer, key: publicKey });
+    }
+
     this.peers.set(id, peer);
     return peer;
   }
 
+  private setState(peer: Peer, state: ConnectionState): void {
+    const previous = peer.state;
+    if (previous === state) return;
+    peer.state = state;
+    this.emit({ type: 'connection_state_changed', peer, previous, state });
+
+    if (state === ConnectionState.ESTABLISHED) {
+      // New neighbour with a key: it gets our table, everyone else gets it
+      const changed = this.routing.addNeighbor(peer.id, peer.publicKey);
+      this.sendAnnounce(peer).catch((e) => console.error('Announce failed:', e));
+      this.shareGroupKeys(peer).catch((e) => console.error('Group key exchange failed:', e));
+      if (changed) this.routesChanged(peer.id);
+    } else if (previous === ConnectionState.ESTABLISHED || state === ConnectionState.FAILED) {
+      if (this.routing.removeNeighbor(peer.id)) this.routesChanged();
+    }
+  }
+
+  /**
+   * Publish a routing table change and re-announce to established
+   * neighbours (except one that already has the news)
+   */
+  private routesChanged(skipPeer?: string): void {
+    this.emit({ type: 'routes_updated', routes: this.routing.getRoutes() });
+    this.flushQueue();
+    for (const peer of this.peers.values()) {
+      if (peer.state !== ConnectionState.ESTABLISHED || peer.id === skipPeer) continue;
+      this.sendAnnounce(peer).catch((e) => console.error('Announce failed:', e));
+    }
+  }
+
+  /**
+   * Send our INITIAL to a peer, superseding any earlier one still in flight
+   */
+  private sendInitial(peer: Peer, reply?: string): number {
+    if (peer.handshakePn !== undefined) {
+      const previous = peer.sentPackets.get(peer.handshakePn);
+      if (previous && previous.status === 'pending') {
+        this.failPacket(peer, peer.handshakePn, previous);
+      }
+    }
+
+    // An answer ACKs the INITIAL it answers, whose epoch may not be adopted yet
+    const received = reply && peer.nextEpoch ? peer.nextEpoch.receivedPns : peer.receivedPns;
+    const pn = this.getNextPn();
+    const packet = createInitialPacket(
+      this.deviceId,
+      peer.id,
+      pn,
+      this.publicKey,
+      this.deviceName,
+      received
+    );
+    packet.caps = this.capabilities;
+    packet.epoch = this.sessionEpoch;
+    packet.sk = this.keyPair.signingKeyRaw;
+    peer.handshakePn = pn;
+
+    // Goes out once signed, unless superseded meanwhile
+    this.prepareInitial(peer, packet, reply)
+      .then(() => {
+        if (peer.handshakePn !== pn) return;
+        this.trackSentPacket(peer, packet);
+        this.emit({ type: 'packet_sent', packet });
+      })
+      .catch((e) => this.emit({ type: 'error', message: `Failed to sign INITIAL: ${e}` }));
+    return pn;
+  }
+
+  /**
+   * Add our Noise message (a reply, or the first message of a new
+   * handshake) and the signature to an INITIAL
+   */
+  private async prepareInitial(peer: Peer, packet: QRPacket, reply?: string): Promise<void> {
+    packet.hs = reply ?? await this.startHandshake(peer, packet.pn);
+    await this.signPacket(packet);
+  }
+
+  /**
+   * First message of a handshake we initiate: IK if we hold the peer's
+   * key, carrying any early data, XX otherwise
+   */
+  private async startHandshake(peer: Peer, pn: number): Promise<string> {
+    const remoteKey = peer.publicKey ? new Uint8Array(base64ToArrayBuffer(peer.publicKey)) : undefined;
+    const pattern = remoteKey ? NOISE_PATTERNS.IK : NOISE_PATTERNS.XX;
+    const noise = await NoiseHandshake.initialize(
+      pattern,
+      true,
+      this.handshakePrologue(this.deviceId, peer.id, this.sessionEpoch),
+      this.noiseKeyPair(),
+      remoteKey
+    );
+
+    const earlyData = remoteKey ? peer.earlyData : undefined;
+    const message = await noise.writeMessage(this.handshakePayload(pattern, 0, earlyData));
+
+    // Superseded meanwhile - this INITIAL won't go out
+    if (peer.handshakePn === pn) {
+      peer.noise = noise;
+      if (earlyData) {
+        peer.earlyData = undefined;
+        const chat: ChatMessage = { peerId: peer.id, direction: 'sent', text: earlyData, timestamp: Date.now(), encrypted: true, pn };
+        this.chatHistory.push(chat);
+        this.emit({ type: 'chat_message', message: chat });
+      }
+    }
+    return packHandshakeMessage(pattern, 0, message);
+  }
+
+  /**
+   * Next step of a Noise handshake, from an INITIAL (messages 0 and 1)
+   * or a HANDSHAKE message (XX message 2)
+   */
+  private async handleHandshake(peer: Peer, packed: string, initial?: QRPacket): Promise<void> {
+    const unpacked = unpackHandshakeMessage(packed);
+    if (!unpacked) {
+      this.emit({ type: 'error', message: `Invalid handshake message from ${peer.id}` });
+      return;
+    }
+    const { pattern, index, message } = unpacked;
+    const epoch = initial?.epoch;
+
+    if (index === 0) {
+      // Both sides started at once: the lower device ID stays initiator
+      if (peer.noise?.initiator && this.deviceId < peer.id) return;
+
+      const noise = await NoiseHandshake.initialize(
+        pattern,
+        false,
+        this.handshakePrologue(peer.id, this.deviceId, epoch),
+        this.noiseKeyPair()
+      );
+      const earlyData = await this.readHandshake(peer, noise, message, initial?.sk);
+      if (!earlyData) return;
+
+      peer.noise = noise;
+      peer.noiseEpoch = epoch;
+      peer.handshakeReply = packHandshakeMessage(pattern, 1, await noise.writeMessage(this.handshakePayload(pattern, 1)));
+      if (noise.isComplete) await this.completeHandshake(peer, noise, epoch);
+      if (earlyData.length > 0) {
+        const chat: ChatMessage = {
+          peerId: peer.id,
+          direction: 'received',
+          text: new TextDecoder().decode(earlyData),
+          timestamp: Date.now(),
+          encrypted: true,
+        };
+        this.chatHistory.push(chat);
+        this.emit({ type: 'chat_message', message: chat });
+      }
+
+      peer.handshakeAttempts = 1;
+      peer.handshakeStartedAt = Date.now();
+      this.sendInitial(peer, peer.handshakeReply);
+      this.setState(peer, ConnectionState.SYN_RECEIVED);
+      return;
+    }
+
+    // Replies to a handshake we're not in (anymore) are stale
+    const noise = peer.noise;
+    if (!noise || noise.pattern !== pattern || noise.messageIndex !== index) return;
+    if (!(await this.readHandshake(peer, noise, message, initial?.sk))) return;
+
+    // Message 1 comes in the responder's INITIAL, with its epoch; the
+    // responder learnt ours from the INITIAL it answered
+    const peerEpoch = noise.initiator ? epoch : peer.noiseEpoch;
+    if (!noise.isComplete) {
+      // XX: our static key goes in the last message
+      const last = packHandshakeMessage(pattern, noise.messageIndex, await noise.writeMessage(this.handshakePayload(pattern, noise.messageIndex)));
+      await this.completeHandshake(peer, noise, peerEpoch);
+      await this.sendMessage(peer, MESSAGE_TYPES.HANDSHAKE, last);
+    } else {
+      await this.completeHandshake(peer, noise, peerEpoch);
+    }
+    if (!noise.initiator) return;   // Established once our INITIAL is ACKed
+
+    // Peer answered our INITIAL - ACK theirs so they can finish too
+    this.setState(peer, ConnectionState.ESTABLISHED);
+    await this.queueAck(peer);
+    if (peer.earlyData) {
+      const text = peer.earlyData;
+      peer.earlyData = undefined;
+      await this.sendChat(peer.id, text);
+    }
+  }
+
+  /**
+   * Read a handshake message; its early data, or null if it failed. A
+   * static key in it must be the one the INITIALs carry, and the signing
+   * key it authenticates is pinned (or checked against the pinned one and
+   * the one the INITIAL carrying it claims).
+   */
+  private async readHandshake(
+    peer: Peer,
+    noise: NoiseHandshake,
+    message: Uint8Array,
+    claimedSigningKey?: string
+  ): Promise<Uint8Array | null> {
+    const index = noise.messageIndex;
+    let payload: Uint8Array;
+    try {
+      payload = await noise.readMessage(message);
+    } catch (e) {
+      this.emit({ type: 'error', message: `Handshake with ${peer.id} failed: ${e}` });
+      return null;
+    }
+
+    const fail = (reason: string): null => {
+      if (peer.noise === noise) peer.noise = undefined;
+      this.emit({ type: 'error', message: reason });
+      return null;
+    };
+
+    const remoteKey = noise.remoteStaticKey;
+    if (remoteKey && arrayBufferToBase64(remoteKey.slice().buffer) !== peer.publicKey) {
+      return fail(`Handshake key does not match INITIAL key: ${peer.id}`);
+    }
+    if (!carriesSigningKey(noise.pattern, index)) return payload;
+
+    if (payload.length < SIGNING_KEY_BYTES) return fail(`Handshake from ${peer.id} carries no signing key`);
+    const signingKey = arrayBufferToBase64(payload.slice(0, SIGNING_KEY_BYTES).buffer);
+    if (peer.signingKey && signingKey !== peer.signingKey) {
+      if (peer.noise === noise) peer.noise = undefined;
+      this.emit({ type: 'key_changed', peer, previousKey: peer.signingKey, key: signingKey, signing: true });
+      return null;
+    }
+    if (claimedSigningKey && claimedSigningKey !== signingKey) {
+      return fail(`Signing key does not match the handshake: ${peer.id}`);
+    }
+    // Bound to the peer's static key by the handshake - trust on first use
+    peer.signingKey = signingKey;
+    return payload.slice(SIGNING_KEY_BYTES);
+  }
+
+  /**
+   * Payload of our handshake message: our signing key, in every message
+   * the handshake authenticates as ours, then any early data
+   */
+  private handshakePayload(pattern: NoisePattern, index: number, earlyData?: string): Uint8Array | undefined {
+    const data = earlyData ? new TextEncoder().encode(earlyData) : new Uint8Array(0);
+    if (!carriesSigningKey(pattern, index)) return data.length > 0 ? data : undefined;
+
+    const signingKey = new Uint8Array(base64ToArrayBuffer(this.keyPair.signingKeyRaw));
+    const payload = new Uint8Array(signingKey.length + data.length);
+    payload.set(signingKey, 0);
+    payload.set(data, signingKey.length);
+    return payload;
+  }
+
+  /**
+   * Seed the chat ratchet from a finished handshake, start the session on
+   * it, and read the messages that arrived before it
+   */
+  private async completeHandshake(peer: Peer, noise: NoiseHandshake, epoch?: string): Promise<void> {
+    const { initiatorKey, responderKey, handshakeHash } = await noise.split();
+    if (peer.noise === noise) peer.noise = undefined;
+
+    const secret = new Uint8Array(initiatorKey.length + responderKey.length);
+    secret.set(initiatorKey, 0);
+    secret.set(responderKey, initiatorKey.length);
+    const session = arrayBufferToBase32(handshakeHash.slice(0, 10).buffer);
+    const previous = peer.ratchet;
+    peer.ratchet = await SessionRatchet.create(secret.buffer, this.deviceId, peer.id, session, previous);
+    await this.startPeerSession(peer, epoch);
+    await this.reencryptQueued(peer, previous);
+
+    const pending = this.pendingRatchetMessages.get(peer.id) ?? [];
+    this.pendingRatchetMessages.delete(peer.id);
+    for (const held of pending) {
+      await this.handleChat(peer, held);
+    }
+  }
+
+  /**
+   * Re-encrypt queued chat the peer can no longer read. It keeps receive
+   * chains for the current and previous session only, and a message can
+   * wait out several handshakes in the queue. One still in flight is
+   * replaced by a new packet. Chat reloaded from storage has no text to
+   * re-encrypt, so it fails instead.
+   */
+  private async reencryptQueued(peer: Peer, previous?: SessionRatchet): Promise<void> {
+    const ratchet = peer.ratchet!;
+    const readable = previous ? [ratchet.sendChain, previous.sendChain] : [ratchet.sendChain];
+    let changed = false;
+
+    for (const message of this.queue.getAll()) {
+      if (message.peerId !== peer.id || message.messageType !== MESSAGE_TYPES.RATCHET_CHAT) continue;
+      const chain = SessionRatchet.chainOf(message.payload);
+      if (chain === undefined || readable.includes(chain)) continue;
+
+      if (message.text === undefined) {
+        this.queue.remove(message.id);
+        const sent = message.pn !== undefined ? peer.sentPackets.get(message.pn) : undefined;
+        if (sent?.status === 'pending') this.failPacket(peer, message.pn!, sent);
+        changed = true;
+        continue;
+      }
+
+      message.payload = await ratchet.encrypt(message.text);
+      changed = true;
+      if (message.pn === undefined) continue;  // Not sent yet - goes out with the new payload
+
+      const stale = message.pn;
+      peer.sentPackets.delete(stale);
+      const pn = await this.sendMessage(peer, message.messageType, message.payload);
+      message.pn = pn;
+      this.chatHistory.forEach((sent) => {
+        if (sent.direction === 'sent' && sent.peerId === peer.id && sent.pn === stale) sent.pn = pn;
+      });
+    }
+
+    if (changed) this.persistQueue();
+  }
+
+  /**
+   * Binds a handshake to both device IDs, initiator first, and to the
+   * epoch the initiator's INITIAL claims
+   */
+  private handshakePrologue(initiatorId: string, responderId: string, epoch: string = ''): Uint8Array {
+    return new TextEncoder().encode(`qrmesh|${initiatorId}|${responderId}|${epoch}`);
+  }
+
+  private noiseKeyPair(): NoiseKeyPair {
+    return { privateKey: this.keyPair.privateKey, publicKey: new Uint8Array(base64ToArrayBuffer(this.publicKey)) };
+  }
+
+  private retryHandshake(peer: Peer): void {
+    // No INITIAL of ours in flight - nothing to resend or give up on
+    const pn = peer.handshakePn;
+    if (pn === undefined) return;
+
+    if (peer.handshakeAttempts >= this.maxHandshakeAttempts) {
+      const initial = peer.sentPackets.get(pn);
+      if (initial && initial.status === 'pending') {
+        this.failPacket(peer, pn, initial);
+      }
+      this.setState(peer, ConnectionState.FAILED);
+      return;
+    }
+
+    peer.handshakeAttempts++;
+    peer.handshakeStartedAt = Date.now();
+    // A responder resends its answer; an initiator starts over
+    this.sendInitial(peer, peer.state === ConnectionState.SYN_RECEIVED ? peer.handshakeReply : undefined);
+  }
+
+  private acceptsVersion(packet: QRPacket): boolean {
+    if (this.versions.includes(packet.v)) return true;
+    this.reportDecodeError({
+      code: DECODE_ERRORS.UNSUPPORTED_VERSION,
+      message: `v${packet.v} is disabled`,
+      version: packet.v,
+    });
+    return false;
+  }
+
+  /**
+   * Track which versions a peer reads and renegotiate. A peer that sends
+   * in a version evidently reads it too.
+   */
+  private updateCapabilities(peer: Peer, packet: QRPacket): void {
+    let caps = packet.caps ?? peer.capabilities;
+    if (packet.v !== PROTOCOL_VERSION) {
+      caps = (caps ?? versionsToCapabilities([PROTOCOL_VERSION])) | versionsToCapabilities([packet.v]);
+    }
+    if (caps === peer.capabilities) return;
+
+    peer.capabilities = caps;
+    peer.version = negotiateVersion(this.versions, caps);
+  }
+
+  /**
+   * Attach a MAC to an outgoing packet. INITIALs stay unsealed - the peer
+   * can't derive the key until it has read ours - and so do group packets,
+   * which one object carries to every member, and handshake messages: the
+   * MAC key moves to the session they set up, which the peer may not have
+   * started yet.
+   */
+  private async sealPacket(peer: Peer, packet: QRPacket): Promise<void> {
+    if (!peer.macKey || !this.needsMac(packet)) return;
+    packet.mac = await computeMac(peer.macKey, encodePacketBody(packet));
+  }
+
+  /**
+   * Seal everything still in flight to a peer under its current MAC key -
+   * including packets queued before there was one, which it now refuses
+   */
+  private async resealPending(peer: Peer): Promise<void> {
+    for (const sent of peer.sentPackets.values()) {
+      if (sent.status === 'pending') await this.sealPacket(peer, sent.packet);
+    }
+  }
+
+  private async verifyPacket(peer: Peer, packet: QRPacket): Promise<boolean> {
+    if (packet.mac) {
+      if (peer.macKey && await verifyMac(peer.macKey, encodePacketBody(packet), packet.mac)) {
+        return true;
+      }
+      this.emit({ type: 'error', message: `Bad MAC on packet ${packet.pn} from peer: ${peer.id}` });
+      return false;
+    }
+
+    // Once we hold the peer's key only packets that can't carry its MAC
+    // may come unsealed - otherwise stripping the MAC and appending a CRC
+    // (or sending a CRC-less legacy frame) would forge any packet. The
+    // Noise handshake authenticates INITIALs and handshake messages, a
+    // sender key group packets; none of them moves the replay window.
+    if (peer.macKey && this.needsMac(packet)) {
+      this.emit({ type: 'error', message: `Rejected unsealed packet ${packet.pn} from peer: ${peer.id}` });
+      return false;
+    }
+
+    return true;
+  }
+
+  private needsMac(packet: QRPacket): boolean {
+    return packet.t !== PACKET_TYPES.INITIAL && packet.mt !== MESSAGE_TYPES.HANDSHAKE && !this.isGroupAddress(packet.dst);
+  }
+
+  private async signPacket(packet: QRPacket): Promise<void> {
+    packet.sig = await computeSignature(this.keyPair.signingKey, encodePacketBody(packet));
+  }
+
+  /**
+   * Check the signature on a BEACON or INITIAL. A peer's signing key is
+   * pinned from its first Noise handshake, which binds it to the peer's
+   * static key (readHandshake); from then on its INITIALs must be signed
+   * with that key. requireSignatures drops all unsigned ones.
+   * Signed beacons from peers whose signing key we haven't seen yet
+   * can't be checked: they are let through, unless requireSignatures
+   * is set - then a signature we can't verify counts for nothing.
+   */
+  private async checkSignature(peer: Peer | undefined, packet: QRPacket): Promise<boolean> {
+    const pinned = peer?.signingKey;
+    if (peer && pinned && packet.sk && packet.sk !== pinned) {
+      this.emit({ type: 'key_changed', peer, previousKey: pinned, key: packet.sk, signing: true });
+      return false;
+    }
+
+    if (!packet.sig) {
+      if (this.requireSignatures || (pinned && packet.t === PACKET_TYPES.INITIAL)) {
+        this.emit({ type: 'error', message: `Rejected unsigned ${packet.t === PACKET_TYPES.INITIAL ? 'INITIAL' : 'beacon'} from peer: ${packet.src}` });
+        return false;
+      }
+      return true;
+    }
+
+    const signingKey = pinned ?? packet.sk;
+    if (!signingKey) {
+      if (this.requireSignatures || packet.t !== PACKET_TYPES.BEACON) {
+        this.emit({ type: 'error', message: `Rejected unverifiable signature from peer: ${packet.src}` });
+        return false;
+      }
+      return true;
+    }
+
+    if (!(await verifySignature(signingKey, encodePacketBody(packet), packet.sig))) {
+      this.emit({ type: 'error', message: `Bad signature on packet from peer: ${packet.src}` });
+      return false;
+    }
+    return true;
+  }
+
+  private failPacket(peer: Peer, pn: number, sent: SentPacket): void {
+    sent.status = 'failed';
+    this.dequeue(peer, pn);
+    this.emit({ type: 'packet_failed', pn, peerId: peer.id });
+
+    this.packetLog.forEach((entry) => {
+      if (entry.packet.pn === pn && entry.packet.dst === peer.id) {
+        entry.status = 'failed';
+      }
+    });
+  }
+
+  /**
+   * Drop the queued message a packet carried, once it's settled
+   */
+  private dequeue(peer: Peer, pn: number): void {
+    const message = this.queue.findByPn(peer.id, pn);
+    if (!message) return;
+    this.queue.remove(message.id);
+    this.persistQueue();
+  }
+
   private trackSentPacket(peer: Peer, packet: QRPacket): void {
     peer.sentPackets.set(packet.pn, {
       packet,
@@ -0,0 +1,145 @@
+/**
+ * Message Queue - delay-tolerant store-and-forward for reliable messages
+ *
+ * QR contact is intermittent: devices meet for a few seconds, part, and
+ * may restart before they meet again. The queue holds every chat and
+ * routed message (ours and those carried for others) until it is
+ * acknowledged or its TTL runs out, and mirrors itself to pluggable
+ * storage so nothing is lost on reload. MeshState turns queued messages
+ * into DATA packets whenever their next hop is in view.
+ */
+
+import type { MessageType } from './protocol';
+
+/**
+ * Storage the queue is persisted to. Sync (KeyStorage, localStorage)
+ * and async (IndexedDB wrappers) implementations both fit.
+ */
+export interface QueueStorage {
+  get(key: string): string | null | Promise<string | null>;
+  set(key: string, value: string): void | Promise<void>;
+}
+
+export interface QueuedMessage {
+  id: string;
+  peerId: string;          // Device the DATA packet goes to (next hop for routed messages)
+  destination?: string;    // Final destination of a routed message - re-routed on resume
+  messageType: MessageType;
+  payload: string;         // As sent on the wire (ciphertext for encrypted chat)
+  text?: string;           // Plaintext of a ratchet chat, to re-encrypt it under a newer session (memory only)
+  createdAt: number;
+  expiresAt: number;
+  pn?: number;             // Packet currently carrying it, unset until sent
+}
+
+export interface MessageQueueOptions {
+  storage?: QueueStorage;
+  storageKey?: string;     // default 'qrmesh-queue'
+  ttl?: number;            // ms a message is kept undelivered (default 24h)
+}
+
+/**
+ * What the queue persists: the messages, and the packet number counter
+ * so a restarted device doesn't reuse pns its peers already saw. Ratchet
+ * chat is stored as ciphertext only, never with its text.
+ */
+interface QueueSnapshot {
+  pn: number;
+  messages: QueuedMessage[];
+}
+
+/**
+ * Persistent message queue
+ */
+export class MessageQueue {
+  readonly ttl: number;
+  private storage?: QueueStorage;
+  private storageKey: string;
+  private messages: Map<string, QueuedMessage> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: MessageQueueOptions = {}) {
+    this.storage = options.storage;
+    this.storageKey = options.storageKey ?? 'qrmesh-queue';
+    this.ttl = options.ttl ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Read the persisted queue. Returns the saved packet number counter
+   * (0 if nothing was saved).
+   */
+  async load(): Promise<number> {
+    if (!this.storage) return 0;
+
+    const raw = await this.storage.get(this.storageKey);
+    if (!raw) return 0;
+
+    let snapshot: QueueSnapshot;
+    try {
+      snapshot = JSON.parse(raw) as QueueSnapshot;
+    } catch {
+      return 0;
+    }
+
+    for (const message of snapshot.messages ?? []) {
+      this.messages.set(message.id, message);
+    }
+    return snapshot.pn ?? 0;
+  }
+
+  /**
+   * Persist the queue. Writes are serialized so they land in order.
+   */
+  save(pn: number): Promise<void> {
+    const storage = this.storage;
+    if (!storage) return Promise.resolve();
+
+    const messages = this.getAll().map((message) => ({ ...message, text: undefined }));
+    const snapshot: QueueSnapshot = { pn, messages };
+    const value = JSON.stringify(snapshot);
+    this.saving = this.saving
+      .catch(() => { })
+      .then(() => storage.set(this.storageKey, value));
+    return this.saving;
+  }
+
+  add(message: Omit<QueuedMessage, 'id' | 'createdAt' | 'expiresAt'>, now: number = Date.now()): QueuedMessage {
+    const queued: QueuedMessage = {
+      ...message,
+      id: Array.from(crypto.getRandomValues(new Uint8Array(6)), (b) => b.toString(16).padStart(2, '0')).join(''),
+      createdAt: now,
+      expiresAt: now + this.ttl,
+    };
+    this.messages.set(queued.id, queued);
+    return queued;
+  }
+
+  remove(id: string): boolean {
+    return this.messages.delete(id);
+  }
+
+  /**
+   * The message carried by a packet, if any
+   */
+  findByPn(peerId: string, pn: number): QueuedMessage | undefined {
+    for (const message of this.messages.values()) {
+      if (message.peerId === peerId && message.pn === pn) return message;
+    }
+    return undefined;
+  }
+
+  /**
+   * Messages whose TTL has run out
+   */
+  expired(now: number = Date.now()): QueuedMessage[] {
+    return this.getAll().filter((message) => message.expiresAt <= now);
+  }
+
+  getAll(): QueuedMessage[] {
+    return Array.from(this.messages.values());
+  }
+
+  get size(): number {
+    return this.messages.size;
+  }
+}
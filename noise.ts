@@ -0,0 +1,381 @@
+/**
+ * Noise handshakes - the XX and IK patterns of the Noise Protocol
+ * Framework (revision 34) on WebCrypto
+ *
+ * Suite: P-256 ECDH, AES-GCM and SHA-256. P-256 isn't one of the spec's
+ * DH functions, but it's what WebCrypto supports everywhere and what our
+ * identity keys are; public keys are 65-byte uncompressed points.
+ *
+ * XX is for first contact. IK is for peers whose static key we already
+ * hold: its first message is encrypted to that key, so it can carry early
+ * data (0-RTT). Both sides hash every message into the handshake
+ * transcript and every payload is AEAD-encrypted under it, so a changed
+ * or replayed message makes the next decryption fail - the transcript
+ * binding and key confirmation the plain INITIAL exchange lacked.
+ *
+ * MeshState carries the messages in INITIAL packets: [pattern/index:1]
+ * [Noise message], base32 (see packHandshakeMessage).
+ */
+
+import { arrayBufferToBase32, base32ToArrayBuffer } from './crypto';
+
+export const NOISE_PATTERNS = {
+  XX: 'XX',   // -> e; <- e, ee, s, es; -> s, se
+  IK: 'IK',   // <- s ...; -> e, es, s, ss; <- e, ee, se
+} as const;
+
+export type NoisePattern = (typeof NOISE_PATTERNS)[keyof typeof NOISE_PATTERNS];
+
+type Token = 'e' | 's' | 'ee' | 'es' | 'se' | 'ss';
+
+const HANDSHAKES: Record<NoisePattern, { responderPreMessage: boolean; messages: Token[][] }> = {
+  XX: { responderPreMessage: false, messages: [['e'], ['e', 'ee', 's', 'es'], ['s', 'se']] },
+  IK: { responderPreMessage: true, messages: [['e', 'es', 's', 'ss'], ['e', 'ee', 'se']] },
+};
+
+const PATTERN_CODES: Record<NoisePattern, number> = { XX: 0, IK: 1 };
+const PATTERNS_BY_CODE = Object.keys(PATTERN_CODES) as NoisePattern[];
+
+const SUITE = 'P256_AESGCM_SHA256';
+const HASH_LEN = 32;
+const PUBLIC_KEY_LEN = 65;
+const TAG_LEN = 16;
+const CURVE = { name: 'ECDH', namedCurve: 'P-256' } as const;
+
+/**
+ * Static or ephemeral keypair. The private key must allow deriveBits.
+ */
+export interface NoiseKeyPair {
+  privateKey: CryptoKey;
+  publicKey: Uint8Array;    // Raw uncompressed point
+}
+
+/**
+ * Handshake result: one key per direction, and the transcript hash
+ */
+export interface NoiseSplit {
+  initiatorKey: Uint8Array;   // Initiator -> responder
+  responderKey: Uint8Array;   // Responder -> initiator
+  handshakeHash: Uint8Array;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', concat(data)));
+}
+
+export async function hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await crypto.subtle.importKey('raw', concat(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, concat(data)));
+}
+
+/**
+ * The spec's HKDF: two outputs chained off the chaining key. It's RFC
+ * 5869 HKDF with empty info, so that RFC's test vectors check it.
+ */
+export async function hkdf(chainingKey: Uint8Array, inputKeyMaterial: Uint8Array): Promise<[Uint8Array, Uint8Array]> {
+  const tempKey = await hmacSha256(chainingKey, inputKeyMaterial);
+  const output1 = await hmacSha256(tempKey, new Uint8Array([1]));
+  const output2 = await hmacSha256(tempKey, concat(output1, new Uint8Array([2])));
+  return [output1, output2];
+}
+
+async function dh(privateKey: CryptoKey, publicKey: Uint8Array): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', concat(publicKey), CURVE, false, []);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: key }, privateKey, 256));
+}
+
+async function generateNoiseKeyPair(): Promise<NoiseKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(CURVE, false, ['deriveBits']);
+  return {
+    privateKey: keyPair.privateKey,
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+  };
+}
+
+/**
+ * AEAD key plus nonce counter
+ */
+class CipherState {
+  private key: CryptoKey | null = null;
+  private nonce = 0;
+
+  async initializeKey(key: Uint8Array): Promise<void> {
+    this.key = await crypto.subtle.importKey('raw', concat(key), 'AES-GCM', false, ['encrypt', 'decrypt']);
+    this.nonce = 0;
+  }
+
+  hasKey(): boolean {
+    return this.key !== null;
+  }
+
+  async encryptWithAd(ad: Uint8Array, plaintext: Uint8Array): Promise<Uint8Array> {
+    if (!this.key) return plaintext;
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: this.iv(), additionalData: concat(ad) },
+      this.key,
+      concat(plaintext)
+    );
+    this.nonce++;
+    return new Uint8Array(ciphertext);
+  }
+
+  async decryptWithAd(ad: Uint8Array, ciphertext: Uint8Array): Promise<Uint8Array> {
+    if (!this.key) return ciphertext;
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.iv(), additionalData: concat(ad) },
+      this.key,
+      concat(ciphertext)
+    );
+    this.nonce++;
+    return new Uint8Array(plaintext);
+  }
+
+  /**
+   * 32 zero bits, then the nonce as a big-endian 64-bit integer
+   */
+  private iv(): Uint8Array<ArrayBuffer> {
+    const iv = new Uint8Array(12);
+    const view = new DataView(iv.buffer);
+    view.setUint32(4, Math.floor(this.nonce / 2 ** 32));
+    view.setUint32(8, this.nonce >>> 0);
+    return iv;
+  }
+}
+
+/**
+ * Chaining key and transcript hash
+ */
+class SymmetricState {
+  readonly cipher = new CipherState();
+  private chainingKey: Uint8Array;
+  private hash: Uint8Array;
+
+  private constructor(hash: Uint8Array) {
+    this.hash = hash;
+    this.chainingKey = hash;
+  }
+
+  static async initialize(protocolName: string): Promise<SymmetricState> {
+    const name = new TextEncoder().encode(protocolName);
+    const hash = name.length <= HASH_LEN ? concat(name, new Uint8Array(HASH_LEN - name.length)) : await sha256(name);
+    return new SymmetricState(hash);
+  }
+
+  get handshakeHash(): Uint8Array {
+    return this.hash;
+  }
+
+  async mixKey(inputKeyMaterial: Uint8Array): Promise<void> {
+    const [chainingKey, tempKey] = await hkdf(this.chainingKey, inputKeyMaterial);
+    this.chainingKey = chainingKey;
+    await this.cipher.initializeKey(tempKey);
+  }
+
+  async mixHash(data: Uint8Array): Promise<void> {
+    this.hash = await sha256(concat(this.hash, data));
+  }
+
+  async encryptAndHash(plaintext: Uint8Array): Promise<Uint8Array> {
+    const ciphertext = await this.cipher.encryptWithAd(this.hash, plaintext);
+    await this.mixHash(ciphertext);
+    return ciphertext;
+  }
+
+  async decryptAndHash(ciphertext: Uint8Array): Promise<Uint8Array> {
+    const plaintext = await this.cipher.decryptWithAd(this.hash, ciphertext);
+    await this.mixHash(ciphertext);
+    return plaintext;
+  }
+
+  async split(): Promise<[Uint8Array, Uint8Array]> {
+    return hkdf(this.chainingKey, new Uint8Array(0));
+  }
+}
+
+/**
+ * One side of a Noise handshake
+ */
+export class NoiseHandshake {
+  readonly pattern: NoisePattern;
+  readonly initiator: boolean;
+  private symmetric: SymmetricState;
+  private s: NoiseKeyPair;
+  private e?: NoiseKeyPair;
+  private rs?: Uint8Array;
+  private re?: Uint8Array;
+  private index = 0;
+
+  private constructor(
+    pattern: NoisePattern,
+    initiator: boolean,
+    symmetric: SymmetricState,
+    s: NoiseKeyPair,
+    rs?: Uint8Array
+  ) {
+    this.pattern = pattern;
+    this.initiator = initiator;
+    this.symmetric = symmetric;
+    this.s = s;
+    this.rs = rs;
+  }
+
+  /**
+   * Start a handshake. IK initiators must pass the responder's static
+   * key; the prologue (e.g. both device IDs) must match on both sides.
+   */
+  static async initialize(
+    pattern: NoisePattern,
+    initiator: boolean,
+    prologue: Uint8Array,
+    s: NoiseKeyPair,
+    rs?: Uint8Array
+  ): Promise<NoiseHandshake> {
+    const symmetric = await SymmetricState.initialize(`Noise_${pattern}_${SUITE}`);
+    await symmetric.mixHash(prologue);
+
+    if (HANDSHAKES[pattern].responderPreMessage) {
+      const responderStatic = initiator ? rs : s.publicKey;
+      if (!responderStatic) throw new Error(`${pattern} initiator needs the responder's static key`);
+      await symmetric.mixHash(responderStatic);
+    }
+    return new NoiseHandshake(pattern, initiator, symmetric, s, rs);
+  }
+
+  /**
+   * Index of the next message (0 is the initiator's first)
+   */
+  get messageIndex(): number {
+    return this.index;
+  }
+
+  get isComplete(): boolean {
+    return this.index >= HANDSHAKES[this.pattern].messages.length;
+  }
+
+  /**
+   * The peer's static key, once a message has carried it
+   */
+  get remoteStaticKey(): Uint8Array | undefined {
+    return this.rs;
+  }
+
+  get handshakeHash(): Uint8Array {
+    return this.symmetric.handshakeHash;
+  }
+
+  async writeMessage(payload: Uint8Array = new Uint8Array(0)): Promise<Uint8Array> {
+    const tokens = this.nextTokens(true);
+    const parts: Uint8Array[] = [];
+
+    for (const token of tokens) {
+      if (token === 'e') {
+        this.e = await generateNoiseKeyPair();
+        parts.push(this.e.publicKey);
+        await this.symmetric.mixHash(this.e.publicKey);
+      } else if (token === 's') {
+        parts.push(await this.symmetric.encryptAndHash(this.s.publicKey));
+      } else {
+        await this.mixDh(token);
+      }
+    }
+
+    parts.push(await this.symmetric.encryptAndHash(payload));
+    this.index++;
+    return concat(...parts);
+  }
+
+  /**
+   * Process the peer's message and return its payload. Throws if any
+   * part fails to decrypt - the handshake can't continue after that.
+   */
+  async readMessage(message: Uint8Array): Promise<Uint8Array> {
+    const tokens = this.nextTokens(false);
+    let offset = 0;
+    const take = (length: number): Uint8Array => {
+      if (offset + length > message.length) throw new Error('Noise message too short');
+      offset += length;
+      return message.slice(offset - length, offset);
+    };
+
+    for (const token of tokens) {
+      if (token === 'e') {
+        this.re = take(PUBLIC_KEY_LEN);
+        await this.symmetric.mixHash(this.re);
+      } else if (token === 's') {
+        const length = this.symmetric.cipher.hasKey() ? PUBLIC_KEY_LEN + TAG_LEN : PUBLIC_KEY_LEN;
+        this.rs = await this.symmetric.decryptAndHash(take(length));
+      } else {
+        await this.mixDh(token);
+      }
+    }
+
+    const payload = await this.symmetric.decryptAndHash(message.slice(offset));
+    this.index++;
+    return payload;
+  }
+
+  /**
+   * Keys for after the handshake. The ephemeral keys are dropped, so
+   * they can't be recomputed from this object later.
+   */
+  async split(): Promise<NoiseSplit> {
+    if (!this.isComplete) throw new Error('Noise handshake not complete');
+    const [initiatorKey, responderKey] = await this.symmetric.split();
+    this.e = undefined;
+    this.re = undefined;
+    return { initiatorKey, responderKey, handshakeHash: this.symmetric.handshakeHash };
+  }
+
+  private nextTokens(writing: boolean): Token[] {
+    const messages = HANDSHAKES[this.pattern].messages;
+    if (this.index >= messages.length) throw new Error('Noise handshake already complete');
+    const initiatorTurn = this.index % 2 === 0;
+    if (initiatorTurn !== (this.initiator === writing)) {
+      throw new Error(`Not our turn to ${writing ? 'write' : 'read'} message ${this.index}`);
+    }
+    return messages[this.index];
+  }
+
+  private async mixDh(token: Token): Promise<void> {
+    // Initiator's view; the responder mirrors es/se
+    const [local, remote] = {
+      ee: [this.e, this.re],
+      es: this.initiator ? [this.e, this.rs] : [this.s, this.re],
+      se: this.initiator ? [this.s, this.re] : [this.e, this.rs],
+      ss: [this.s, this.rs],
+    }[token as 'ee' | 'es' | 'se' | 'ss'] as [NoiseKeyPair | undefined, Uint8Array | undefined];
+
+    if (!local || !remote) throw new Error(`Missing key for ${token}`);
+    await this.symmetric.mixKey(await dh(local.privateKey, remote));
+  }
+}
+
+/**
+ * Handshake message as carried in an INITIAL: base32([pattern << 4 |
+ * index] [message])
+ */
+export function packHandshakeMessage(pattern: NoisePattern, index: number, message: Uint8Array): string {
+  return arrayBufferToBase32(concat(new Uint8Array([(PATTERN_CODES[pattern] << 4) | index]), message).buffer);
+}
+
+export function unpackHandshakeMessage(packed: string): { pattern: NoisePattern; index: number; message: Uint8Array } | null {
+  try {
+    const bytes = new Uint8Array(base32ToArrayBuffer(packed));
+    const pattern = PATTERNS_BY_CODE[bytes[0] >> 4];
+    const index = bytes[0] & 0x0f;
+    if (!pattern || index >= HANDSHAKES[pattern].messages.length) return null;
+    return { pattern, index, message: bytes.slice(1) };
+  } catch {
+    return null;
+  }
+}
@@ -5,12 +5,48 @@
  * - Beacon: Q3|B|{id}|{name}  (~20 bytes)
  * - Initial: Q3|I|{src}|{dst}|{pn}|{key}|{name}|{acks}
  * - Data: Q3|D|{src}|{dst}|{pn}|{mt}|{payload}|{acks}
+ *   (mt=E carries base32(iv || AES-GCM ciphertext) as the payload,
+ *   mt=S a session ratchet message - see ratchet.ts)
  * - Ack: Q3|A|{src}|{dst}|{pn}|{acks}
+ *
+ * Device IDs are 8 hex chars unless a device chose a wider one (up to 32,
+ * see DEVICE_ID_LENGTH). Beacons carry the ID as is; INITIAL, DATA and
+ * ACK bodies write the addresses as :{src}:{dst}: when either isn't 8.
+ *
+ * On the wire v3 is the unmarked default. Other versions are prefixed
+ * with Q{version} (base36) and decoded through the codec registry, so
+ * one scanner reads every version it has a codec for. Beacons and
+ * INITIALs carry a capability bitmask ({id}:{caps} / a trailing |{caps}
+ * field) listing the versions the sender can read. Beacons may also
+ * advertise the largest frame their camera scans well ({id}:{caps}:{frame}).
+ * INITIALs end with the sender's session epoch (|{caps}|{epoch}), which
+ * keys the session MAC and tells a peer when we restarted, then the
+ * sender's ECDSA signing key and a Noise handshake message
+ * (|{caps}|{epoch}|{sk}|{hs}, see noise.ts), which seeds the chat ratchet.
+ *
+ * Free-text fields (key, name, payload) are escaped so they never contain
+ * a raw '|' or line break: \ -> \\, | -> \p, LF -> \n, CR -> \r.
+ *
+ * Every encoded packet ends with an integrity check:
+ * - {body}{crc}       crc = CRC-16/CCITT-FALSE of body, 4 uppercase hex
+ * - {body}.{mac}      mac = truncated HMAC-SHA256 of body, 8 uppercase hex
+ *   (used once a shared key exists; verified by MeshState, not here)
+ * BEACONs and INITIALs may be signed first: {body}*{sig}{crc}, sig = ECDSA
+ * P-256 signature of body, base32 (103 chars). MeshState checks it.
+ *
+ * Clients from before the integrity check (the published docs/chat.js)
+ * send v3 with no suffix and raw fields. A frame that fails its CRC but
+ * parses strictly as that older format is still read, as packet.legacy.
+ * We never write it: those clients can't read our packets.
+ *
+ * Packets too long for one scan go out as small F chunks or as rateless
+ * fountain frames (X...), see the end of this file.
  */
 
 export const PROTOCOL_VERSION = 3;
 export const PROTOCOL_PREFIX = 'Q';
 export const BROADCAST_ADDR = '*';
+export const BROADCAST_GROUP = 'FFFFFFFF';  // DATA dst for messages to every established peer
 
 // Packet types (single char)
 export const PACKET_TYPES = {
@@ -22,8 +58,15 @@ export const PACKET_TYPES = {
 
 // Message types for DATA packets
 export const MESSAGE_TYPES = {
-  CHAT: 'C',
+  CHAT: 'C',            // Plaintext chat (raw text payload)
+  ENCRYPTED_CHAT: 'E',  // Encrypted chat (compact base32 payload)
   OFFER: 'O',
+  ANNOUNCE: 'A',        // Reachable devices, for the routing table
+  ROUTE: 'R',           // Message relayed towards another device
+  GROUP_CHAT: 'G',      // Chat to a group, encrypted with the sender's group key and signed
+  GROUP_KEY: 'K',       // Sender's group key, encrypted with the pairwise key
+  RATCHET_CHAT: 'S',    // Chat encrypted with a per-message session ratchet key
+  HANDSHAKE: 'N',       // Final Noise handshake message (XX), after the INITIALs
 } as const;
 
 export type PacketType = (typeof PACKET_TYPES)[keyof typeof PACKET_TYPES];
@@ -46,10 +89,20 @@ export interface QRPacket {
   name?: string;      // Device name
   payload?: string;   // Message payload (already JSON for complex data)
   acks?: AckRange[];
+  mac?: string;       // Truncated HMAC over the encoded body (keyed peers only)
+  caps?: number;      // Readable versions bitmask (BEACON/INITIAL only)
+  frame?: number;     // Largest frame (chars) the sender scans reliably (BEACON only)
+  epoch?: string;     // Sender's session epoch, 8 hex chars (INITIAL only)
+  sk?: string;        // Sender's signing public key (INITIAL only)
+  hs?: string;        // Noise handshake message, base32 (INITIAL only)
+  sig?: string;       // ECDSA signature over the encoded body, base32 (BEACON/INITIAL only)
+  legacy?: boolean;   // Read from a pre-integrity v3 frame (no CRC, raw fields)
 }
 
 /**
- * Chat payload (embedded as JSON in payload field)
+ * Legacy chat payload (embedded as JSON in payload field)
+ *
+ * Superseded by MESSAGE_TYPES.ENCRYPTED_CHAT; still accepted on receive.
  */
 export interface ChatPayload {
   e?: boolean;   // encrypted?
@@ -67,6 +120,135 @@ export interface OfferPayload {
   ip?: string;   // IP:port
 }
 
+/**
+ * Announce payload - devices the sender reaches
+ */
+export interface AnnouncePayload {
+  r: [string, number, string][];   // [full device ID, hops, public key]
+}
+
+/**
+ * Route payload - a message relayed hop by hop. Only the destination can
+ * read c (ECDH between the origin's and destination's keys).
+ */
+export interface RoutePayload {
+  s: string;     // origin full device ID
+  d: string;     // destination full device ID
+  i: string;     // message ID (with s, for loop prevention)
+  t: number;     // hops left (TTL)
+  k: string;     // origin public key
+  c: string;     // base32(iv || AES-GCM ciphertext) of the chat text
+}
+
+/**
+ * Group key payload - a member's sender key, sent to each other member
+ * encrypted with the pairwise shared key
+ */
+export interface GroupKeyPayload {
+  g: string;     // group ID
+  n?: string;    // group name
+  k: string;     // sender key (base64 raw AES key)
+  m: string[];   // members as the sender knows them
+}
+
+// Integrity suffix
+const CRC_LENGTH = 4;
+const MAC_LENGTH = 8;
+const MAC_SEPARATOR = '.';
+const MAC_SUFFIX = /\.([0-9A-F]{8})$/;
+const SIGNATURE_LENGTH = 103;
+const SIGNATURE_SEPARATOR = '*';
+const SIGNATURE_SUFFIX = /\*([A-Z2-7]{103})$/;
+
+const ESCAPES: Record<string, string> = { '\\': '\\', '|': 'p', '\n': 'n', '\r': 'r' };
+const UNESCAPES: Record<string, string> = { '\\': '\\', p: '|', n: '\n', r: '\r' };
+
+/**
+ * Escape a free-text field so it can sit between '|' separators
+ */
+function escapeField(value: string | undefined): string {
+  return (value || '').replace(/[\\|\n\r]/g, (c) => `\\${ESCAPES[c]}`);
+}
+
+/**
+ * Inverse of escapeField (empty fields decode to undefined)
+ */
+function unescapeField(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return value.replace(/\\([\s\S]?)/g, (_, c: string) => UNESCAPES[c] ?? c);
+}
+
+const BEACON_PATTERN = /^((?:[0-9A-F]{2}){4,16})(?::([0-9A-F]*)(?::([0-9A-F]+))?)?$/;
+
+// src and dst: two 8-char IDs back to back, or :{src}:{dst}: when either
+// is another length (wider device IDs)
+const WIDE_ADDRESSES = /^:((?:[0-9A-F]{2}){4,16}):((?:[0-9A-F]{2}){4,16}|\*):/;
+
+function encodeAddresses(packet: QRPacket): string {
+  return packet.src.length === 8 && packet.dst.length === 8 ? `${packet.src}${packet.dst}` : `:${packet.src}:${packet.dst}:`;
+}
+
+/**
+ * Split the addresses off a body (after the type char)
+ */
+function decodeAddresses(data: string): { src: string; dst: string; rest: string } {
+  const wide = data.match(WIDE_ADDRESSES);
+  if (wide) return { src: wide[1], dst: wide[2], rest: data.slice(wide[0].length) };
+  return { src: data.slice(0, 8), dst: data.slice(8, 16), rest: data.slice(16) };
+}
+
+function encodeHex(value: number): string {
+  return value.toString(16).toUpperCase();
+}
+
+function decodeHex(value: string | undefined): number | undefined {
+  if (!value || !/^[0-9A-F]+$/.test(value)) return undefined;
+  return parseInt(value, 16);
+}
+
+/**
+ * Decode failure reasons
+ */
+export const DECODE_ERRORS = {
+  CHECKSUM: 'checksum',       // CRC mismatch - misread or corrupted frame
+  MALFORMED: 'malformed',     // Integrity check passed but the body doesn't parse
+  UNKNOWN_TYPE: 'unknown_type',
+  UNSUPPORTED_VERSION: 'unsupported_version',  // Marker for a version we have no codec for
+} as const;
+
+export type DecodeErrorCode = (typeof DECODE_ERRORS)[keyof typeof DECODE_ERRORS];
+
+export interface DecodeError {
+  code: DecodeErrorCode;
+  message: string;
+  version?: number;   // Wire version, for UNSUPPORTED_VERSION
+}
+
+export type DecodeResult =
+  | { ok: true; packet: QRPacket }
+  | { ok: false; error: DecodeError };
+
+/**
+ * CRC-16/CCITT-FALSE
+ */
+export function crc16(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+function checksum(body: string): string {
+  return crc16(new TextEncoder().encode(body))
+    .toString(16)
+    .toUpperCase()
+    .padStart(CRC_LENGTH, '0');
+}
+
 /**
  * Encode ACK ranges compactly: "1-5,7,9-12"
  */
@@ -93,25 +275,52 @@ function decodeAcks(str: string): AckRange[] {
 }
 
 /**
- * Encode packet to compact string
+ * Encode packet to compact string, including its integrity suffix
  */
 export function encodePacket(packet: QRPacket): string {
+  const body = encodePacketBody(packet);
+  if (!body) return '';
+  if (packet.mac) return `${body}${MAC_SEPARATOR}${packet.mac}`;
+
+  const signed = packet.sig ? `${body}${SIGNATURE_SEPARATOR}${packet.sig}` : body;
+  return `${signed}${checksum(signed)}`;
+}
+
+/**
+ * Encode packet without the integrity suffix - the input to the MAC
+ */
+export function encodePacketBody(packet: QRPacket): string {
   switch (packet.t) {
     case PACKET_TYPES.BEACON:
-      // Just the 8-char uppercase device ID - smallest possible!
-      return packet.src;
+      // Just the uppercase device ID (8 chars by default) - smallest possible!
+      // {id}[:{caps}[:{frame}]]
+      if (packet.frame !== undefined) {
+        return `${packet.src}:${packet.caps !== undefined ? encodeHex(packet.caps) : ''}:${encodeHex(packet.frame)}`;
+      }
+      return packet.caps !== undefined ? `${packet.src}:${encodeHex(packet.caps)}` : packet.src;
 
-    case PACKET_TYPES.INITIAL:
-      // I{src}{dst}{pn}|{key}|{name}|{acks}
-      return `I${packet.src}${packet.dst}${packet.pn}|${packet.key || ''}|${packet.name || ''}|${encodeAcks(packet.acks || [])}`;
+    case PACKET_TYPES.INITIAL: {
+      // I{src}{dst}{pn}|{key}|{name}|{acks}[|{caps}[|{epoch}[|{sk}[|{hs}]]]]
+      const body = `I${encodeAddresses(packet)}${packet.pn}|${escapeField(packet.key)}|${escapeField(packet.name)}|${encodeAcks(packet.acks || [])}`;
+      if (packet.hs !== undefined) {
+        return `${body}|${packet.caps !== undefined ? encodeHex(packet.caps) : ''}|${packet.epoch ?? ''}|${escapeField(packet.sk)}|${packet.hs}`;
+      }
+      if (packet.sk !== undefined) {
+        return `${body}|${packet.caps !== undefined ? encodeHex(packet.caps) : ''}|${packet.epoch ?? ''}|${escapeField(packet.sk)}`;
+      }
+      if (packet.epoch !== undefined) {
+        return `${body}|${packet.caps !== undefined ? encodeHex(packet.caps) : ''}|${packet.epoch}`;
+      }
+      return packet.caps !== undefined ? `${body}|${encodeHex(packet.caps)}` : body;
+    }
 
     case PACKET_TYPES.DATA:
       // D{src}{dst}{pn}{mt}|{payload}|{acks}
-      return `D${packet.src}${packet.dst}${packet.pn}${packet.mt || ''}|${packet.payload || ''}|${encodeAcks(packet.acks || [])}`;
+      return `D${encodeAddresses(packet)}${packet.pn}${packet.mt || ''}|${escapeField(packet.payload)}|${encodeAcks(packet.acks || [])}`;
 
     case PACKET_TYPES.ACK:
       // A{src}{dst}{pn}|{acks}
-      return `A${packet.src}${packet.dst}${packet.pn}|${encodeAcks(packet.acks || [])}`;
+      return `A${encodeAddresses(packet)}${packet.pn}|${encodeAcks(packet.acks || [])}`;
 
     default:
       return '';
@@ -119,29 +328,119 @@ export function encodePacket(packet: QRPacket): string {
 }
 
 /**
- * Decode packet from compact string
+ * Decode packet from compact string. Returns null for anything that
+ * fails its integrity check or doesn't parse - see tryDecodePacket.
  */
 export function decodePacket(data: string): QRPacket | null {
+  const result = tryDecodePacket(data);
+  return result.ok ? result.packet : null;
+}
+
+/**
+ * Decode packet, reporting why it was rejected. A MAC or signature is
+ * only split off here (into packet.mac / packet.sig); checking it needs
+ * the peer's key.
+ */
+export function tryDecodePacket(data: string): DecodeResult {
+  const macMatch = data.match(MAC_SUFFIX);
+  let body: string;
+  let mac: string | undefined;
+
+  if (macMatch) {
+    mac = macMatch[1];
+    body = data.slice(0, -(MAC_LENGTH + 1));
+  } else {
+    body = data.slice(0, -CRC_LENGTH);
+    if (data.length <= CRC_LENGTH || checksum(body) !== data.slice(-CRC_LENGTH)) {
+      const legacy = decodeLegacyPacket(data);
+      if (legacy) return { ok: true, packet: legacy };
+      return { ok: false, error: { code: DECODE_ERRORS.CHECKSUM, message: 'Checksum mismatch' } };
+    }
+  }
+
+  const sigMatch = mac ? null : body.match(SIGNATURE_SUFFIX);
+  if (sigMatch) body = body.slice(0, -(SIGNATURE_LENGTH + 1));
+
+  if (!BEACON_PATTERN.test(body) && !Object.values(PACKET_TYPES).includes(body[0] as PacketType)) {
+    return { ok: false, error: { code: DECODE_ERRORS.UNKNOWN_TYPE, message: `Unknown packet type: ${body[0]}` } };
+  }
+
+  const packet = decodePacketBody(body);
+  if (!packet || !Number.isInteger(packet.pn)) {
+    return { ok: false, error: { code: DECODE_ERRORS.MALFORMED, message: 'Malformed packet' } };
+  }
+
+  if (mac) packet.mac = mac;
+  if (sigMatch) packet.sig = sigMatch[1];
+  return { ok: true, packet };
+}
+
+// Pre-integrity v3: 8-char IDs, raw fields, exactly the old field counts
+const LEGACY_BEACON = /^[0-9A-F]{8}$/;
+const LEGACY_PACKET = /^([IDA])([0-9A-F]{8})([0-9A-F]{8})(\d+)([A-Z]?)\|([\s\S]*)$/;
+const LEGACY_ACKS = /^(?:\d+(?:-\d+)?(?:,\d+(?:-\d+)?)*)?$/;
+
+/**
+ * Read a frame from a client that predates the integrity suffix, or null
+ * if it isn't strictly in that format
+ */
+function decodeLegacyPacket(data: string): QRPacket | null {
+  if (LEGACY_BEACON.test(data)) {
+    return { v: PROTOCOL_VERSION, t: PACKET_TYPES.BEACON, src: data, dst: BROADCAST_ADDR, pn: 0, legacy: true };
+  }
+
+  const match = data.match(LEGACY_PACKET);
+  if (!match) return null;
+  const [, type, src, dst, pn, mt, rest] = match;
+  const parts = rest.split('|');
+  const fields = { I: 3, D: 2, A: 1 }[type as 'I' | 'D' | 'A'];
+  if (parts.length !== fields || (type !== 'D' && mt !== '') || !LEGACY_ACKS.test(parts[fields - 1])) {
+    return null;
+  }
+
+  const packet: QRPacket = {
+    v: PROTOCOL_VERSION,
+    t: type as PacketType,
+    src,
+    dst,
+    pn: Number(pn),
+    acks: decodeAcks(parts[fields - 1]),
+    legacy: true,
+  };
+  if (type === 'I') {
+    packet.key = parts[0] || undefined;
+    packet.name = parts[1] || undefined;
+  } else if (type === 'D') {
+    packet.mt = (mt || undefined) as MessageType | undefined;
+    packet.payload = parts[0] || undefined;
+  }
+  return packet;
+}
+
+function decodePacketBody(data: string): QRPacket | null {
   try {
-    // Beacon: just 8 uppercase hex chars (no prefix)
-    if (/^[0-9A-F]{8}$/.test(data)) {
-      return {
+    // Beacon: the uppercase hex device ID (no prefix), optionally :{caps}[:{frame}]
+    const beacon = data.match(BEACON_PATTERN);
+    if (beacon) {
+      const packet: QRPacket = {
         v: PROTOCOL_VERSION,
         t: PACKET_TYPES.BEACON,
-        src: data,
+        src: beacon[1],
         dst: BROADCAST_ADDR,
         pn: 0,
+        caps: decodeHex(beacon[2]),
       };
+      const frame = decodeHex(beacon[3]);
+      if (frame !== undefined) packet.frame = frame;
+      return packet;
     }
 
     const type = data[0] as PacketType;
 
     switch (type) {
       case PACKET_TYPES.INITIAL: {
-        // I{src:8}{dst:8}{pn}|{key}|{name}|{acks}
-        const src = data.slice(1, 9);
-        const dst = data.slice(9, 17);
-        const rest = data.slice(17);
+        // I{src}{dst}{pn}|{key}|{name}|{acks}[|{caps}[|{epoch}[|{sk}[|{hs}]]]]
+        const { src, dst, rest } = decodeAddresses(data.slice(1));
         const pnEnd = rest.indexOf('|');
         const pn = Number(rest.slice(0, pnEnd));
         const parts = rest.slice(pnEnd + 1).split('|');
@@ -151,17 +450,19 @@ export function decodePacket(data: string): QRPacket | null {
           src,
           dst,
           pn,
-          key: parts[0] || undefined,
-          name: parts[1] || undefined,
+          key: unescapeField(parts[0]),
+          name: unescapeField(parts[1]),
           acks: decodeAcks(parts[2]),
+          caps: decodeHex(parts[3]),
+          epoch: parts[4] && /^[0-9A-F]{8}$/.test(parts[4]) ? parts[4] : undefined,
+          sk: unescapeField(parts[5]),
+          hs: parts[6] && /^[A-Z2-7]+$/.test(parts[6]) ? parts[6] : undefined,
         };
       }
 
       case PACKET_TYPES.DATA: {
-        // D{src:8}{dst:8}{pn}{mt:1}|{payload}|{acks}
-        const src = data.slice(1, 9);
-        const dst = data.slice(9, 17);
-        const rest = data.slice(17);
+        // D{src}{dst}{pn}{mt:1}|{payload}|{acks}
+        const { src, dst, rest } = decodeAddresses(data.slice(1));
         const pipeIdx = rest.indexOf('|');
         const pnAndMt = rest.slice(0, pipeIdx);
         // mt is single char at end if present
@@ -175,16 +476,14 @@ export function decodePacket(data: string): QRPacket | null {
           dst,
           pn,
           mt,
-          payload: parts[0] || undefined,
+          payload: unescapeField(parts[0]),
           acks: decodeAcks(parts[1]),
         };
       }
 
       case PACKET_TYPES.ACK: {
-        // A{src:8}{dst:8}{pn}|{acks}
-        const src = data.slice(1, 9);
-        const dst = data.slice(9, 17);
-        const rest = data.slice(17);
+        // A{src}{dst}{pn}|{acks}
+        const { src, dst, rest } = decodeAddresses(data.slice(1));
         const pipeIdx = rest.indexOf('|');
         const pn = Number(rest.slice(0, pipeIdx));
         const acks = decodeAcks(rest.slice(pipeIdx + 1));
@@ -207,6 +506,118 @@ export function decodePacket(data: string): QRPacket | null {
   }
 }
 
+// ============================================================
+// VERSIONS - codec registry, wire marker and capabilities
+// ============================================================
+
+/**
+ * Wire codec for one protocol version. encode/decode handle the frame
+ * after the Q{version} marker.
+ */
+export interface PacketCodec {
+  version: number;
+  encode(packet: QRPacket): string;
+  decode(data: string): DecodeResult;
+}
+
+const codecs: Map<number, PacketCodec> = new Map();
+const FRAME_TERMINATOR = '~';
+
+export function registerCodec(codec: PacketCodec): void {
+  codecs.set(codec.version, codec);
+}
+
+export function getCodec(version: number): PacketCodec | undefined {
+  return codecs.get(version);
+}
+
+/**
+ * Versions with a registered codec, ascending
+ */
+export function getSupportedVersions(): number[] {
+  return Array.from(codecs.keys()).sort((a, b) => a - b);
+}
+
+/**
+ * Capability bitmask: bit n = protocol version PROTOCOL_VERSION + n
+ */
+export function versionsToCapabilities(versions: number[]): number {
+  return versions
+    .filter((version) => version >= PROTOCOL_VERSION)
+    .reduce((caps, version) => caps | (1 << (version - PROTOCOL_VERSION)), 0);
+}
+
+export function capabilitiesToVersions(caps: number): number[] {
+  const versions: number[] = [];
+  for (let bit = 0; bit < 31; bit++) {
+    if (caps & (1 << bit)) versions.push(PROTOCOL_VERSION + bit);
+  }
+  return versions;
+}
+
+/**
+ * Highest version both sides can read. Peers that never sent a
+ * capability field are assumed to speak v3 only.
+ */
+export function negotiateVersion(ours: number[], theirCaps?: number): number {
+  if (theirCaps === undefined) return PROTOCOL_VERSION;
+  const theirs = capabilitiesToVersions(theirCaps);
+  const common = ours.filter((version) => theirs.includes(version));
+  return common.length > 0 ? Math.max(...common) : PROTOCOL_VERSION;
+}
+
+/**
+ * Encode packet for the wire in the given version. v3 stays unmarked.
+ */
+export function encodeFrame(packet: QRPacket, version: number = PROTOCOL_VERSION): string {
+  if (version === PROTOCOL_VERSION) return encodePacket(packet);
+
+  const codec = codecs.get(version);
+  if (!codec) {
+    throw new Error(`No codec registered for protocol version ${version}`);
+  }
+  const frame = `${PROTOCOL_PREFIX}${version.toString(36).toUpperCase()}${codec.encode(packet)}`;
+  // Chunk padding and copy/paste strip trailing spaces - protect them
+  return frame.endsWith(' ') ? frame + FRAME_TERMINATOR : frame;
+}
+
+/**
+ * Decode a frame of any registered version
+ */
+export function decodeFrame(data: string): DecodeResult {
+  // JSON-era packets predate the compact format entirely
+  if (data.startsWith('{')) {
+    let version = PROTOCOL_VERSION - 1;
+    try {
+      version = Number(JSON.parse(data).v) || version;
+    } catch { }
+    return {
+      ok: false,
+      error: { code: DECODE_ERRORS.UNSUPPORTED_VERSION, message: `Unsupported JSON-era packet (v${version})`, version },
+    };
+  }
+
+  if (data[0] !== PROTOCOL_PREFIX) {
+    return tryDecodePacket(data);
+  }
+
+  const version = parseInt(data[1], 36);
+  const codec = codecs.get(version);
+  if (!codec) {
+    return {
+      ok: false,
+      error: { code: DECODE_ERRORS.UNSUPPORTED_VERSION, message: `Unsupported protocol version: ${data[1]}`, version },
+    };
+  }
+
+  const end = data.endsWith(` ${FRAME_TERMINATOR}`) ? -1 : undefined;
+  const result = codec.decode(data.slice(2, end));
+  if (result.ok) result.packet.v = version;
+  return result;
+}
+
+registerCodec({ version: PROTOCOL_VERSION, encode: encodePacket, decode: tryDecodePacket });
+
 /**
  * Check if packet is for us (or broadcast)
  */
@@ -395,11 +806,82 @@ export function parseChatPayload(packet: QRPacket): ChatPayload | null {
 }
 
 // ============================================================
-// CHUNKING - Split large packets into 8-char chunks for reliable QR scanning
+// BASE45 - RFC 9285, every char is valid in QR alphanumeric mode
 // ============================================================
 
-const MAX_CHUNK_SIZE = 8;
-const CHUNK_DATA_SIZE = 4; // F + stream + index + flags + 4 data chars = 8
+const BASE45_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+export function encodeBase45(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    let n = bytes[i] * 256 + bytes[i + 1];
+    for (let j = 0; j < 3; j++) {
+      out += BASE45_ALPHABET[n % 45];
+      n = Math.floor(n / 45);
+    }
+  }
+  if (bytes.length % 2 === 1) {
+    const n = bytes[bytes.length - 1];
+    out += BASE45_ALPHABET[n % 45] + BASE45_ALPHABET[Math.floor(n / 45)];
+  }
+  return out;
+}
+
+export function decodeBase45(text: string): Uint8Array {
+  if (text.length % 3 === 1) {
+    throw new Error('Invalid base45 length');
+  }
+
+  const values = Array.from(text, (char) => {
+    const value = BASE45_ALPHABET.indexOf(char);
+    if (value === -1) throw new Error(`Invalid base45 character: ${char}`);
+    return value;
+  });
+
+  const out: number[] = [];
+  for (let i = 0; i < values.length; i += 3) {
+    if (i + 2 < values.length) {
+      const n = values[i] + values[i + 1] * 45 + values[i + 2] * 45 * 45;
+      if (n > 0xffff) throw new Error('Invalid base45 triplet');
+      out.push(n >> 8, n & 0xff);
+    } else {
+      const n = values[i] + values[i + 1] * 45;
+      if (n > 0xff) throw new Error('Invalid base45 pair');
+      out.push(n);
+    }
+  }
+  return new Uint8Array(out);
+}
+
+// ============================================================
+// CHUNKING - Split large packets into small chunks for reliable QR scanning
+// ============================================================
+//
+// Chunk: F{W}{stream}{index}{count}{size}{up to size data chars}
+// W is the width of the four base36 fields ('G' = 1, 'H' = 2, ...; never
+// hex, so a chunk can't be mistaken for a beacon). The payload is the
+// encoded packet plus a CRC-16 of it, checked after reassembly.
+
+const CHUNK_PREFIX = 'F';
+const CHUNK_FRAME_SIZE = 10;   // 4 data chars - worst-case cameras
+const CHUNK_WIDTH_OFFSET = 15; // Width 1 -> 'G'
+// The widest unsigned beacon - a 32-char ID, caps and frame size (hex) plus
+// CRC - still goes out whole, so discovery never waits on reassembly
+const MAX_UNCHUNKED_SIZE = 32 + 1 + 2 + 1 + 4 + 4;
+const CHUNK_HEADER = /^F([G-Z])/;
+
+export interface Chunk {
+  streamId: number;
+  index: number;
+  count: number;
+  size: number;   // Data chars per chunk (the last may be shorter)
+  data: string;
+}
+
+export interface ChunkAssemblerOptions {
+  maxAge?: number;      // ms without a new chunk before a partial stream is dropped
+  maxStreams?: number;  // Partial streams kept at once; the stalest is evicted
+}
 
 /**
  * Encode a number to base36 char (0-9, A-Z)
@@ -420,114 +902,530 @@ function fromBase36(c: string): number {
 }
 
 /**
- * Split an encoded packet into 8-char chunks
- * Returns array of chunk strings, or just the original if <= 8 chars
+ * Split an encoded packet into chunks of at most frameSize chars
+ * Returns array of chunk strings, or just the original if beacon-sized
  */
-export function chunkPacket(encoded: string, streamId: number = 0): string[] {
-  // If already 8 chars or less, return as-is (beacon format)
-  if (encoded.length <= MAX_CHUNK_SIZE) {
+export function chunkPacket(encoded: string, streamId: number = 0, frameSize: number = CHUNK_FRAME_SIZE): string[] {
+  // Short enough to send as-is (beacon format)
+  if (encoded.length <= MAX_UNCHUNKED_SIZE) {
     return [encoded];
   }
 
-  const chunks: string[] = [];
-  const totalChunks = Math.ceil(encoded.length / CHUNK_DATA_SIZE);
-  const streamChar = toBase36(streamId % 36);
+  const payload = encoded + checksum(encoded);
 
-  for (let i = 0; i < totalChunks; i++) {
-    const start = i * CHUNK_DATA_SIZE;
-    const data = encoded.slice(start, start + CHUNK_DATA_SIZE).padEnd(CHUNK_DATA_SIZE, ' ');
-    const isLast = i === totalChunks - 1;
-    const indexChar = toBase36(i);
-    const flagChar = isLast ? 'L' : 'M'; // L=last, M=more
+  // Widen the fields until they hold the chunk count and size
+  let width = 1;
+  let size: number;
+  let count: number;
+  for (; ; width++) {
+    size = Math.min(payload.length, Math.max(1, frameSize - 2 - 4 * width));
+    count = Math.ceil(payload.length / size);
+    if (Math.max(count, size) < 36 ** width) break;
+  }
+
+  const field = (n: number) => n.toString(36).toUpperCase().padStart(width, '0');
+  // The stream ID wraps at the field width; stale streams expire on the receiver
+  const header = CHUNK_PREFIX + toBase36(CHUNK_WIDTH_OFFSET + width) + field(streamId % 36 ** width);
 
-    chunks.push(`F${streamChar}${indexChar}${flagChar}${data}`);
+  const chunks: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const data = payload.slice(i * size, (i + 1) * size);
+    chunks.push(`${header}${field(i)}${field(count)}${field(size)}${data}`);
   }
 
   return chunks;
 }
 
 /**
- * Check if a string is a chunk (starts with 'F')
+ * Check if a string is a chunk (starts with 'F' and a width char)
  */
 export function isChunk(data: string): boolean {
-  return data.length === 8 && data[0] === 'F';
+  return parseChunk(data) !== null;
 }
 
 /**
  * Parse chunk metadata
  */
-export function parseChunk(data: string): { streamId: number; index: number; isLast: boolean; data: string } | null {
-  if (!isChunk(data)) return null;
-  return {
-    streamId: fromBase36(data[1]),
-    index: fromBase36(data[2]),
-    isLast: data[3] === 'L',
-    data: data.slice(4).trimEnd(),
-  };
+export function parseChunk(data: string): Chunk | null {
+  const match = CHUNK_HEADER.exec(data);
+  if (!match) return null;
+
+  const width = fromBase36(match[1]) - CHUNK_WIDTH_OFFSET;
+  const fields = data.slice(2, 2 + 4 * width);
+  if (fields.length < 4 * width || !/^[0-9A-Z]+$/.test(fields)) return null;
+
+  const [streamId, index, count, size] = [0, 1, 2, 3]
+    .map((i) => parseInt(fields.slice(i * width, (i + 1) * width), 36));
+  let chunkData = data.slice(2 + 4 * width);
+  if (index >= count || size === 0 || chunkData.length > size) return null;
+
+  // Copy/paste strips trailing spaces; only the last chunk is short (and it
+  // ends in the hex CRC)
+  if (index < count - 1) {
+    chunkData = chunkData.padEnd(size, ' ');
+  } else if (chunkData.length === 0) {
+    return null;
+  }
+
+  return { streamId, index, count, size, data: chunkData };
 }
 
 /**
  * Chunk assembler - collects chunks and reassembles packets
  */
 export class ChunkAssembler {
-  private streams: Map<number, Map<number, string>> = new Map();
-  private streamComplete: Map<number, number> = new Map(); // streamId -> lastIndex
+  private streams: Map<number, { count: number; size: number; chunks: Map<number, string>; updatedAt: number }> = new Map();
+  private maxAge: number;
+  private maxStreams: number;
+
+  constructor(options: ChunkAssemblerOptions = {}) {
+    this.maxAge = options.maxAge ?? 30000;
+    this.maxStreams = options.maxStreams ?? 8;
+  }
 
   /**
-   * Add a chunk. Returns assembled packet if complete, null otherwise.
+   * Add a chunk. Returns assembled packet if complete (and its checksum
+   * matches), null otherwise.
    */
-  addChunk(data: string): string | null {
+  addChunk(data: string, now: number = Date.now()): string | null {
     const chunk = parseChunk(data);
     if (!chunk) return null;
 
-    // Get or create stream buffer
+    this.expire(now);
+
+    // A different layout under the same ID is a new packet
     let stream = this.streams.get(chunk.streamId);
-    if (!stream) {
-      stream = new Map();
-      this.streams.set(chunk.streamId, stream);
+    if (!stream || stream.count !== chunk.count || stream.size !== chunk.size) {
+      this.streams.delete(chunk.streamId);
+      this.evict();
+      stream = { count: chunk.count, size: chunk.size, chunks: new Map(), updatedAt: now };
     }
 
-    // Store chunk data
-    stream.set(chunk.index, chunk.data);
+    // Re-insert so the map stays ordered stalest-first
+    this.streams.delete(chunk.streamId);
+    this.streams.set(chunk.streamId, stream);
+    stream.chunks.set(chunk.index, chunk.data);
+    stream.updatedAt = now;
+
+    if (stream.chunks.size < stream.count) return null;
 
-    // Track if this is the last chunk
-    if (chunk.isLast) {
-      this.streamComplete.set(chunk.streamId, chunk.index);
+    this.streams.delete(chunk.streamId);
+    let assembled = '';
+    for (let i = 0; i < stream.count; i++) {
+      assembled += stream.chunks.get(i);
     }
 
-    // Check if stream is complete
-    const lastIndex = this.streamComplete.get(chunk.streamId);
-    if (lastIndex !== undefined) {
-      // Check if we have all chunks 0..lastIndex
-      let complete = true;
-      for (let i = 0; i <= lastIndex; i++) {
-        if (!stream.has(i)) {
-          complete = false;
-          break;
-        }
+    const body = assembled.slice(0, -CRC_LENGTH);
+    if (assembled.length <= CRC_LENGTH || checksum(body) !== assembled.slice(-CRC_LENGTH)) {
+      return null;
+    }
+    return body;
+  }
+
+  /**
+   * Clear all pending chunks
+   */
+  clear(): void {
+    this.streams.clear();
+  }
+
+  /**
+   * Drop streams that have had no new chunk for maxAge
+   */
+  private expire(now: number): void {
+    for (const [streamId, stream] of this.streams) {
+      if (now - stream.updatedAt > this.maxAge) this.streams.delete(streamId);
+    }
+  }
+
+  /**
+   * Make room for a new stream by dropping the stalest
+   */
+  private evict(): void {
+    while (this.streams.size >= this.maxStreams) {
+      const stalest = this.streams.keys().next().value as number;
+      this.streams.delete(stalest);
+    }
+  }
+}
+
+// ============================================================
+// FOUNTAIN CODING - Rateless frames, any ~K of them rebuild the packet
+// ============================================================
+//
+// LT code over K source blocks of the packet's UTF-8 bytes. Frame n XORs
+// a pseudo-random set of blocks chosen by seed n (robust soliton degree
+// distribution); seeds below K carry block n alone, so a clean scan needs
+// exactly K frames. The sender can keep generating fresh frames forever,
+// and the receiver does not care which ones it missed.
+//
+// Frame: X{stream}{K:2}{length:3}{seed:3}{base45 block}  (base36 header)
+
+const FOUNTAIN_PREFIX = 'X';
+const FOUNTAIN_HEADER_SIZE = 10;
+const FOUNTAIN_BLOCK_SIZE = 16;      // Bytes per block - a 34-char frame (QR v2 at L)
+const MAX_FOUNTAIN_BLOCKS = 36 ** 2 - 1;
+const MAX_FOUNTAIN_LENGTH = 36 ** 3 - 1;
+const FOUNTAIN_SEEDS = 36 ** 3;
+const FOUNTAIN_HEADER = /^X([0-9A-Z])([0-9A-Z]{2})([0-9A-Z]{3})([0-9A-Z]{3})/;
+
+export interface FountainOptions {
+  streamId?: number;    // Lets receivers tell consecutive packets apart (mod 36)
+  blockSize?: number;   // Bytes per block (default 16); grown for very long packets
+  frameSize?: number;   // Max chars per frame - sets blockSize to fit
+}
+
+export interface FountainFrame {
+  streamId: number;
+  blockCount: number;
+  length: number;
+  seed: number;
+  data: Uint8Array;
+}
+
+function toBase36Fixed(n: number, width: number): string {
+  return n.toString(36).toUpperCase().padStart(width, '0');
+}
+
+function base45Length(bytes: number): number {
+  return Math.floor(bytes / 2) * 3 + (bytes % 2) * 2;
+}
+
+/**
+ * Largest block whose frame fits in frameSize chars
+ */
+function blockSizeForFrame(frameSize: number): number {
+  const chars = frameSize - FOUNTAIN_HEADER_SIZE;
+  return Math.max(1, Math.floor(chars / 3) * 2 + (chars % 3 === 2 ? 1 : 0));
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so sender and receiver derive the same
+ * block set from a seed
+ */
+function seededRandom(seed: number): () => number {
+  let state = (seed * 0x9e3779b1) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const degreeTables: Map<number, number[]> = new Map();
+
+/**
+ * Cumulative robust soliton distribution for K blocks (c = 0.1, delta = 0.5)
+ */
+function degreeTable(k: number): number[] {
+  const cached = degreeTables.get(k);
+  if (cached) return cached;
+
+  const c = 0.1;
+  const delta = 0.5;
+  const r = Math.max(1, c * Math.log(k / delta) * Math.sqrt(k));
+  const spike = Math.min(k, Math.max(1, Math.floor(k / r)));
+
+  const weights: number[] = [];
+  for (let d = 1; d <= k; d++) {
+    const rho = d === 1 ? 1 / k : 1 / (d * (d - 1));
+    let tau = 0;
+    if (d < spike) tau = r / (d * k);
+    else if (d === spike) tau = Math.max(0, (r * Math.log(r / delta)) / k);
+    weights.push(rho + tau);
+  }
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let cumulative = 0;
+  const table = weights.map((w) => (cumulative += w / total));
+  degreeTables.set(k, table);
+  return table;
+}
+
+/**
+ * Source block indices XORed into the frame with this seed
+ */
+function fountainBlocks(seed: number, k: number): number[] {
+  if (seed < k) return [seed];
+
+  const random = seededRandom(seed);
+  const table = degreeTable(k);
+  const roll = random();
+  const degree = table.findIndex((p) => roll <= p) + 1 || k;
+
+  // Partial Fisher-Yates for `degree` distinct blocks
+  const indices = Array.from({ length: k }, (_, i) => i);
+  for (let i = 0; i < degree; i++) {
+    const j = i + Math.floor(random() * (k - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, degree);
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array): void {
+  for (let i = 0; i < target.length; i++) target[i] ^= source[i];
+}
+
+/**
+ * Check if a string is a fountain frame (starts with 'X')
+ */
+export function isFountainFrame(data: string): boolean {
+  return data[0] === FOUNTAIN_PREFIX && FOUNTAIN_HEADER.test(data);
+}
+
+/**
+ * Parse a fountain frame, or null if malformed
+ */
+export function parseFountainFrame(data: string): FountainFrame | null {
+  const match = FOUNTAIN_HEADER.exec(data);
+  if (!match) return null;
+
+  const streamId = parseInt(match[1], 36);
+  const blockCount = parseInt(match[2], 36);
+  const length = parseInt(match[3], 36);
+  const seed = parseInt(match[4], 36);
+  if (blockCount === 0 || blockCount > length) return null;
+
+  // Copy/paste strips trailing spaces; the block length is implied by the header
+  const expected = base45Length(Math.ceil(length / blockCount));
+  const text = data.slice(FOUNTAIN_HEADER_SIZE);
+  if (text.length > expected) return null;
+
+  try {
+    return { streamId, blockCount, length, seed, data: decodeBase45(text.padEnd(expected, ' ')) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fountain encoder - an endless stream of frames for one encoded packet.
+ * Beacon-sized packets are not coded: every frame is the packet itself.
+ */
+export class FountainEncoder {
+  readonly blockCount: number;
+  readonly rateless: boolean;
+  private encoded: string;
+  private streamChar: string;
+  private blocks: Uint8Array[] = [];
+  private length: number;
+  private nextSeed: number = 0;
+
+  constructor(encoded: string, options: FountainOptions = {}) {
+    const bytes = new TextEncoder().encode(encoded);
+    if (bytes.length > MAX_FOUNTAIN_LENGTH) {
+      throw new Error(`Packet too large for fountain coding: ${bytes.length} bytes`);
+    }
+
+    this.encoded = encoded;
+    this.length = bytes.length;
+    this.streamChar = toBase36((options.streamId ?? 0) % 36);
+    this.rateless = encoded.length > MAX_UNCHUNKED_SIZE;
+
+    const preferred = options.frameSize !== undefined
+      ? blockSizeForFrame(options.frameSize)
+      : options.blockSize ?? FOUNTAIN_BLOCK_SIZE;
+    const blockSize = Math.max(preferred, Math.ceil(bytes.length / MAX_FOUNTAIN_BLOCKS));
+    this.blockCount = this.rateless ? Math.ceil(bytes.length / blockSize) : 1;
+
+    // Even out the blocks so the receiver can derive their size from K and length
+    const size = Math.ceil(bytes.length / this.blockCount);
+    for (let i = 0; i < this.blockCount; i++) {
+      const block = new Uint8Array(size);
+      block.set(bytes.subarray(i * size, (i + 1) * size));
+      this.blocks.push(block);
+    }
+  }
+
+  /**
+   * Frame for a given seed
+   */
+  frame(seed: number): string {
+    if (!this.rateless) return this.encoded;
+
+    seed %= FOUNTAIN_SEEDS;
+    const data = new Uint8Array(this.blocks[0].length);
+    fountainBlocks(seed, this.blockCount).forEach((index) => xorInto(data, this.blocks[index]));
+
+    return FOUNTAIN_PREFIX
+      + this.streamChar
+      + toBase36Fixed(this.blockCount, 2)
+      + toBase36Fixed(this.length, 3)
+      + toBase36Fixed(seed, 3)
+      + encodeBase45(data);
+  }
+
+  /**
+   * Next frame in sequence (systematic blocks first, then coded ones)
+   */
+  nextFrame(): string {
+    return this.frame(this.nextSeed++);
+  }
+}
+
+export interface FountainDecoderOptions {
+  maxAge?: number;      // ms without a new frame before a partial stream is dropped
+  maxStreams?: number;  // Partial streams kept at once; the stalest is evicted
+}
+
+interface FountainStream {
+  streamId: number;
+  blockCount: number;
+  length: number;
+  seeds: Set<number>;
+  rows: Map<number, { coefficients: Uint8Array; data: Uint8Array }>; // pivot block -> row
+  updatedAt: number;
+}
+
+/**
+ * Fountain decoder - Gaussian elimination over GF(2), kept in reduced row
+ * echelon form so each frame is folded in as it arrives. Returns the
+ * packet once K independent frames are in.
+ *
+ * The stream ID is only one base36 char, so streams are keyed by ID, K and
+ * length together: a new packet that reuses an ID starts its own stream
+ * instead of clobbering (or being mixed into) a partial one. Like
+ * ChunkAssembler, partial streams expire after maxAge and at most
+ * maxStreams are kept.
+ */
+export class FountainDecoder {
+  private streams: Map<string, FountainStream> = new Map();
+  private maxAge: number;
+  private maxStreams: number;
+
+  constructor(options: FountainDecoderOptions = {}) {
+    this.maxAge = options.maxAge ?? 30000;
+    this.maxStreams = options.maxStreams ?? 8;
+  }
+
+  /**
+   * Add a frame. Returns the decoded packet if complete, null otherwise.
+   */
+  addFrame(data: string, now: number = Date.now()): string | null {
+    const frame = parseFountainFrame(data);
+    if (!frame) return null;
+
+    this.expire(now);
+
+    const key = `${frame.streamId}:${frame.blockCount}:${frame.length}`;
+    let stream = this.streams.get(key);
+    if (!stream) {
+      this.evict();
+      stream = {
+        streamId: frame.streamId,
+        blockCount: frame.blockCount,
+        length: frame.length,
+        seeds: new Set(),
+        rows: new Map(),
+        updatedAt: now,
+      };
+    }
+
+    // Re-insert so the map stays ordered stalest-first
+    this.streams.delete(key);
+    this.streams.set(key, stream);
+    stream.updatedAt = now;
+
+    if (stream.seeds.has(frame.seed)) return null;
+    stream.seeds.add(frame.seed);
+
+    const coefficients = new Uint8Array(stream.blockCount);
+    fountainBlocks(frame.seed, stream.blockCount).forEach((index) => (coefficients[index] = 1));
+    const row = { coefficients, data: frame.data };
+
+    // Eliminate known pivots; what is left either adds a pivot or was redundant
+    stream.rows.forEach((pivotRow, pivot) => {
+      if (coefficients[pivot]) {
+        xorInto(coefficients, pivotRow.coefficients);
+        xorInto(row.data, pivotRow.data);
       }
+    });
 
-      if (complete) {
-        // Assemble packet
-        let assembled = '';
-        for (let i = 0; i <= lastIndex; i++) {
-          assembled += stream.get(i);
-        }
-        // Clear this stream
-        this.streams.delete(chunk.streamId);
-        this.streamComplete.delete(chunk.streamId);
-        return assembled.trimEnd();
+    const pivot = coefficients.indexOf(1);
+    if (pivot === -1) return null;
+
+    stream.rows.forEach((other) => {
+      if (other.coefficients[pivot]) {
+        xorInto(other.coefficients, coefficients);
+        xorInto(other.data, row.data);
       }
+    });
+    stream.rows.set(pivot, row);
+
+    if (stream.rows.size < stream.blockCount) return null;
+
+    // Every row is now a single source block
+    const bytes = new Uint8Array(stream.blockCount * frame.data.length);
+    for (let i = 0; i < stream.blockCount; i++) {
+      bytes.set(stream.rows.get(i)!.data, i * frame.data.length);
     }
+    this.streams.delete(key);
+    return new TextDecoder().decode(bytes.subarray(0, stream.length));
+  }
 
-    return null;
+  /**
+   * Decoding progress for the latest stream with this ID: independent
+   * frames held vs. needed
+   */
+  getProgress(streamId: number): { received: number; needed: number } | null {
+    const latest = Array.from(this.streams.values()).reverse().find((stream) => stream.streamId === streamId);
+    return latest ? { received: latest.rows.size, needed: latest.blockCount } : null;
   }
 
   /**
-   * Clear all pending chunks
+   * Clear all partially decoded streams
    */
   clear(): void {
     this.streams.clear();
-    this.streamComplete.clear();
   }
+
+  /**
+   * Drop streams that have had no new frame for maxAge
+   */
+  private expire(now: number): void {
+    for (const [key, stream] of this.streams) {
+      if (now - stream.updatedAt > this.maxAge) this.streams.delete(key);
+    }
+  }
+
+  /**
+   * Make room for a new stream by dropping the stalest
+   */
+  private evict(): void {
+    while (this.streams.size >= this.maxStreams) {
+      const stalest = this.streams.keys().next().value as string;
+      this.streams.delete(stalest);
+    }
+  }
+}
+
+// ============================================================
+// VERIFICATION - out-of-band key check, shown as its own QR code
+// ============================================================
+//
+// V{fingerprint}{crc}: the full SHA-256 fingerprint of a public key
+// (64 hex chars, the device ID is its first 8). Scanning a peer's
+// verification code straight off its screen proves the key we hold is
+// the one the device in front of us uses.
+
+const VERIFICATION_PATTERN = /^V([0-9A-F]{64})([0-9A-F]{4})$/;
+
+export function encodeVerificationCode(fingerprint: string): string {
+  const body = `V${fingerprint}`;
+  return `${body}${checksum(body)}`;
+}
+
+export function isVerificationCode(data: string): boolean {
+  return VERIFICATION_PATTERN.test(data);
+}
+
+/**
+ * Fingerprint from a verification code, or null if it's malformed
+ */
+export function parseVerificationCode(data: string): string | null {
+  const match = data.match(VERIFICATION_PATTERN);
+  if (!match || checksum(`V${match[1]}`) !== match[2]) return null;
+  return match[1];
 }
@@ -0,0 +1,192 @@
+/**
+ * QR Transport - QR code display + camera scan as a Transport
+ *
+ * Renders outgoing packets to a canvas and feeds camera scans back as
+ * raw frames. Long packets are shown as a cycle of small frames for
+ * reliable scanning: an endless run of fountain frames (any ~K of which
+ * rebuild the packet), or fixed chunks (F...). Frame size and error
+ * correction can change per send (see LinkQuality).
+ */
+
+import QRCode from 'qrcode';
+import { chunkPacket, FountainEncoder } from './protocol';
+import { QRScanner, type VideoConstraints } from './scanner';
+import type { Transport, TransportReceiveCallback, TransportSendOptions } from './transport';
+import type { ErrorCorrectionLevel } from './link-quality';
+
+export interface QRTransportOptions {
+  canvas: HTMLCanvasElement;
+  video?: HTMLVideoElement;       // Started with start(); or call startCamera() later
+  videoConstraints?: VideoConstraints;
+  chunked?: boolean;              // Split packets into cycling frames (default true)
+  fountain?: boolean;             // Fountain-code them instead of fixed chunks (default true)
+  frameInterval?: number;         // ms between cycled frames
+  scanInterval?: number;
+  width?: number;
+  margin?: number;
+  errorCorrectionLevel?: ErrorCorrectionLevel;  // Default; MeshNode's linkQuality overrides per send
+  onFrameDisplayed?: (frame: string, index: number, total: number) => void; // total is K for fountain frames
+  onError?: (error: Error) => void;
+}
+
+/**
+ * QR code transport
+ */
+export class QRTransport implements Transport {
+  readonly name = 'qr';
+  private canvas: HTMLCanvasElement;
+  private video?: HTMLVideoElement;
+  private videoConstraints?: VideoConstraints;
+  private chunked: boolean;
+  private fountain: boolean;
+  private frameInterval: number;
+  private scanInterval: number;
+  private width: number;
+  private margin: number;
+  private errorCorrectionLevel: ErrorCorrectionLevel;
+  private onFrameDisplayed?: (frame: string, index: number, total: number) => void;
+  private onError?: (error: Error) => void;
+  private callbacks: Set<TransportReceiveCallback> = new Set();
+  private scanner: QRScanner | null = null;
+
+  // Display state
+  private currentData: string | null = null;
+  private currentFrameSize: number | undefined;
+  private frameAt: (index: number) => string = () => '';
+  private frameCount: number = 0;    // Frames per cycle, or K for fountain frames
+  private frameIndex: number = 0;
+  private rateless: boolean = false;
+  private frameLevel: ErrorCorrectionLevel = 'L';
+  private frameCycle: ReturnType<typeof setInterval> | null = null;
+  private streamIdCounter: number = 0;
+
+  constructor(options: QRTransportOptions) {
+    this.canvas = options.canvas;
+    this.video = options.video;
+    this.videoConstraints = options.videoConstraints;
+    this.chunked = options.chunked ?? true;
+    this.fountain = options.fountain ?? true;
+    this.frameInterval = options.frameInterval ?? 150;
+    this.scanInterval = options.scanInterval ?? 100;
+    this.width = options.width ?? 400;
+    this.margin = options.margin ?? 1;
+    this.errorCorrectionLevel = options.errorCorrectionLevel ?? 'L';
+    this.onFrameDisplayed = options.onFrameDisplayed;
+    this.onError = options.onError;
+  }
+
+  async start(): Promise<void> {
+    if (this.video) {
+      await this.startCamera(this.video);
+    }
+  }
+
+  stop(): void {
+    this.stopFrameCycle();
+    this.scanner?.stop();
+    this.scanner = null;
+    this.currentData = null;
+  }
+
+  /**
+   * Start scanning with a camera (can be called after start())
+   */
+  async startCamera(video: HTMLVideoElement): Promise<void> {
+    if (this.scanner) return;
+    this.video = video;
+
+    const scanner = new QRScanner({
+      onScan: (result) => this.callbacks.forEach((callback) => callback(result.data)),
+      onError: (error) => this.onError?.(error),
+      scanInterval: this.scanInterval,
+    });
+
+    this.scanner = scanner;
+    try {
+      await scanner.start(video, this.videoConstraints);
+    } catch (e) {
+      this.scanner = null;
+      throw e;
+    }
+  }
+
+  getScanner(): QRScanner | null {
+    return this.scanner;
+  }
+
+  onReceive(callback: TransportReceiveCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  async send(data: string, options: TransportSendOptions = {}): Promise<void> {
+    // Already on screen as asked - the display itself is the retransmission.
+    // A new frame size or ECC level (link quality moved) redraws it.
+    const level = options.errorCorrectionLevel ?? this.errorCorrectionLevel;
+    if (data === this.currentData && options.frameSize === this.currentFrameSize && level === this.frameLevel) return;
+    this.currentData = data;
+    this.currentFrameSize = options.frameSize;
+
+    this.frameLevel = level;
+    const cycle = this.prepareFrames(data, options.frameSize);
+    this.frameIndex = 0;
+    this.stopFrameCycle();
+
+    await this.displayCurrentFrame();
+
+    // Keep changing frames for more scan opportunities
+    if (cycle) {
+      this.frameCycle = setInterval(() => {
+        this.frameIndex = this.rateless ? this.frameIndex + 1 : (this.frameIndex + 1) % this.frameCount;
+        this.displayCurrentFrame();
+      }, this.frameInterval);
+    }
+  }
+
+  /**
+   * Set up the frame source for a packet. Returns whether frames change.
+   */
+  private prepareFrames(data: string, frameSize?: number): boolean {
+    // A link good enough for the whole packet needs no splitting
+    const whole = !this.chunked || (frameSize !== undefined && data.length <= frameSize);
+
+    if (!whole && this.fountain) {
+      const encoder = new FountainEncoder(data, { streamId: this.streamIdCounter++, frameSize });
+      this.frameAt = (index) => encoder.frame(index);
+      this.frameCount = encoder.blockCount;
+      this.rateless = encoder.rateless;
+      return encoder.rateless;
+    }
+
+    const frames = whole ? [data] : chunkPacket(data, this.streamIdCounter++, frameSize);
+    this.frameAt = (index) => frames[index];
+    this.frameCount = frames.length;
+    this.rateless = false;
+    return frames.length > 1;
+  }
+
+  private stopFrameCycle(): void {
+    if (this.frameCycle !== null) {
+      clearInterval(this.frameCycle);
+      this.frameCycle = null;
+    }
+  }
+
+  private async displayCurrentFrame(): Promise<void> {
+    if (this.frameCount === 0) return;
+
+    const frame = this.frameAt(this.frameIndex);
+    try {
+      await QRCode.toCanvas(this.canvas, frame, {
+        width: this.width,
+        margin: this.margin,
+        errorCorrectionLevel: this.frameLevel,
+        color: { dark: '#000', light: '#fff' },
+      });
+      this.onFrameDisplayed?.(frame, this.frameIndex, this.frameCount);
+    } catch (e) {
+      console.error('QR generation failed:', e);
+      this.onError?.(e as Error);
+    }
+  }
+}
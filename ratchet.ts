@@ -0,0 +1,249 @@
+/**
+ * Session Ratchet - a fresh key for every chat message
+ *
+ * The Noise handshake in the INITIAL exchange gives two peers a session
+ * secret (see noise.ts). From it each side derives two hash chains, one
+ * per sending direction. Every message takes the next key off its chain
+ * and the chain moves on through HMAC, so the current state doesn't
+ * reveal keys already used: a device stolen later can't decrypt messages
+ * captured earlier. Keys for messages that arrive out of order (displays
+ * rotate packets, queued messages resume in any order) are kept until
+ * used, up to MAX_SKIPPED per chain.
+ *
+ * Message layout: base32([chain:2] [index:4] [iv:12] [AES-GCM ciphertext])
+ * The chain ID and index are authenticated as AES-GCM additional data.
+ */
+
+import { arrayBufferToBase32, base32ToArrayBuffer, arrayBufferToBase64, base64ToArrayBuffer } from './crypto';
+
+const CHAIN_INFO = 'qrmesh-chain';
+const CHAIN_ID_BYTES = 2;
+const INDEX_BYTES = 4;
+const IV_BYTES = 12;
+const AAD_BYTES = CHAIN_ID_BYTES + INDEX_BYTES;
+const HEADER_BYTES = AAD_BYTES + IV_BYTES;
+const MAX_SKIPPED = 256;
+const MAX_RECEIVE_CHAINS = 2;   // Current session, plus the previous one for stragglers
+
+interface ChainState {
+  id: string;       // 4 hex chars, sent with every message on the chain
+  key: string;      // Current chain key (base64)
+  index: number;    // Index of the next message key
+}
+
+interface ReceiveChainState extends ChainState {
+  skipped: [number, string][];  // [index, message key] not used yet
+}
+
+/**
+ * Serializable ratchet state, persisted with the peer
+ */
+export interface RatchetState {
+  session: string;              // Handshake the chains were derived from (transcript hash prefix)
+  send: ChainState;
+  receive: ReceiveChainState[]; // Newest first
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0').toUpperCase()).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(hex.match(/../g)!.map((pair) => parseInt(pair, 16)));
+}
+
+async function hmac(key: ArrayBuffer, byte: number): Promise<ArrayBuffer> {
+  const hmacKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', hmacKey, new Uint8Array([byte]));
+}
+
+/**
+ * One chain step: the message key for the current index, and the next
+ * chain key
+ */
+async function step(chainKey: string): Promise<[ArrayBuffer, string]> {
+  const key = base64ToArrayBuffer(chainKey);
+  const [messageKey, next] = await Promise.all([hmac(key, 1), hmac(key, 2)]);
+  return [messageKey, arrayBufferToBase64(next)];
+}
+
+/**
+ * The chain a sender encrypts with, from the session secret
+ */
+async function deriveChain(secret: ArrayBuffer, senderId: string): Promise<ChainState> {
+  const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(`${CHAIN_INFO}|${senderId}`) },
+    hkdfKey,
+    (32 + CHAIN_ID_BYTES) * 8
+  ));
+  return {
+    id: toHex(bits.slice(32)),
+    key: arrayBufferToBase64(bits.slice(0, 32).buffer),
+    index: 0,
+  };
+}
+
+async function importMessageKey(messageKey: ArrayBuffer): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', messageKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Per-peer session ratchet
+ */
+export class SessionRatchet {
+  private state: RatchetState;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  private constructor(state: RatchetState) {
+    this.state = state;
+  }
+
+  /**
+   * Start a session. The previous session's receive chain is kept, so
+   * messages the peer sent before it finished the handshake still decrypt.
+   */
+  static async create(
+    secret: ArrayBuffer,
+    ourId: string,
+    peerId: string,
+    session: string,
+    previous?: SessionRatchet
+  ): Promise<SessionRatchet> {
+    const send = await deriveChain(secret, ourId);
+    const receive: ReceiveChainState = { ...(await deriveChain(secret, peerId)), skipped: [] };
+    const older = previous?.state.receive.slice(0, MAX_RECEIVE_CHAINS - 1) ?? [];
+    return new SessionRatchet({ session, send, receive: [receive, ...older] });
+  }
+
+  static fromState(state: RatchetState): SessionRatchet {
+    return new SessionRatchet(JSON.parse(JSON.stringify(state)) as RatchetState);
+  }
+
+  get session(): string {
+    return this.state.session;
+  }
+
+  /**
+   * ID of the chain we encrypt with in this session
+   */
+  get sendChain(): string {
+    return this.state.send.id;
+  }
+
+  /**
+   * ID of the chain a message was encrypted with, or undefined if it
+   * isn't a ratchet message
+   */
+  static chainOf(packed: string): string | undefined {
+    try {
+      const bytes = new Uint8Array(base32ToArrayBuffer(packed));
+      return bytes.length > HEADER_BYTES ? toHex(bytes.slice(0, CHAIN_ID_BYTES)) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * True if the message is on a chain we hold - false means its session
+   * hasn't reached us yet (or is long gone)
+   */
+  canDecrypt(packed: string): boolean {
+    try {
+      const id = toHex(new Uint8Array(base32ToArrayBuffer(packed)).slice(0, CHAIN_ID_BYTES));
+      return this.state.receive.some((chain) => chain.id === id);
+    } catch {
+      return false;
+    }
+  }
+
+  encrypt(plaintext: string): Promise<string> {
+    return this.serialize(async () => {
+      const chain = this.state.send;
+      const index = chain.index;
+      const [messageKey, next] = await step(chain.key);
+      chain.key = next;
+      chain.index = index + 1;
+
+      const header = new Uint8Array(AAD_BYTES);
+      header.set(fromHex(chain.id), 0);
+      new DataView(header.buffer).setUint32(CHAIN_ID_BYTES, index);
+
+      const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+      const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: header },
+        await importMessageKey(messageKey),
+        new TextEncoder().encode(plaintext)
+      ));
+
+      const packed = new Uint8Array(HEADER_BYTES + ciphertext.length);
+      packed.set(header, 0);
+      packed.set(iv, AAD_BYTES);
+      packed.set(ciphertext, HEADER_BYTES);
+      return arrayBufferToBase32(packed.buffer);
+    });
+  }
+
+  /**
+   * Decrypt a message. Returns null if its key was used already (the
+   * same message arrived twice); throws if it can't be decrypted. The
+   * chain only moves on once decryption succeeds.
+   */
+  decrypt(packed: string): Promise<string | null> {
+    return this.serialize(async () => {
+      const bytes = new Uint8Array(base32ToArrayBuffer(packed));
+      if (bytes.length <= HEADER_BYTES) throw new Error('Ratchet message too short');
+
+      const id = toHex(bytes.slice(0, CHAIN_ID_BYTES));
+      const index = new DataView(bytes.buffer).getUint32(CHAIN_ID_BYTES);
+      const chain = this.state.receive.find((candidate) => candidate.id === id);
+      if (!chain) throw new Error(`Unknown ratchet chain: ${id}`);
+
+      let messageKey: ArrayBuffer;
+      let key = chain.key;
+      let skipped = chain.skipped;
+
+      if (index < chain.index) {
+        const saved = skipped.find(([i]) => i === index);
+        if (!saved) return null;
+        messageKey = base64ToArrayBuffer(saved[1]);
+        skipped = skipped.filter(([i]) => i !== index);
+      } else {
+        if (index - chain.index > MAX_SKIPPED) throw new Error('Too many skipped messages');
+        skipped = [...skipped];
+        for (let i = chain.index; i < index; i++) {
+          const [skippedKey, next] = await step(key);
+          skipped.push([i, arrayBufferToBase64(skippedKey)]);
+          key = next;
+        }
+        [messageKey, key] = await step(key);
+      }
+
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: bytes.slice(AAD_BYTES, HEADER_BYTES), additionalData: bytes.slice(0, AAD_BYTES) },
+        await importMessageKey(messageKey),
+        bytes.slice(HEADER_BYTES)
+      );
+
+      chain.skipped = skipped.slice(-MAX_SKIPPED);
+      if (index >= chain.index) {
+        chain.key = key;
+        chain.index = index + 1;
+      }
+      return new TextDecoder().decode(plaintext);
+    });
+  }
+
+  toState(): RatchetState {
+    return JSON.parse(JSON.stringify(this.state)) as RatchetState;
+  }
+
+  /**
+   * Run chain updates one at a time - each depends on the last
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => { });
+    return result;
+  }
+}
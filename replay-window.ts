@@ -0,0 +1,85 @@
+/**
+ * Replay Window - sliding window of packet numbers seen from a peer
+ *
+ * Like IPsec's anti-replay window: pns within `size` of the highest seen
+ * are remembered individually, anything older is rejected outright. A
+ * filmed QR code replayed later is either in the window (a duplicate) or
+ * below it. Only pns that came with a valid session MAC move the window:
+ * unsealed packets (INITIALs, handshake and group messages, anything from
+ * a peer we share no key with) are checked against it and remembered
+ * apart, so a forged pn can't push it forward.
+ */
+
+import type { AckRange } from './protocol';
+
+export class ReplayWindow {
+  readonly size: number;
+  private highest: number = -1;
+  private seen: Set<number> = new Set();
+  private unsealed: Set<number> = new Set();
+
+  constructor(size: number = 1024) {
+    this.size = size;
+  }
+
+  /**
+   * Rebuild a window from received ACK ranges (e.g. after a restore)
+   */
+  static fromRanges(ranges: AckRange[], size?: number): ReplayWindow {
+    const window = new ReplayWindow(size);
+    const highest = ranges.reduce((max, [, end]) => Math.max(max, end), -1);
+    for (const [start, end] of ranges) {
+      for (let pn = Math.max(start, highest - window.size + 1); pn <= end; pn++) {
+        window.accept(pn);
+      }
+    }
+    return window;
+  }
+
+  /**
+   * True if pn was seen already or is too old to tell
+   */
+  isReplay(pn: number): boolean {
+    return pn <= this.highest - this.size || this.seen.has(pn);
+  }
+
+  /**
+   * Record pn. Returns false (and records nothing) for a replay.
+   */
+  accept(pn: number): boolean {
+    if (this.isReplay(pn)) return false;
+
+    this.seen.add(pn);
+    if (pn > this.highest) {
+      this.highest = pn;
+      for (const old of this.seen) {
+        if (old <= this.highest - this.size) this.seen.delete(old);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Record the pn of an unsealed packet. Nothing vouches for it, so it
+   * never moves the window; the latest `size` of them are kept to catch
+   * repeats. Returns false for a replay.
+   */
+  note(pn: number): boolean {
+    if (this.isReplay(pn) || this.unsealed.has(pn)) return false;
+
+    this.unsealed.add(pn);
+    if (this.unsealed.size > this.size) {
+      this.unsealed.delete(this.unsealed.values().next().value!);
+    }
+    return true;
+  }
+
+  /**
+   * Forget everything - the peer started a new session
+   */
+  reset(): void {
+    this.highest = -1;
+    this.seen.clear();
+    this.unsealed.clear();
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Routing - distance-vector table for multi-hop delivery
+ *
+ * Direct neighbours come from beacons and handshakes (1 hop). Established
+ * neighbours announce the devices they can reach, with public keys, so a
+ * device that never sees the destination can still encrypt to it and hand
+ * the message to the right neighbour. Announcements use split horizon
+ * (routes are never advertised back to their next hop) and stop at
+ * maxHops, which bounds count-to-infinity when a device disappears.
+ * Devices that aren't neighbours are named by their full ID.
+ */
+
+export interface Route {
+  destination: string;
+  nextHop: string;       // Neighbour to hand messages to (the destination itself if direct)
+  hops: number;
+  publicKey?: string;    // Destination's key, for end-to-end encryption
+  updatedAt: number;
+}
+
+/**
+ * One announced destination: [full device ID, hops from the announcer, public key]
+ */
+export type RouteAdvert = [string, number, string];
+
+export interface RoutingTableOptions {
+  maxHops?: number;      // Longest route kept or announced (default 8)
+  seenLimit?: number;    // Routed message IDs remembered for loop prevention (default 1000)
+}
+
+/**
+ * Routing table
+ */
+export class RoutingTable {
+  readonly maxHops: number;
+  private ownId: string;
+  private routes: Map<string, Route> = new Map();
+  private seen: Set<string> = new Set();
+  private seenLimit: number;
+
+  constructor(ownId: string, options: RoutingTableOptions = {}) {
+    this.ownId = ownId;
+    this.maxHops = options.maxHops ?? 8;
+    this.seenLimit = options.seenLimit ?? 1000;
+  }
+
+  /**
+   * Record a device we exchange packets with directly. Returns true if
+   * the table changed.
+   */
+  addNeighbor(id: string, publicKey?: string): boolean {
+    const existing = this.routes.get(id);
+    if (existing && existing.hops === 1 && (existing.publicKey === publicKey || !publicKey)) {
+      existing.updatedAt = Date.now();
+      return false;
+    }
+
+    this.routes.set(id, {
+      destination: id,
+      nextHop: id,
+      hops: 1,
+      publicKey: publicKey ?? existing?.publicKey,
+      updatedAt: Date.now(),
+    });
+    return true;
+  }
+
+  /**
+   * Merge a neighbour's announcement. Returns true if the table changed.
+   */
+  update(from: string, adverts: RouteAdvert[]): boolean {
+    let changed = false;
+
+    for (const [destination, hops, publicKey] of adverts) {
+      if (destination === this.ownId || destination === from) continue;
+      const total = hops + 1;
+      if (!Number.isInteger(hops) || hops < 1 || total > this.maxHops) continue;
+
+      const existing = this.routes.get(destination);
+      // Take shorter routes, and whatever our current next hop now says
+      if (existing && existing.nextHop !== from && existing.hops <= total) {
+        if (!existing.publicKey) {
+          existing.publicKey = publicKey;
+          changed = true;
+        }
+        continue;
+      }
+      if (existing?.nextHop === from && existing.hops === total && existing.publicKey === publicKey) {
+        existing.updatedAt = Date.now();
+        continue;
+      }
+
+      this.routes.set(destination, { destination, nextHop: from, hops: total, publicKey, updatedAt: Date.now() });
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Drop a neighbour and every route through it. Returns true if the
+   * table changed.
+   */
+  removeNeighbor(id: string): boolean {
+    let changed = false;
+    for (const [destination, route] of this.routes) {
+      if (route.nextHop === id) {
+        this.routes.delete(destination);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Route to a destination by its ID, or by a shorter prefix of it (a
+   * short ID) that only one destination has
+   */
+  lookup(destination: string): Route | undefined {
+    const exact = this.routes.get(destination);
+    if (exact) return exact;
+    const matches = this.matching(destination);
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  /**
+   * Routes whose destination starts with the ID - more than one means
+   * different devices share it
+   */
+  matching(prefix: string): Route[] {
+    return this.getRoutes().filter((route) => route.destination.startsWith(prefix));
+  }
+
+  getRoutes(): Route[] {
+    return Array.from(this.routes.values());
+  }
+
+  /**
+   * Routes to announce to a neighbour (split horizon, keyed routes only)
+   */
+  advertsFor(neighbor: string): RouteAdvert[] {
+    return this.getRoutes()
+      .filter((route) => route.publicKey && route.nextHop !== neighbor && route.destination !== neighbor)
+      .filter((route) => route.hops < this.maxHops)
+      .map((route) => [route.destination, route.hops, route.publicKey!]);
+  }
+
+  /**
+   * Remember a routed message. Returns false if it was already seen.
+   */
+  markSeen(origin: string, id: string): boolean {
+    const key = `${origin}:${id}`;
+    if (this.seen.has(key)) return false;
+
+    this.seen.add(key);
+    if (this.seen.size > this.seenLimit) {
+      // Sets iterate in insertion order - drop the oldest
+      this.seen.delete(this.seen.values().next().value as string);
+    }
+    return true;
+  }
+}
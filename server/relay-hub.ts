@@ -0,0 +1,302 @@
+/**
+ * Relay hub - WebSocket framing and device ID routing for the relay
+ *
+ * Forwards encoded packets between sockets by dst device ID. A socket is
+ * registered under every src it sends from (clients announce themselves
+ * with a beacon on connect), up to MAX_IDS_PER_CLIENT of them; beacons
+ * are forwarded to every other socket. Packets for unknown device IDs
+ * are dropped - the mesh retransmits.
+ *
+ * Routing is by exact ID. A full ID only falls back to the socket holding
+ * a shorter ID of it while no socket has sent from a full ID under that
+ * prefix, so a client that grabs a short ID can't collect the traffic of
+ * every device whose full ID starts with it.
+ *
+ * An ID stays with its socket until that socket closes: the relay can't
+ * tell who holds a key (only the peers' Noise handshake proves that), so
+ * packets from an ID another live socket holds are dropped rather than
+ * let any client take over someone else's traffic.
+ *
+ * No dependencies: implements just enough of RFC 6455 (text frames,
+ * ping/pong, close) for WebSocketTransport.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import { createHash } from 'node:crypto';
+import type { Duplex } from 'node:stream';
+import { decodeFrame, BROADCAST_ADDR } from '../protocol';
+import { DEVICE_ID_LENGTH, MAX_DEVICE_ID_LENGTH } from '../crypto';
+import '../binary-codec'; // Registers the v4 codec
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE = 64 * 1024;
+export const PING_INTERVAL = 30_000;
+const IDLE_TIMEOUT = 60_000;   // No frame (not even a pong) for this long: the socket is gone
+export const MAX_IDS_PER_CLIENT = 4;  // A device sends from its short and full ID
+
+const OPCODES = {
+  CONTINUATION: 0x0,
+  TEXT: 0x1,
+  BINARY: 0x2,
+  CLOSE: 0x8,
+  PING: 0x9,
+  PONG: 0xa,
+} as const;
+
+/**
+ * One connected client
+ */
+class RelayClient {
+  readonly ids: Set<string> = new Set();
+  private socket: Duplex;
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentBytes = 0;
+  private closed = false;
+  lastSeen = Date.now();
+
+  constructor(
+    socket: Duplex,
+    private onMessage: (client: RelayClient, text: string) => void,
+    private onClose: (client: RelayClient) => void
+  ) {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => this.handleData(chunk));
+    socket.on('close', () => this.close());
+    socket.on('error', () => this.close());
+  }
+
+  send(text: string): void {
+    this.write(OPCODES.TEXT, Buffer.from(text, 'utf8'));
+  }
+
+  ping(): void {
+    this.write(OPCODES.PING, Buffer.alloc(0));
+  }
+
+  close(code: number = 1000): void {
+    if (this.closed) return;
+    this.closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    this.write(OPCODES.CLOSE, payload, true);
+    this.socket.end();
+    this.onClose(this);
+  }
+
+  private write(opcode: number, payload: Buffer, force: boolean = false): void {
+    if (this.closed && !force) return;
+
+    // Server frames are never masked
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.lastSeen = Date.now();
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    while (!this.closed) {
+      const frame = this.readFrame();
+      if (!frame) return;
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  /**
+   * Take one complete frame off the buffer, or null if more data is needed
+   */
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+    if (this.buffer.length < 2) return null;
+
+    const fin = (this.buffer[0] & 0x80) !== 0;
+    const opcode = this.buffer[0] & 0x0f;
+    const masked = (this.buffer[1] & 0x80) !== 0;
+    let length = this.buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (this.buffer.length < 4) return null;
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) return null;
+      length = Number(this.buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    if (length > MAX_MESSAGE) {
+      this.close(1009);
+      return null;
+    }
+
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (this.buffer.length < offset + length) return null;
+
+    const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= this.buffer[maskOffset + (i % 4)];
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset + length);
+    return { fin, opcode, payload };
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    switch (opcode) {
+      case OPCODES.TEXT:
+      case OPCODES.BINARY:
+      case OPCODES.CONTINUATION: {
+        // Check the running total - don't wait for FIN to find out
+        this.fragmentBytes += payload.length;
+        if (this.fragmentBytes > MAX_MESSAGE) {
+          this.close(1009);
+          return;
+        }
+        this.fragments.push(payload);
+        if (!fin) return;
+        const message = Buffer.concat(this.fragments);
+        this.fragments = [];
+        this.fragmentBytes = 0;
+        this.onMessage(this, message.toString('utf8'));
+        break;
+      }
+      case OPCODES.PING:
+        this.write(OPCODES.PONG, payload);
+        break;
+      case OPCODES.CLOSE:
+        this.close();
+        break;
+    }
+  }
+}
+
+/**
+ * Relay state - device ID to client routing
+ */
+export class Relay {
+  private clients: Set<RelayClient> = new Set();
+  private routes: Map<string, RelayClient> = new Map();
+
+  /**
+   * Complete the WebSocket handshake for an upgrade request
+   */
+  accept(request: IncomingMessage, socket: Duplex): void {
+    const key = request.headers['sec-websocket-key'];
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      return;
+    }
+
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const client = new RelayClient(
+      socket,
+      (from, text) => this.route(from, text),
+      (closed) => this.remove(closed)
+    );
+    this.clients.add(client);
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Ping every client; close those silent past IDLE_TIMEOUT so their IDs
+   * free up for a reconnect
+   */
+  checkLiveness(): void {
+    const now = Date.now();
+    Array.from(this.clients).forEach((client) => {
+      if (now - client.lastSeen > IDLE_TIMEOUT) {
+        client.close(1001);
+      } else {
+        client.ping();
+      }
+    });
+  }
+
+  private route(from: RelayClient, text: string): void {
+    const result = decodeFrame(text);
+    if (!result.ok) return;
+    const packet = result.packet;
+
+    // Learn the sender's device ID - unless another live socket holds it,
+    // or this one already holds its share
+    const owner = this.routes.get(packet.src);
+    if (owner && owner !== from) return;
+    if (!owner) {
+      if (from.ids.size >= MAX_IDS_PER_CLIENT) return;
+      this.routes.set(packet.src, from);
+      from.ids.add(packet.src);
+    }
+
+    if (packet.dst === BROADCAST_ADDR) {
+      this.clients.forEach((client) => {
+        if (client !== from) client.send(text);
+      });
+      return;
+    }
+
+    const target = this.findRoute(packet.dst);
+    if (target && target !== from) {
+      target.send(text);
+    }
+  }
+
+  /**
+   * Client for a device ID. Peers address each other by full ID after
+   * the INITIALs - until a device sends from its full ID, fall back to
+   * the shorter ID it announced.
+   */
+  private findRoute(id: string): RelayClient | undefined {
+    const exact = this.routes.get(id);
+    if (exact || id.length < MAX_DEVICE_ID_LENGTH) return exact;
+
+    for (let length = id.length - 2; length >= DEVICE_ID_LENGTH; length -= 2) {
+      const prefix = id.slice(0, length);
+      const client = this.routes.get(prefix);
+      if (!client) continue;
+      // Another full ID under this prefix: the short ID isn't this device's
+      return this.hasFullId(prefix) ? undefined : client;
+    }
+    return undefined;
+  }
+
+  private hasFullId(prefix: string): boolean {
+    for (const id of this.routes.keys()) {
+      if (id.length === MAX_DEVICE_ID_LENGTH && id.startsWith(prefix)) return true;
+    }
+    return false;
+  }
+
+  private remove(client: RelayClient): void {
+    this.clients.delete(client);
+    client.ids.forEach((id) => {
+      if (this.routes.get(id) === client) this.routes.delete(id);
+    });
+  }
+}
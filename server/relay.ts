@@ -0,0 +1,27 @@
+/**
+ * QR Mesh Relay - reference WebSocket relay for Node
+ *
+ * Serves the relay hub (see relay-hub.ts) over HTTP upgrades and pings
+ * its clients.
+ *
+ * Usage: npm run relay (PORT and HOST env vars, default 0.0.0.0:8787)
+ */
+
+import { createServer } from 'node:http';
+import { Relay, PING_INTERVAL } from './relay-hub';
+
+const port = Number(process.env.PORT || 8787);
+const host = process.env.HOST || '0.0.0.0';
+const relay = new Relay();
+
+const server = createServer((_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end(`qrmesh relay - ${relay.getClientCount()} connected\n`);
+});
+
+server.on('upgrade', (request, socket) => relay.accept(request, socket));
+setInterval(() => relay.checkLiveness(), PING_INTERVAL);
+
+server.listen(port, host, () => {
+  console.log(`[relay] Listening on ws://${host}:${port}`);
+});
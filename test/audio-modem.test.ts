@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { modulate, simulateChannel, FSKDemodulator } from '../audio-modem';
+import { createChatPacket, encodePacket } from '../protocol';
+
+const PACKET = 'Q3|D|A1B2C3D4|E5F6A7B8|7|hello over the air|1A2B';
+
+function demodulate(samples: Float32Array, chunk = 4096): string[] {
+  const demodulator = new FSKDemodulator();
+  const frames: string[] = [];
+  for (let i = 0; i < samples.length; i += chunk) {
+    frames.push(...demodulator.push(samples.subarray(i, i + chunk)));
+  }
+  return frames;
+}
+
+test('clean channel round-trips a frame', () => {
+  assert.deepEqual(demodulate(modulate(PACKET)), [PACKET]);
+});
+
+test('noise, gain, delay and clock offset', () => {
+  const received = simulateChannel(modulate(PACKET), {
+    noise: 0.2,
+    gain: 0.6,
+    delay: 12345,
+    clockOffset: 3e-4,
+    seed: 7,
+  });
+  assert.deepEqual(demodulate(received), [PACKET]);
+});
+
+test('slow receiver clock', () => {
+  const received = simulateChannel(modulate(PACKET), { noise: 0.1, delay: 500, clockOffset: -3e-4, seed: 3 });
+  assert.deepEqual(demodulate(received), [PACKET]);
+});
+
+test('consecutive frames with silence between them', () => {
+  const packet = encodePacket(createChatPacket('A1B2C3D4', 'E5F6A7B8', 1, { p: 'ünïcode | text' }));
+  const gap = new Float32Array(2000);
+  const a = modulate(packet);
+  const b = modulate(PACKET);
+  const stream = new Float32Array(a.length + gap.length + b.length);
+  stream.set(a, 0);
+  stream.set(b, a.length + gap.length);
+  assert.deepEqual(demodulate(simulateChannel(stream, { noise: 0.15, delay: 800, seed: 11 }), 1000), [packet, PACKET]);
+});
+
+test('overwhelming noise yields no frame rather than a wrong one', () => {
+  const received = simulateChannel(modulate(PACKET), { noise: 3, seed: 5 });
+  const frames = demodulate(received);
+  assert.ok(frames.every((frame) => frame === PACKET));
+});
+
+test('simulateChannel is repeatable for a seed', () => {
+  const samples = modulate('abc');
+  assert.deepEqual(simulateChannel(samples, { noise: 0.3, seed: 9 }), simulateChannel(samples, { noise: 0.3, seed: 9 }));
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  encodeBase45,
+  decodeBase45,
+  encodeFrame,
+  decodeFrame,
+  createDataPacket,
+  createInitialPacket,
+  createBeaconPacket,
+  DECODE_ERRORS,
+  MESSAGE_TYPES,
+} from '../protocol';
+import {
+  encodePacketBinary,
+  decodePacketBinary,
+  encodePacketBase45,
+  packetSizeReport,
+  formatSizeReport,
+  BINARY_PROTOCOL_VERSION,
+} from '../binary-codec';
+import { arrayBufferToBase32, arrayBufferToBase64 } from '../crypto';
+
+const bytes = (length: number, seed: number = 1) => Uint8Array.from({ length }, (_, i) => (i * 31 + seed) & 0xff);
+
+test('base45 matches the RFC 9285 examples', () => {
+  const examples: [string, string][] = [
+    ['AB', 'BB8'],
+    ['Hello!!', '%69 VD92EX0'],
+    ['base-45', 'UJCLQE7W581'],
+    ['ietf!', 'QED8WEX0'],
+  ];
+  for (const [text, encoded] of examples) {
+    assert.equal(encodeBase45(new TextEncoder().encode(text)), encoded);
+    assert.equal(new TextDecoder().decode(decodeBase45(encoded)), text);
+  }
+});
+
+test('base45 rejects invalid input', () => {
+  assert.throws(() => decodeBase45('GGW'));   // 65535 + 1 overflows two bytes
+  assert.throws(() => decodeBase45('A'));     // Dangling char
+  assert.throws(() => decodeBase45('ab'));    // Outside the alphabet
+});
+
+test('ciphertext and keys travel as raw bytes', () => {
+  const ciphertext = arrayBufferToBase32(bytes(60).buffer as ArrayBuffer);
+  const data = createDataPacket('0123ABCD', '4567CDEF', 42, MESSAGE_TYPES.ENCRYPTED_CHAT, ciphertext, [[1, 5], [9, 9]]);
+  data.mac = '89ABCDEF';
+  const initial = createInitialPacket('0123ABCD', '4567CDEF', 1, arrayBufferToBase64(bytes(65).buffer as ArrayBuffer), 'alice');
+
+  for (const packet of [data, initial]) {
+    const binary = encodePacketBinary(packet);
+    const result = decodePacketBinary(binary);
+    assert.ok(result.ok);
+    assert.equal(result.packet.payload, packet.payload);
+    assert.equal(result.packet.key, packet.key);
+    assert.deepEqual(result.packet.acks ?? [], packet.acks ?? []);
+    assert.ok(binary.length < encodeFrame(packet).length, `${packet.t} is smaller as bytes`);
+  }
+});
+
+test('v4 frames carry the version marker and decode through decodeFrame', () => {
+  const packet = createDataPacket('0123ABCD', '4567CDEF', 7, MESSAGE_TYPES.CHAT, 'hi | there');
+  const frame = encodeFrame(packet, BINARY_PROTOCOL_VERSION);
+  assert.ok(frame.endsWith(encodePacketBase45(packet)));
+
+  const result = decodeFrame(frame);
+  assert.ok(result.ok);
+  assert.equal(result.packet.v, BINARY_PROTOCOL_VERSION);
+  assert.equal(result.packet.payload, 'hi | there');
+});
+
+test('damaged or truncated v4 packets are rejected', () => {
+  const binary = encodePacketBinary(createDataPacket('0123ABCD', '4567CDEF', 7, MESSAGE_TYPES.CHAT, 'hello'));
+
+  const flipped = binary.slice();
+  flipped[binary.length - 4] ^= 0x01;
+  const damaged = decodePacketBinary(flipped);
+  assert.ok(!damaged.ok);
+  assert.equal(damaged.error.code, DECODE_ERRORS.CHECKSUM);
+
+  const truncated = decodePacketBinary(binary.slice(0, 5));
+  assert.ok(!truncated.ok);
+});
+
+test('the size report compares every encoding', () => {
+  const reports = [
+    packetSizeReport(createBeaconPacket('0123ABCD')),
+    packetSizeReport(createDataPacket('0123ABCD', '4567CDEF', 7, MESSAGE_TYPES.CHAT, 'hello')),
+  ];
+  for (const report of reports) {
+    assert.ok(report.v3.length > 0 && report.v3.qrVersion >= 1);
+    assert.ok(report.v4Bytes.length > 0 && report.v4Bytes.qrVersion >= 1);
+    assert.ok(report.v4Base45.qrVersion >= 1);
+  }
+
+  const table = formatSizeReport(reports).split('\n');
+  assert.equal(table.length, 3);
+  assert.match(table[0], /^type\s+v3 text\s+v4 base45\s+v4 bytes$/);
+});
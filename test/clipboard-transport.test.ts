@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair } from '../crypto';
+import { MeshState, ConnectionState } from '../mesh';
+import { MeshNode } from '../transport';
+import { ClipboardTransport, splitFrames } from '../clipboard-transport';
+import { receivedTexts, sleep, waitFor } from './helpers';
+
+test('pasted text splits into one frame per non-empty line', () => {
+  assert.deepEqual(splitFrames('  ABC \r\n\n DEF\n\t\n'), ['ABC', 'DEF']);
+  assert.deepEqual(splitFrames(''), []);
+});
+
+test('paste hands every frame to the receivers', () => {
+  const clipboard = new ClipboardTransport();
+  const frames: string[] = [];
+  const unsubscribe = clipboard.onReceive((frame) => frames.push(frame));
+
+  assert.equal(clipboard.paste('ONE\nTWO\n'), 2);
+  unsubscribe();
+  clipboard.paste('THREE');
+  assert.deepEqual(frames, ['ONE', 'TWO']);
+});
+
+test('outgoing text follows what the node sends', () => {
+  const clipboard = new ClipboardTransport();
+  const texts: string[] = [];
+  clipboard.onOutgoing((text) => texts.push(text));
+
+  clipboard.send('FIRST');
+  clipboard.send('SECOND');
+  assert.deepEqual(texts, ['FIRST', 'SECOND']);
+  assert.equal(clipboard.getOutgoingText(), 'SECOND');
+  clipboard.stop();
+  assert.equal(clipboard.getOutgoingText(), '');
+});
+
+test('two meshes connect and chat by copy and paste alone', async () => {
+  const [keyA, keyB] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+  const a = new MeshState(keyA);
+  const b = new MeshState(keyB);
+  const clipA = new ClipboardTransport({ mesh: a });
+  const clipB = new ClipboardTransport({ mesh: b });
+  const options = { tickInterval: 20, minDisplayTime: 20 };
+  const nodeA = new MeshNode(a, [clipA], options);
+  const nodeB = new MeshNode(b, [clipB], options);
+  const texts = receivedTexts(b);
+
+  // The user carrying text between the two screens
+  const exchange = async () => {
+    clipB.paste(clipA.getOutgoingText());
+    await sleep(30);
+    clipA.paste(clipB.getOutgoingText());
+    await sleep(30);
+  };
+  const exchangeUntil = async (check: () => boolean) => {
+    for (let round = 0; round < 20 && !check(); round++) await exchange();
+    await waitFor(check, 100);
+  };
+
+  try {
+    await nodeA.start();
+    await nodeB.start();
+    await exchangeUntil(() => a.getPeer(b.deviceId) !== undefined);
+
+    a.connect(b.deviceId);
+    await exchangeUntil(() =>
+      a.getPeer(b.deviceId)?.state === ConnectionState.ESTABLISHED &&
+      b.getPeer(a.deviceId)?.state === ConnectionState.ESTABLISHED
+    );
+
+    await a.sendChat(b.deviceId, 'pasted | by hand');
+    await exchangeUntil(() => texts.includes('pasted | by hand'));
+  } finally {
+    nodeA.stop();
+    nodeB.stop();
+  }
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateGroupKey, encryptCompact, decryptCompact, base32ToArrayBuffer, arrayBufferToBase32 } from '../crypto';
+
+test('compact ciphertext round-trips and is QR alphanumeric', async () => {
+  const key = await generateGroupKey();
+  for (const text of ['', 'hi', 'pipes | and\nnewlines', '🙂 ünïcödé'.repeat(20)]) {
+    const packed = await encryptCompact(key, text);
+    assert.match(packed, /^[A-Z2-7]+$/);
+    assert.equal(await decryptCompact(key, packed), text);
+  }
+});
+
+test('compact ciphertext uses a fresh IV every time', async () => {
+  const key = await generateGroupKey();
+  assert.notEqual(await encryptCompact(key, 'same'), await encryptCompact(key, 'same'));
+});
+
+test('tampered or foreign compact ciphertext fails to decrypt', async () => {
+  const [key, other] = await Promise.all([generateGroupKey(), generateGroupKey()]);
+  const packed = await encryptCompact(key, 'secret');
+
+  const bytes = new Uint8Array(base32ToArrayBuffer(packed));
+  bytes[bytes.length - 1] ^= 1;
+  await assert.rejects(decryptCompact(key, arrayBufferToBase32(bytes.buffer)));
+  await assert.rejects(decryptCompact(other, packed));
+  await assert.rejects(decryptCompact(key, 'AAAA'), /too short/);
+});
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  generateKeyPair,
+  deviceIdFromPublicKey,
+  keyMatchesDeviceId,
+  shortDeviceId,
+  MAX_DEVICE_ID_LENGTH,
+} from '../crypto';
+import { MeshState, type MeshEvent } from '../mesh';
+import { createBeaconPacket, decodeFrame, MESSAGE_TYPES, PACKET_TYPES, type QRPacket } from '../protocol';
+import { connectedPair, receivedTexts, waitFor } from './helpers';
+
+type Collision = Extract<MeshEvent, { type: 'id_collision' }>;
+
+function collisions(mesh: MeshState): Collision[] {
+  const seen: Collision[] = [];
+  mesh.subscribe((event) => {
+    if (event.type === 'id_collision') seen.push(event);
+  });
+  return seen;
+}
+
+function wirePackets(sent: string[]): QRPacket[] {
+  return sent.flatMap((frame) => {
+    const result = decodeFrame(frame);
+    return result.ok ? [result.packet] : [];
+  });
+}
+
+test('a device ID is a fingerprint prefix of the chosen length', async () => {
+  const [wide, other] = await Promise.all([generateKeyPair(20), generateKeyPair()]);
+  assert.equal(wide.deviceId.length, 20);
+  assert.equal(await deviceIdFromPublicKey(wide.publicKeyRaw, 20), wide.deviceId);
+  assert.equal(shortDeviceId(wide.deviceId), wide.deviceId.slice(0, 8));
+
+  assert.ok(await keyMatchesDeviceId(wide.publicKeyRaw, shortDeviceId(wide.deviceId)));
+  assert.ok(!(await keyMatchesDeviceId(other.publicKeyRaw, wide.deviceId)));
+  assert.ok(!(await keyMatchesDeviceId(wide.publicKeyRaw, wide.deviceId.slice(0, 7))), 'not a device ID');
+});
+
+test('after the handshake, packets on the wire carry both full IDs', async () => {
+  const pair = await connectedPair();
+  try {
+    const texts = receivedTexts(pair.b);
+    await pair.a.sendChat(pair.b.deviceId, 'full IDs');
+    await waitFor(() => texts.includes('full IDs'));
+
+    const [fullA, fullB] = await Promise.all([pair.a, pair.b].map((mesh) => deviceIdFromPublicKey(mesh.publicKey, MAX_DEVICE_ID_LENGTH)));
+    const chat = wirePackets(pair.linkA.sent).find((packet) => packet.t === PACKET_TYPES.DATA && packet.mt === MESSAGE_TYPES.RATCHET_CHAT)!;
+    assert.deepEqual([chat.src, chat.dst], [fullA, fullB]);
+    const initial = wirePackets(pair.linkA.sent).find((packet) => packet.t === PACKET_TYPES.INITIAL)!;
+    assert.deepEqual([initial.src, initial.dst], [pair.a.deviceId, pair.b.deviceId], 'short until then');
+
+    // Still known by the ID it announced
+    assert.ok(pair.b.getChatHistory(pair.a.deviceId).some((m) => m.text === 'full IDs'));
+  } finally {
+    pair.stop();
+  }
+});
+
+test('two devices behind one short ID are reported', async () => {
+  const mesh = new MeshState(await generateKeyPair());
+  const seen = collisions(mesh);
+
+  await mesh.processBeacon(createBeaconPacket('A1B2C3D4'));
+  await mesh.processBeacon(createBeaconPacket('A1B2C3D4E5F60718'));
+  await mesh.processBeacon(createBeaconPacket('B1B2C3D4E5F60718'));
+
+  assert.equal(seen.length, 1);
+  assert.equal(seen[0].shortId, 'A1B2C3D4');
+  assert.deepEqual([seen[0].peer.id, seen[0].other?.id], ['A1B2C3D4', 'A1B2C3D4E5F60718']);
+});
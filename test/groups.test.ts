@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { connectedChain, connectedPair, receivedTexts, waitFor, sleep } from './helpers';
+
+test('group chat reaches every member and is acked per recipient', async () => {
+  const chain = await connectedChain();
+  try {
+    // B is the one device both A and C see
+    const { a, b, c } = chain;
+    const [textsA, textsC] = [receivedTexts(a), receivedTexts(c)];
+
+    const group = await b.createGroup([a.deviceId, c.deviceId], 'team');
+    await waitFor(() => a.getGroup(group.id) !== undefined && c.getGroup(group.id) !== undefined);
+    assert.equal(a.getGroup(group.id)!.name, 'team');
+    assert.ok(a.getGroup(group.id)!.members.has(c.deviceId), 'invited with the member list');
+
+    const pn = await b.sendGroupChat(group.id, 'hi team');
+    await waitFor(() => textsA.includes('hi team') && textsC.includes('hi team'));
+    await waitFor(() => {
+      const status = b.getRecipientStatus(pn);
+      return status[a.deviceId] === 'acked' && status[c.deviceId] === 'acked';
+    });
+    assert.ok(b.getDeliveryStatus(group.id).acked.includes(pn));
+  } finally {
+    chain.stop();
+  }
+});
+
+test('a removed member cannot read what is sent next', async () => {
+  const chain = await connectedChain();
+  try {
+    const { a, b, c } = chain;
+    const [textsA, textsC] = [receivedTexts(a), receivedTexts(c)];
+    const group = await b.createGroup([a.deviceId, c.deviceId]);
+    await waitFor(() => a.getGroup(group.id) !== undefined && c.getGroup(group.id) !== undefined);
+
+    await b.removeGroupMember(group.id, c.deviceId);
+    assert.ok(!b.getGroup(group.id)!.members.has(c.deviceId));
+
+    const pn = await b.sendGroupChat(group.id, 'without C');
+    await waitFor(() => textsA.includes('without C'));
+    await sleep(100);
+    assert.ok(!textsC.includes('without C'));
+    assert.deepEqual(Object.keys(b.getRecipientStatus(pn)), [a.deviceId]);
+  } finally {
+    chain.stop();
+  }
+});
+
+test('broadcast goes to every established peer', async () => {
+  const pair = await connectedPair();
+  try {
+    const texts = receivedTexts(pair.b);
+    await pair.a.broadcast('to everyone');
+    await waitFor(() => texts.includes('to everyone'));
+    const message = pair.b.getChatHistory().find((m) => m.text === 'to everyone')!;
+    assert.equal(message.encrypted, true);
+  } finally {
+    pair.stop();
+  }
+});
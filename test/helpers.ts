@@ -0,0 +1,151 @@
+import { generateKeyPair, type KeyPair } from '../crypto';
+import { MeshState, ConnectionState, type MeshConfig } from '../mesh';
+import { MeshNode, type Transport, type TransportReceiveCallback } from '../transport';
+
+/**
+ * In-memory transport: what one end sends, the other receives
+ */
+export class LoopTransport implements Transport {
+  readonly name: string;
+  peer?: LoopTransport;
+  sent: string[] = [];
+  blocked: boolean = false;   // Drop everything sent, as if the screen were covered
+  private callbacks: Set<TransportReceiveCallback> = new Set();
+
+  constructor(name: string = 'loop') {
+    this.name = name;
+  }
+
+  async start(): Promise<void> {}
+
+  stop(): void {}
+
+  onReceive(callback: TransportReceiveCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  send(data: string): void {
+    this.sent.push(data);
+    if (this.blocked) return;
+    const peer = this.peer;
+    setTimeout(() => peer?.callbacks.forEach((callback) => callback(data)), 1);
+  }
+}
+
+export function loopPair(name?: string): [LoopTransport, LoopTransport] {
+  const a = new LoopTransport(name);
+  const b = new LoopTransport(name);
+  a.peer = b;
+  b.peer = a;
+  return [a, b];
+}
+
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Poll until check passes, or fail after timeout ms
+ */
+export async function waitFor(check: () => boolean, timeout: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await sleep(10);
+  }
+}
+
+export interface MeshPair {
+  a: MeshState;
+  b: MeshState;
+  keyA: KeyPair;
+  keyB: KeyPair;
+  nodeA: MeshNode;
+  nodeB: MeshNode;
+  linkA: LoopTransport;
+  linkB: LoopTransport;
+  stop(): void;
+}
+
+/**
+ * Two meshes on a loop link with fast ticks, connected to each other
+ */
+export async function connectedPair(config: MeshConfig = {}): Promise<MeshPair> {
+  const [keyA, keyB] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+  const a = new MeshState(keyA, config);
+  const b = new MeshState(keyB, config);
+  const [linkA, linkB] = loopPair();
+  const options = { tickInterval: 20, minDisplayTime: 20, retransmitInterval: 200 };
+  const nodeA = new MeshNode(a, [linkA], options);
+  const nodeB = new MeshNode(b, [linkB], options);
+  await nodeA.start();
+  await nodeB.start();
+
+  // Beacons first: connect() needs the peer to be known
+  await waitFor(() => a.getPeer(b.deviceId) !== undefined);
+  a.connect(b.deviceId);
+  await waitFor(() =>
+    a.getPeer(b.deviceId)?.state === ConnectionState.ESTABLISHED &&
+    b.getPeer(a.deviceId)?.state === ConnectionState.ESTABLISHED
+  );
+
+  return {
+    a, b, keyA, keyB, nodeA, nodeB, linkA, linkB,
+    stop() {
+      nodeA.stop();
+      nodeB.stop();
+    },
+  };
+}
+
+/**
+ * Texts of the chats a mesh has received
+ */
+export function receivedTexts(mesh: MeshState): string[] {
+  const texts: string[] = [];
+  mesh.subscribe((event) => {
+    if (event.type === 'chat_message' && event.message.direction === 'received') texts.push(event.message.text);
+  });
+  return texts;
+}
+
+export interface MeshChain {
+  a: MeshState;
+  b: MeshState;
+  c: MeshState;
+  stop(): void;
+}
+
+/**
+ * Three meshes in a line, A - B - C: A and C only reach each other
+ * through B. Both links are connected and the routes announced.
+ */
+export async function connectedChain(config: MeshConfig = {}): Promise<MeshChain> {
+  const [keyA, keyB, keyC] = await Promise.all([generateKeyPair(), generateKeyPair(), generateKeyPair()]);
+  const a = new MeshState(keyA, config);
+  const b = new MeshState(keyB, config);
+  const c = new MeshState(keyC, config);
+  const [linkAB, linkBA] = loopPair();
+  const [linkBC, linkCB] = loopPair();
+  const options = { tickInterval: 20, minDisplayTime: 20, retransmitInterval: 200 };
+  const nodes = [
+    new MeshNode(a, [linkAB], options),
+    new MeshNode(b, [linkBA, linkBC], options),
+    new MeshNode(c, [linkCB], options),
+  ];
+  await Promise.all(nodes.map((node) => node.start()));
+
+  const established = (from: MeshState, to: MeshState) =>
+    from.getPeer(to.deviceId)?.state === ConnectionState.ESTABLISHED;
+  await waitFor(() => b.getPeer(a.deviceId) !== undefined && b.getPeer(c.deviceId) !== undefined);
+  b.connect(a.deviceId);
+  b.connect(c.deviceId);
+  await waitFor(() => established(a, b) && established(b, a) && established(b, c) && established(c, b));
+  await waitFor(() => a.routing.lookup(c.deviceId) !== undefined && c.routing.lookup(a.deviceId) !== undefined);
+
+  return {
+    a, b, c,
+    stop() {
+      nodes.forEach((node) => node.stop());
+    },
+  };
+}
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { exportIdentity, importIdentity, isIdentityBackup, createIdentityFrames } from '../identity';
+import {
+  generateKeyPair,
+  serializeKeyPair,
+  encryptKeyPair,
+  decryptKeyPair,
+  computeSignature,
+  verifySignature,
+  arrayBufferToBase32,
+  base32ToArrayBuffer,
+} from '../crypto';
+import { crc16, FountainDecoder } from '../protocol';
+
+// The fewest iterations accepted, to keep the tests quick
+const iterations = 100_000;
+
+/**
+ * A backup code with its header's iteration count replaced, and a valid
+ * checksum - what a crafted code looks like
+ */
+function withIterations(backup: string, count: number): string {
+  const bytes = new Uint8Array(base32ToArrayBuffer(backup.slice(1, -4)));
+  new DataView(bytes.buffer).setUint32(1, count);
+  const body = `K${arrayBufferToBase32(bytes.buffer)}`;
+  return body + crc16(new TextEncoder().encode(body)).toString(16).toUpperCase().padStart(4, '0');
+}
+
+test('an identity survives export and import', async () => {
+  const keyPair = await generateKeyPair();
+  const backup = await exportIdentity(keyPair, 'correct horse', { iterations });
+  assert.ok(isIdentityBackup(backup));
+
+  const imported = await importIdentity(backup, 'correct horse');
+  assert.equal(imported.deviceId, keyPair.deviceId);
+  assert.equal(imported.publicKeyRaw, keyPair.publicKeyRaw);
+  assert.equal(imported.signingKeyRaw, keyPair.signingKeyRaw);
+
+  const signature = await computeSignature(imported.signingKey, 'signed on the new device');
+  assert.ok(await verifySignature(keyPair.signingKeyRaw, 'signed on the new device', signature));
+});
+
+test('the code reassembles from fountain frames', async () => {
+  const backup = await exportIdentity(await generateKeyPair(), 'correct horse', { iterations });
+  const encoder = createIdentityFrames(backup);
+  const decoder = new FountainDecoder();
+
+  let decoded: string | null = null;
+  for (let i = 0; i < 200 && decoded === null; i++) decoded = decoder.addFrame(encoder.nextFrame());
+  assert.equal(decoded, backup);
+});
+
+test('a wrong passphrase or a damaged code is refused', async () => {
+  const backup = await exportIdentity(await generateKeyPair(), 'correct horse', { iterations });
+
+  await assert.rejects(importIdentity(backup, 'battery staple'), /Wrong passphrase/);
+  const damaged = backup.slice(0, 40) + (backup[40] === 'A' ? 'B' : 'A') + backup.slice(41);
+  await assert.rejects(importIdentity(damaged, 'correct horse'), /Invalid identity backup/);
+});
+
+test('iteration counts out of range are refused both ways', async () => {
+  const keyPair = await generateKeyPair();
+  await assert.rejects(exportIdentity(keyPair, 'correct horse', { iterations: 1000 }), /out of range/);
+
+  const backup = await exportIdentity(keyPair, 'correct horse', { iterations });
+  for (const count of [0, 99_999, 10_000_001]) {
+    await assert.rejects(importIdentity(withIterations(backup, count), 'correct horse'), /out of range/);
+  }
+
+  // Stored keypairs carry their count too
+  const encrypted = await encryptKeyPair(await serializeKeyPair(keyPair), 'correct horse', iterations);
+  await assert.rejects(decryptKeyPair({ ...encrypted, iterations: 4_000_000_000 }, 'correct horse'), /out of range/);
+  await assert.rejects(decryptKeyPair({ ...encrypted, iterations: 1 }, 'correct horse'), /out of range/);
+});
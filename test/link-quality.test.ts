@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LinkQuality } from '../link-quality';
+import { generateKeyPair } from '../crypto';
+import { MeshState } from '../mesh';
+import { MeshNode, type TransportSendOptions } from '../transport';
+import { createBeaconPacket } from '../protocol';
+import { LoopTransport, waitFor } from './helpers';
+
+test('frames grow with timely ACKs and halve on retransmission', () => {
+  const link = new LinkQuality({ initialFrameSize: 34, increment: 8, targetRtt: 1000 });
+
+  link.recordAck(500);
+  link.recordAck(500);
+  assert.equal(link.frameSize, 50);
+
+  // A slow ACK doesn't grow the frame
+  link.recordAck(5000);
+  assert.equal(link.frameSize, 50);
+
+  link.recordRetransmit();
+  assert.equal(link.frameSize, 25);
+});
+
+test('frame size stays within its bounds', () => {
+  const link = new LinkQuality({ minFrameSize: 12, maxFrameSize: 40, initialFrameSize: 500 });
+  assert.equal(link.frameSize, 40);
+
+  for (let i = 0; i < 10; i++) link.recordRetransmit();
+  assert.equal(link.frameSize, 12);
+  for (let i = 0; i < 10; i++) link.recordAck(0);
+  assert.equal(link.frameSize, 40);
+});
+
+test('error correction steps up with misreads and back down', () => {
+  const link = new LinkQuality({ smoothing: 0.5 });
+  assert.equal(link.errorCorrectionLevel, 'L');
+
+  const levels: string[] = [];
+  for (let i = 0; i < 4; i++) {
+    link.recordScan(false);
+    levels.push(link.errorCorrectionLevel);
+  }
+  assert.deepEqual(levels, ['H', 'H', 'H', 'H']);
+
+  for (let i = 0; i < 6; i++) link.recordScan(true);
+  assert.equal(link.errorCorrectionLevel, 'L');
+
+  link.reset();
+  assert.deepEqual(link.getStats(), {
+    frameSize: 34,
+    errorCorrectionLevel: 'L',
+    rtt: null,
+    retransmitRate: 0,
+    misreadRate: 0,
+  });
+});
+
+test('MeshNode sends with the link estimate, capped by the peer', async () => {
+  const mesh = new MeshState(await generateKeyPair());
+  const link = new LinkQuality({ initialFrameSize: 80 });
+  const options: TransportSendOptions[] = [];
+  const transport = new LoopTransport();
+  transport.send = (_data: string, sendOptions?: TransportSendOptions) => {
+    options.push(sendOptions ?? {});
+  };
+  const node = new MeshNode(mesh, [transport], { tickInterval: 20, minDisplayTime: 0, linkQuality: link });
+
+  const beacon = createBeaconPacket('0123ABCD');
+  beacon.frame = 40;
+  await mesh.processBeacon(beacon);
+
+  try {
+    await node.start();
+    await waitFor(() => options.length > 0);
+    assert.deepEqual(options[0], { frameSize: 80, errorCorrectionLevel: 'L' });
+
+    // A packet to the peer is cut to the frame size it advertised
+    await mesh.sendChat('0123ABCD', 'hello');
+    await waitFor(() => options.some((o) => o.frameSize === 40));
+
+    // A frame that fails its checksum counts as a misread
+    await node.receive('0123ABCDFFFF', transport);
+    assert.ok(link.getStats().misreadRate > 0);
+  } finally {
+    node.stop();
+  }
+});
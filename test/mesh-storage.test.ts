@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { migrateSnapshot, createMemoryMeshStorage, MeshPersistence } from '../mesh-storage';
+import { MeshState, ConnectionState, MESH_SNAPSHOT_VERSION } from '../mesh';
+import { connectedPair, receivedTexts, waitFor } from './helpers';
+
+const v1Peer = {
+  id: '0123ABCD',
+  publicKey: 'BASE64KEY',
+  name: 'alice',
+  lastSeen: 1000,
+  receivedPns: [[1, 4]],
+  ackedByPeer: [],
+  state: ConnectionState.ESTABLISHED,
+  epoch: 'DEADBEEF',
+  sentPackets: [],
+};
+
+test('a v1 snapshot migrates step by step to the current schema', () => {
+  const migrated = migrateSnapshot({ version: 1, pn: 42, peers: [v1Peer], chatHistory: [], groups: [] });
+
+  assert.equal(migrated.version, MESH_SNAPSHOT_VERSION);
+  assert.equal(migrated.pn, 42);
+  const [peer] = migrated.peers;
+  assert.equal(peer.epoch, undefined, 'v2: old sessions start a new epoch');
+  assert.equal(peer.verified, false, 'v3: existing contacts start unverified');
+  assert.deepEqual(peer.pastEpochs, [], 'v7: no past epochs known yet');
+  assert.equal(peer.name, 'alice');
+  assert.deepEqual(peer.receivedPns, [[1, 4]]);
+});
+
+test('v5 ratchets are renamed after their session and lose the ephemeral key', () => {
+  const chains = { sendChain: 'S', sendIndex: 3 };
+  const v5Peer = { ...v1Peer, verified: true, ephemeralKey: 'EPH', ratchet: { localKey: 'L', remoteKey: 'R', ...chains } };
+  const migrated = migrateSnapshot({ version: 5, pn: 1, peers: [v5Peer], chatHistory: [], groups: [] });
+
+  const [peer] = migrated.peers as unknown as Record<string, unknown>[];
+  assert.ok(!('ephemeralKey' in peer));
+  assert.deepEqual(peer.ratchet, { ...chains, session: 'L|R' });
+  assert.equal(peer.verified, true);
+});
+
+test('snapshots from a newer schema are refused', () => {
+  assert.throws(
+    () => migrateSnapshot({ version: MESH_SNAPSHOT_VERSION + 1, pn: 0, peers: [], chatHistory: [], groups: [] }),
+    /newer than supported/
+  );
+});
+
+test('a restored mesh carries on the same session', async () => {
+  const pair = await connectedPair();
+  try {
+    await pair.a.sendChat(pair.b.deviceId, 'before the restart');
+    await waitFor(() => pair.a.getDeliveryStatus(pair.b.deviceId).pending.length === 0);
+    const snapshot = await pair.a.snapshot();
+
+    const restored = new MeshState(pair.keyA);
+    await restored.restore(snapshot);
+
+    assert.equal(restored.epoch, pair.a.epoch);
+    assert.ok(restored.packetNumber >= pair.a.packetNumber);
+    const peer = restored.getPeer(pair.b.deviceId)!;
+    assert.equal(peer.state, ConnectionState.ESTABLISHED);
+    assert.ok(peer.macKey && peer.sharedKey);
+    assert.deepEqual(restored.getChatHistory(pair.b.deviceId).map((m) => m.text), ['before the restart']);
+  } finally {
+    pair.stop();
+  }
+});
+
+test('MeshPersistence writes changes and loads them into a fresh mesh', async () => {
+  const storage = createMemoryMeshStorage();
+  const pair = await connectedPair();
+  const persistence = new MeshPersistence(pair.b, storage, { delay: 10 });
+  try {
+    assert.equal(await new MeshPersistence(new MeshState(pair.keyB), storage).load(), false);
+
+    persistence.start();
+    const texts = receivedTexts(pair.b);
+    await pair.a.sendChat(pair.b.deviceId, 'persist me');
+    await waitFor(() => texts.includes('persist me'));
+    await persistence.stop();
+
+    const reloaded = new MeshState(pair.keyB);
+    assert.equal(await new MeshPersistence(reloaded, storage).load(), true);
+    assert.equal(reloaded.epoch, pair.b.epoch);
+    assert.equal(reloaded.getPeer(pair.a.deviceId)!.state, ConnectionState.ESTABLISHED);
+    assert.ok(reloaded.getChatHistory(pair.a.deviceId).some((m) => m.text === 'persist me'));
+
+    await persistence.clear();
+    assert.deepEqual(await storage.keys(), []);
+  } finally {
+    pair.stop();
+  }
+});
@@ -0,0 +1,210 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair, computeMac } from '../crypto';
+import { MeshState, ConnectionState, type MeshConfig, type MeshEvent } from '../mesh';
+import {
+  createBeaconPacket,
+  createDataPacket,
+  decodeFrame,
+  encodeFrame,
+  encodePacketBody,
+  MESSAGE_TYPES,
+  PACKET_TYPES,
+  type QRPacket,
+} from '../protocol';
+import { connectedPair, receivedTexts, waitFor, sleep } from './helpers';
+
+function errors(mesh: MeshState): string[] {
+  const messages: string[] = [];
+  mesh.subscribe((event: MeshEvent) => {
+    if (event.type === 'error') messages.push(event.message);
+  });
+  return messages;
+}
+
+function states(mesh: MeshState): ConnectionState[] {
+  const seen: ConnectionState[] = [];
+  mesh.subscribe((event) => {
+    if (event.type === 'connection_state_changed') seen.push(event.state);
+  });
+  return seen;
+}
+
+/**
+ * A mesh that has seen another device's beacon, and nothing else
+ */
+async function meshWithPeer(config: MeshConfig = {}): Promise<{ mesh: MeshState; peerId: string }> {
+  const [key, peerKey] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+  const mesh = new MeshState(key, config);
+  await mesh.processBeacon(createBeaconPacket(peerKey.deviceId));
+  return { mesh, peerId: peerKey.deviceId };
+}
+
+function dataPackets(sent: string[]): QRPacket[] {
+  return sent.flatMap((frame) => {
+    const result = decodeFrame(frame);
+    return result.ok && result.packet.t === PACKET_TYPES.DATA ? [result.packet] : [];
+  });
+}
+
+test('chat before key exchange goes out as marked plaintext', async () => {
+  const { mesh, peerId } = await meshWithPeer();
+
+  const pn = await mesh.sendChat(peerId, 'hello');
+  const packet = mesh.getPeer(peerId)!.sentPackets.get(pn)!.packet;
+  assert.equal(packet.mt, MESSAGE_TYPES.CHAT);
+  assert.equal(packet.payload, 'hello');
+  assert.equal(mesh.getChatHistory(peerId)[0].encrypted, false);
+});
+
+test('chat is encrypted once the peers share a key', async () => {
+  const pair = await connectedPair();
+  try {
+    const texts = receivedTexts(pair.b);
+    const received: boolean[] = [];
+    pair.b.subscribe((event) => {
+      if (event.type === 'chat_message' && event.message.direction === 'received') received.push(event.message.encrypted);
+    });
+
+    await pair.a.sendChat(pair.b.deviceId, 'top secret words');
+    await waitFor(() => texts.includes('top secret words'));
+
+    const chats = dataPackets(pair.linkA.sent).filter((packet) => packet.mt === MESSAGE_TYPES.RATCHET_CHAT);
+    assert.ok(chats.length > 0);
+    assert.ok(chats.every((packet) => /^[A-Z2-7]+$/.test(packet.payload!) && !packet.payload!.includes('secret')));
+    assert.deepEqual(received, [true]);
+    assert.equal(pair.a.getChatHistory(pair.b.deviceId)[0].encrypted, true);
+  } finally {
+    pair.stop();
+  }
+});
+
+test('requireEncryption refuses plaintext chat from a keyed peer', async () => {
+  const pair = await connectedPair({ requireEncryption: true });
+  try {
+    const texts = receivedTexts(pair.b);
+    const errorsB = errors(pair.b);
+    // Sealed, so it's the plaintext that gets it refused
+    const packet = createDataPacket(pair.a.deviceId, pair.b.deviceId, 5000, MESSAGE_TYPES.CHAT, 'in the clear');
+    packet.mac = await computeMac(pair.b.getPeer(pair.a.deviceId)!.macKey!, encodePacketBody(packet));
+    await pair.b.processPacket(packet);
+
+    assert.deepEqual(texts, []);
+    assert.ok(errorsB.some((message) => message.startsWith('Rejected plaintext')));
+  } finally {
+    pair.stop();
+  }
+});
+
+test('connect walks both sides to ESTABLISHED', async () => {
+  const pair = await connectedPair();
+  try {
+    assert.equal(pair.a.getPeer(pair.b.deviceId)!.state, ConnectionState.ESTABLISHED);
+    assert.equal(pair.b.getPeer(pair.a.deviceId)!.state, ConnectionState.ESTABLISHED);
+    assert.equal(pair.a.connect(pair.b.deviceId), -1, 'already established');
+  } finally {
+    pair.stop();
+  }
+});
+
+test('connect reports an unknown peer', async () => {
+  const mesh = new MeshState(await generateKeyPair());
+  const errorsSeen = errors(mesh);
+  assert.equal(mesh.connect('0123ABCD'), -1);
+  assert.deepEqual(errorsSeen, ['Unknown peer: 0123ABCD']);
+});
+
+test('an unanswered handshake is resent, then fails', async () => {
+  const { mesh, peerId } = await meshWithPeer({ handshakeTimeout: 20, maxHandshakeAttempts: 2 });
+  const seen = states(mesh);
+
+  const first = mesh.connect(peerId);
+  assert.equal(mesh.connect(peerId), first, 'a second connect joins the handshake in flight');
+  await sleep(30);
+  mesh.checkRetries();
+  const peer = mesh.getPeer(peerId)!;
+  assert.equal(peer.handshakeAttempts, 2);
+  assert.notEqual(peer.handshakePn, first);
+
+  await sleep(30);
+  mesh.checkRetries();
+  assert.deepEqual(seen, [ConnectionState.SYN_SENT, ConnectionState.FAILED]);
+  await waitFor(() => peer.sentPackets.get(peer.handshakePn!)?.status === 'failed');
+});
+
+test('disconnect drops the session and fails what is in flight', async () => {
+  const pair = await connectedPair();
+  try {
+    pair.linkA.blocked = true;
+    const pn = await pair.a.sendChat(pair.b.deviceId, 'never arrives');
+    const seen = states(pair.a);
+    pair.a.disconnect(pair.b.deviceId);
+
+    const peer = pair.a.getPeer(pair.b.deviceId)!;
+    assert.deepEqual(seen, [ConnectionState.DISCONNECTED]);
+    assert.equal(peer.sharedKey, undefined);
+    assert.equal(peer.handshakePn, undefined);
+    assert.ok(pair.a.getDeliveryStatus(pair.b.deviceId).failed.includes(pn));
+
+    // Nothing to retry without an INITIAL in flight
+    pair.a.checkRetries();
+    assert.equal(peer.state, ConnectionState.DISCONNECTED);
+  } finally {
+    pair.stop();
+  }
+});
+
+test('a keyed peer must seal every packet but its handshake', async () => {
+  const pair = await connectedPair();
+  try {
+    const texts = receivedTexts(pair.b);
+    const offers: string[] = [];
+    pair.b.subscribe((event) => {
+      if (event.type === 'offer_received') offers.push(event.peerId);
+    });
+    const errorsB = errors(pair.b);
+
+    // MAC stripped and a fresh CRC appended
+    await pair.nodeB.receive(
+      encodeFrame(createDataPacket(pair.a.deviceId, pair.b.deviceId, 5000, MESSAGE_TYPES.CHAT, 'forged')),
+      pair.linkB
+    );
+    await pair.nodeB.receive(
+      encodeFrame(createDataPacket(pair.a.deviceId, pair.b.deviceId, 5001, MESSAGE_TYPES.OFFER, '{"ws":"ws://evil"}')),
+      pair.linkB
+    );
+    // CRC-less pre-integrity frame (a peer with capabilities never sends one)
+    await pair.nodeB.receive(`D${pair.a.deviceId}${pair.b.deviceId}5002|legacy forged|`, pair.linkB);
+
+    assert.equal(texts.length, 0);
+    assert.deepEqual(offers, []);
+    assert.equal(pair.b.getPeer(pair.a.deviceId)!.offer, undefined);
+    assert.equal(errorsB.filter((message) => message.startsWith('Rejected unsealed')).length, 2);
+    assert.ok(!pair.b.getChatHistory(pair.a.deviceId).some((message) => message.text.includes('forged')));
+
+    // The real thing still gets through
+    await pair.a.sendChat(pair.b.deviceId, 'genuine');
+    await waitFor(() => texts.includes('genuine'));
+  } finally {
+    pair.stop();
+  }
+});
+
+test('packets queued before our key are sealed once it exists', async () => {
+  const pair = await connectedPair({ retryTimeout: 100 });
+  try {
+    const texts = receivedTexts(pair.b);
+
+    // A forgets the session; B still holds its key
+    pair.a.disconnect(pair.b.deviceId);
+    const pn = await pair.a.sendChat(pair.b.deviceId, 'queued before keys');
+    const sent = pair.a.getPeer(pair.b.deviceId)!.sentPackets.get(pn)!;
+    assert.equal(sent.packet.mac, undefined);
+
+    pair.a.connect(pair.b.deviceId);
+    await waitFor(() => texts.includes('queued before keys'));
+    assert.notEqual(sent.packet.mac, undefined);
+  } finally {
+    pair.stop();
+  }
+});
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageQueue, type QueueStorage, type QueuedMessage } from '../message-queue';
+import { generateKeyPair } from '../crypto';
+import { MeshState } from '../mesh';
+import { createBeaconPacket, MESSAGE_TYPES } from '../protocol';
+import { sleep, waitFor } from './helpers';
+
+/**
+ * Async storage that resolves writes out of order, like a slow IndexedDB
+ */
+class MemoryStorage implements QueueStorage {
+  values: Map<string, string> = new Map();
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+  async set(key: string, value: string): Promise<void> {
+    await sleep(Math.random() * 5);
+    this.values.set(key, value);
+  }
+}
+
+test('messages are found by packet and expire at their TTL', () => {
+  const queue = new MessageQueue({ ttl: 1000 });
+  const message = queue.add({ peerId: 'B0000000', messageType: MESSAGE_TYPES.CHAT, payload: 'hi', pn: 7 }, 0);
+
+  assert.equal(queue.findByPn('B0000000', 7), message);
+  assert.equal(queue.findByPn('C0000000', 7), undefined);
+  assert.deepEqual(queue.expired(999), []);
+  assert.deepEqual(queue.expired(1000), [message]);
+
+  assert.ok(queue.remove(message.id));
+  assert.equal(queue.size, 0);
+});
+
+test('the queue and pn counter survive a save and load', async () => {
+  const storage = new MemoryStorage();
+  const queue = new MessageQueue({ storage });
+  const added: QueuedMessage[] = [];
+  for (let i = 0; i < 5; i++) {
+    added.push(queue.add({ peerId: 'B0000000', messageType: MESSAGE_TYPES.CHAT, payload: `m${i}` }));
+    queue.save(100 + i);
+  }
+  await queue.save(200);
+
+  const restored = new MessageQueue({ storage });
+  assert.equal(await restored.load(), 200, 'writes land in order');
+  assert.deepEqual(restored.getAll(), added);
+});
+
+test('a corrupt or missing store loads as empty', async () => {
+  const storage = new MemoryStorage();
+  assert.equal(await new MessageQueue({ storage }).load(), 0);
+
+  storage.values.set('qrmesh-queue', '{not json');
+  const queue = new MessageQueue({ storage });
+  assert.equal(await queue.load(), 0);
+  assert.equal(queue.size, 0);
+});
+
+test('a restarted mesh resends what its queue held', async () => {
+  const [key, peerKey] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+  const storage = new MemoryStorage();
+  const beacon = createBeaconPacket(peerKey.deviceId);
+
+  const before = new MeshState(key, { storage });
+  await before.processBeacon(beacon);
+  const pn = await before.sendChat(peerKey.deviceId, 'survives a reload');
+  await waitFor(() => storage.values.has('qrmesh-queue'));
+  await sleep(20);
+
+  const after = new MeshState(key, { storage });
+  await after.restore();
+  await after.processBeacon(beacon);
+  await waitFor(() => after.getPeer(peerKey.deviceId)!.sentPackets.size > 0);
+
+  const [resent] = after.getPeer(peerKey.deviceId)!.sentPackets.values();
+  assert.equal(resent.packet.payload, 'survives a reload');
+  assert.ok(resent.packet.pn > pn, 'packet numbers never go back');
+});
+
+test('undelivered messages expire and fail', async () => {
+  const [key, peerKey] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+  const mesh = new MeshState(key, { messageTtl: 20 });
+  await mesh.processBeacon(createBeaconPacket(peerKey.deviceId));
+  const expired: string[] = [];
+  mesh.subscribe((event) => {
+    if (event.type === 'message_expired') expired.push(event.message.payload);
+  });
+
+  const pn = await mesh.sendChat(peerKey.deviceId, 'too late');
+  await sleep(30);
+  mesh.checkRetries();
+
+  assert.deepEqual(expired, ['too late']);
+  assert.ok(mesh.getDeliveryStatus(peerKey.deviceId).failed.includes(pn));
+});
+
+test('the text of ratchet chat is never persisted', async () => {
+  const storage = new MemoryStorage();
+  const queue = new MessageQueue({ storage });
+  const message = queue.add({ peerId: 'B0000000', messageType: MESSAGE_TYPES.RATCHET_CHAT, payload: 'CIPHERTEXT', text: 'secret' });
+  await queue.save(1);
+
+  assert.equal(message.text, 'secret', 'kept in memory');
+  assert.ok(!storage.values.get('qrmesh-queue')!.includes('secret'));
+  const restored = new MessageQueue({ storage });
+  await restored.load();
+  const [loaded] = restored.getAll();
+  assert.equal(loaded.payload, 'CIPHERTEXT');
+  assert.equal(loaded.text, undefined);
+});
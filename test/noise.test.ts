@@ -0,0 +1,164 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  NoiseHandshake,
+  NOISE_PATTERNS,
+  hkdf,
+  hmacSha256,
+  packHandshakeMessage,
+  unpackHandshakeMessage,
+  type NoiseKeyPair,
+  type NoisePattern,
+} from '../noise';
+import { ConnectionState } from '../mesh';
+import { connectedPair, receivedTexts, waitFor } from './helpers';
+
+const PROLOGUE = new TextEncoder().encode('qrmesh|A1B2C3D4|E5F6A7B8');
+
+async function staticKeyPair(): Promise<NoiseKeyPair> {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+  return {
+    privateKey: keyPair.privateKey,
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+  };
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+interface Sides {
+  initiator: NoiseHandshake;
+  responder: NoiseHandshake;
+  responderStatic: NoiseKeyPair;
+  initiatorStatic: NoiseKeyPair;
+}
+
+async function handshake(pattern: NoisePattern, prologue: Uint8Array = PROLOGUE): Promise<Sides> {
+  const [initiatorStatic, responderStatic] = await Promise.all([staticKeyPair(), staticKeyPair()]);
+  const rs = pattern === NOISE_PATTERNS.IK ? responderStatic.publicKey : undefined;
+  return {
+    initiator: await NoiseHandshake.initialize(pattern, true, prologue, initiatorStatic, rs),
+    responder: await NoiseHandshake.initialize(pattern, false, PROLOGUE, responderStatic),
+    initiatorStatic,
+    responderStatic,
+  };
+}
+
+const bytes = (length: number, value: number) => new Uint8Array(length).fill(value);
+
+test('HMAC-SHA256 matches RFC 4231', async () => {
+  // Test cases 1, 2 and 6 (a key longer than the block size)
+  assert.equal(
+    hex(await hmacSha256(bytes(20, 0x0b), text('Hi There'))),
+    'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+  );
+  assert.equal(
+    hex(await hmacSha256(text('Jefe'), text('what do ya want for nothing?'))),
+    '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+  );
+  assert.equal(
+    hex(await hmacSha256(bytes(131, 0xaa), text('Test Using Larger Than Block-Size Key - Hash Key First'))),
+    '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'
+  );
+});
+
+test('HKDF matches RFC 5869', async () => {
+  // Test case 3: empty info, and an empty salt, which is HashLen zeros.
+  // The RFC gives 42 bytes of output: all of the first, 10 of the second.
+  const [output1, output2] = await hkdf(bytes(32, 0), bytes(22, 0x0b));
+  assert.equal(
+    hex(output1) + hex(output2.slice(0, 10)),
+    '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8'
+  );
+});
+
+test('an XX handshake confirms both static keys', async () => {
+  const { initiator, responder, initiatorStatic, responderStatic } = await handshake(NOISE_PATTERNS.XX);
+
+  const m1 = await initiator.writeMessage();
+  assert.equal(m1.length, 65);   // e, empty payload in the clear
+  assert.equal(hex(await responder.readMessage(m1)), '');
+
+  const m2 = await responder.writeMessage(text('responder'));
+  assert.equal(m2.length, 65 + 65 + 16 + 9 + 16);
+  assert.equal(new TextDecoder().decode(await initiator.readMessage(m2)), 'responder');
+
+  const m3 = await initiator.writeMessage(text('initiator'));
+  assert.equal(m3.length, 65 + 16 + 9 + 16);
+  assert.equal(new TextDecoder().decode(await responder.readMessage(m3)), 'initiator');
+
+  assert.ok(initiator.isComplete && responder.isComplete);
+  assert.deepEqual(initiator.remoteStaticKey, responderStatic.publicKey);
+  assert.deepEqual(responder.remoteStaticKey, initiatorStatic.publicKey);
+
+  const [a, b] = await Promise.all([initiator.split(), responder.split()]);
+  assert.deepEqual(a, b);
+  assert.equal(a.handshakeHash.length, 32);
+  assert.notDeepEqual(a.initiatorKey, a.responderKey);
+});
+
+test('an IK handshake carries 0-RTT early data', async () => {
+  const { initiator, responder, initiatorStatic } = await handshake(NOISE_PATTERNS.IK);
+
+  // The first message is already encrypted to the responder's static key
+  const m1 = await initiator.writeMessage(text('hello 0-RTT'));
+  assert.equal(m1.length, 65 + 65 + 16 + 11 + 16);
+  assert.ok(!hex(m1).includes(hex(text('hello 0-RTT'))));
+  assert.equal(new TextDecoder().decode(await responder.readMessage(m1)), 'hello 0-RTT');
+  assert.deepEqual(responder.remoteStaticKey, initiatorStatic.publicKey);
+
+  const m2 = await responder.writeMessage();
+  assert.equal(m2.length, 65 + 16);
+  await initiator.readMessage(m2);
+
+  const [a, b] = await Promise.all([initiator.split(), responder.split()]);
+  assert.deepEqual(a, b);
+  assert.notDeepEqual(a.initiatorKey, a.responderKey);
+});
+
+test('a tampered message is rejected', async () => {
+  for (const pattern of [NOISE_PATTERNS.XX, NOISE_PATTERNS.IK]) {
+    const { initiator, responder } = await handshake(pattern);
+    let message = await initiator.writeMessage(text('early'));
+    if (pattern === NOISE_PATTERNS.XX) {
+      await responder.readMessage(message);
+      message = await responder.writeMessage(text('reply'));
+      message[message.length - 1] ^= 0x01;
+      await assert.rejects(initiator.readMessage(message), `${pattern} message 2`);
+    } else {
+      message[70] ^= 0x01;   // Inside the encrypted static key
+      await assert.rejects(responder.readMessage(message), `${pattern} message 1`);
+    }
+  }
+});
+
+test('a different prologue fails the handshake', async () => {
+  const { initiator, responder } = await handshake(NOISE_PATTERNS.IK, text('qrmesh|A1B2C3D4|FFFFFFFF'));
+  await assert.rejects(responder.readMessage(await initiator.writeMessage(text('early'))));
+});
+
+test('handshake messages pack into base32 and back', async () => {
+  const { initiator } = await handshake(NOISE_PATTERNS.IK);
+  const message = await initiator.writeMessage(text('early'));
+  const unpacked = unpackHandshakeMessage(packHandshakeMessage(NOISE_PATTERNS.IK, 0, message));
+  assert.deepEqual(unpacked, { pattern: NOISE_PATTERNS.IK, index: 0, message });
+  assert.equal(unpackHandshakeMessage('7777'), null);
+});
+
+test('MeshState sends early data in an IK INITIAL on reconnect', async () => {
+  const pair = await connectedPair();
+  try {
+    const texts = receivedTexts(pair.b);
+    pair.a.disconnect(pair.b.deviceId);
+    pair.b.disconnect(pair.a.deviceId);
+
+    pair.a.connect(pair.b.deviceId, 'hello before the handshake ends');
+    await waitFor(() => texts.includes('hello before the handshake ends'));
+    await waitFor(() => pair.a.getPeer(pair.b.deviceId)?.state === ConnectionState.ESTABLISHED);
+  } finally {
+    pair.stop();
+  }
+});
@@ -0,0 +1,287 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fc from 'fast-check';
+import {
+  PROTOCOL_VERSION,
+  PACKET_TYPES,
+  MESSAGE_TYPES,
+  BROADCAST_ADDR,
+  BROADCAST_GROUP,
+  type QRPacket,
+  type AckRange,
+  addToAckRanges,
+  encodePacket,
+  decodePacket,
+  encodeFrame,
+  decodeFrame,
+  getSupportedVersions,
+  createBeaconPacket,
+  chunkPacket,
+  parseChunk,
+  isChunk,
+  ChunkAssembler,
+  FountainEncoder,
+  FountainDecoder,
+} from '../protocol';
+import { arrayBufferToBase32, arrayBufferToBase64 } from '../crypto';
+import '../binary-codec';
+
+const FIELDS = ['t', 'src', 'dst', 'pn', 'mt', 'key', 'name', 'payload', 'acks', 'caps', 'frame', 'epoch', 'sk', 'hs', 'sig', 'mac'] as const;
+
+/**
+ * The fields a packet carries on the wire - undefined fields and empty
+ * ACK lists dropped, since codecs differ on whether they spell those out
+ */
+function wireFields(packet: QRPacket): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const field of FIELDS) {
+    if (packet[field] !== undefined) fields[field] = packet[field];
+  }
+  if (packet.acks?.length === 0) delete fields.acks;
+  return fields;
+}
+
+const hex = (bytes: number) =>
+  fc.uint8Array({ minLength: bytes, maxLength: bytes })
+    .map((b) => Array.from(b, (x) => x.toString(16).padStart(2, '0')).join('').toUpperCase());
+
+const deviceId = fc.oneof(hex(4), fc.integer({ min: 5, max: 16 }).chain(hex));
+
+// Free text that leans on the characters the escaping has to handle
+const text = fc.array(
+  fc.oneof(
+    fc.constantFrom('|', '\\', '\n', '\r', '\\p', '\\n', '\r\n', '||', ' ', '~', '*', '.'),
+    fc.string({ unit: 'grapheme', minLength: 1 }),
+    fc.string({ unit: 'grapheme-ascii', minLength: 1 })
+  ),
+  { minLength: 1, maxLength: 8 }
+).map((parts) => parts.join(''));
+
+const acks = fc.uniqueArray(fc.integer({ min: 0, max: 100_000 }), { maxLength: 12 })
+  .map((pns) => pns.reduce<AckRange[]>((ranges, pn) => addToAckRanges(ranges, pn), []));
+
+const pn = fc.integer({ min: 0, max: 2 ** 31 - 1 });
+const base32 = (min: number, max: number) =>
+  fc.uint8Array({ minLength: min, maxLength: max }).map((bytes) => arrayBufferToBase32(bytes.buffer as ArrayBuffer));
+const signature = base32(64, 64);
+// Public keys travel as base64 (raw bytes in v4)
+const key = fc.uint8Array({ minLength: 1, maxLength: 100 }).map((bytes) => arrayBufferToBase64(bytes.buffer as ArrayBuffer));
+const mac = hex(4);
+
+const beacon = fc.record({
+  src: deviceId,
+  caps: fc.option(fc.integer({ min: 1, max: 0xff }), { nil: undefined }),
+  frame: fc.option(fc.integer({ min: 1, max: 4096 }), { nil: undefined }),
+  sig: fc.option(signature, { nil: undefined }),
+}).map((fields): QRPacket => ({ v: PROTOCOL_VERSION, t: PACKET_TYPES.BEACON, dst: BROADCAST_ADDR, pn: 0, ...fields }));
+
+const initial = fc.record({
+  src: deviceId,
+  dst: deviceId,
+  pn,
+  key: fc.option(key, { nil: undefined }),
+  name: fc.option(text, { nil: undefined }),
+  acks,
+  caps: fc.option(fc.integer({ min: 1, max: 0xff }), { nil: undefined }),
+  epoch: fc.option(hex(4), { nil: undefined }),
+  sk: fc.option(key, { nil: undefined }),
+  hs: fc.option(base32(1, 120), { nil: undefined }),
+  sig: fc.option(signature, { nil: undefined }),
+}).map((fields): QRPacket => ({ v: PROTOCOL_VERSION, t: PACKET_TYPES.INITIAL, ...fields }));
+
+const data = fc.record({
+  src: deviceId,
+  dst: fc.oneof(deviceId, fc.constant(BROADCAST_GROUP)),
+  pn,
+  mt: fc.constantFrom(...Object.values(MESSAGE_TYPES)),
+  payload: fc.option(text, { nil: undefined }),
+  acks,
+  mac: fc.option(mac, { nil: undefined }),
+}).map((fields): QRPacket => ({ v: PROTOCOL_VERSION, t: PACKET_TYPES.DATA, ...fields }));
+
+const ack = fc.record({
+  src: deviceId,
+  dst: deviceId,
+  pn,
+  acks,
+  mac: fc.option(mac, { nil: undefined }),
+}).map((fields): QRPacket => ({ v: PROTOCOL_VERSION, t: PACKET_TYPES.ACK, ...fields }));
+
+const packet = fc.oneof(beacon, initial, data, ack);
+
+test('v3 round-trips every packet type', () => {
+  fc.assert(
+    fc.property(packet, (original) => {
+      const decoded = decodePacket(encodePacket(original));
+      assert.ok(decoded, 'decodes');
+      assert.deepEqual(wireFields(decoded), wireFields(original));
+    }),
+    { numRuns: 2000 }
+  );
+});
+
+test('v3 frames never contain a raw line break', () => {
+  fc.assert(
+    fc.property(packet, (original) => !/[\n\r]/.test(encodePacket(original))),
+    { numRuns: 500 }
+  );
+});
+
+test('every registered version round-trips through encodeFrame', () => {
+  for (const version of getSupportedVersions()) {
+    fc.assert(
+      fc.property(packet, (original) => {
+        const result = decodeFrame(encodeFrame(original, version));
+        assert.ok(result.ok, `v${version} decodes`);
+        assert.equal(result.packet.v, version);
+        assert.deepEqual(wireFields(result.packet), wireFields(original));
+      }),
+      { numRuns: 1000 }
+    );
+  }
+});
+
+test('escaped fields survive chunk-style concatenation', () => {
+  fc.assert(
+    fc.property(text, text, (a, b) => {
+      const packet: QRPacket = {
+        v: PROTOCOL_VERSION, t: PACKET_TYPES.DATA, src: 'A1B2C3D4', dst: 'E5F6A7B8', pn: 1,
+        mt: MESSAGE_TYPES.CHAT, payload: a + b, acks: [],
+      };
+      assert.equal(decodePacket(encodePacket(packet))?.payload, a + b);
+    })
+  );
+});
+
+test('the widest beacon is never chunked', () => {
+  const beacon = createBeaconPacket('AB'.repeat(16));
+  beacon.caps = 0xff;
+  beacon.frame = 0xffff;
+  for (const version of getSupportedVersions()) {
+    const frame = encodeFrame(beacon, version);
+    assert.deepEqual(chunkPacket(frame, 0, 10), [frame], `v${version}`);
+    assert.equal(new FountainEncoder(frame, { frameSize: 10 }).rateless, false, `v${version}`);
+  }
+});
+
+test('fountain frames decode through random frame loss', () => {
+  fc.assert(
+    fc.property(
+      fc.string({ unit: 'grapheme', minLength: 50, maxLength: 600 }),
+      fc.integer({ min: 20, max: 60 }),
+      fc.integer({ min: 0, max: 70 }),  // Percent of frames lost
+      fc.infiniteStream(fc.noBias(fc.integer({ min: 0, max: 99 }))),
+      (packet, frameSize, loss, rolls) => {
+        const encoder = new FountainEncoder(packet, { streamId: 7, frameSize });
+        fc.pre(encoder.rateless);
+        const decoder = new FountainDecoder();
+        const roll = rolls[Symbol.iterator]();
+
+        let decoded: string | null = null;
+        for (let sent = 0; decoded === null && sent < encoder.blockCount * 40; sent++) {
+          const frame = encoder.nextFrame();
+          if (roll.next().value < loss) continue;
+          decoded = decoder.addFrame(frame, 0);
+        }
+        assert.equal(decoded, packet);
+      }
+    ),
+    { numRuns: 100 }
+  );
+});
+
+test('fountain streams reusing an ID do not mix', () => {
+  const first = new FountainEncoder('A'.repeat(200), { streamId: 3 });
+  const second = new FountainEncoder('B'.repeat(300), { streamId: 39 }); // Same ID mod 36
+  const decoder = new FountainDecoder();
+
+  const results: (string | null)[] = [];
+  for (let i = 0; i < Math.max(first.blockCount, second.blockCount); i++) {
+    if (i < first.blockCount) results.push(decoder.addFrame(first.frame(i), 0));
+    if (i < second.blockCount) results.push(decoder.addFrame(second.frame(i), 0));
+  }
+  assert.deepEqual(results.filter((r) => r !== null).sort(), ['A'.repeat(200), 'B'.repeat(300)]);
+});
+
+test('partial fountain streams expire and are evicted', () => {
+  const encoder = new FountainEncoder('C'.repeat(200), { streamId: 1 });
+  const decoder = new FountainDecoder({ maxAge: 1000, maxStreams: 2 });
+
+  decoder.addFrame(encoder.frame(0), 0);
+  assert.deepEqual(decoder.getProgress(1), { received: 1, needed: encoder.blockCount });
+
+  // Silent past maxAge: the next frame starts over
+  decoder.addFrame(encoder.frame(1), 2000);
+  assert.deepEqual(decoder.getProgress(1), { received: 1, needed: encoder.blockCount });
+
+  // Two newer streams push it out
+  decoder.addFrame(new FountainEncoder('D'.repeat(200), { streamId: 2 }).frame(0), 2001);
+  decoder.addFrame(new FountainEncoder('E'.repeat(200), { streamId: 3 }).frame(0), 2002);
+  assert.equal(decoder.getProgress(1), null);
+  assert.notEqual(decoder.getProgress(3), null);
+});
+
+test('chunk headers widen past 36 chunks and reassemble in any order', () => {
+  fc.assert(
+    fc.property(
+      fc.string({ unit: 'grapheme-ascii', minLength: 60, maxLength: 2000 }),
+      fc.integer({ min: 0, max: 5000 }),
+      fc.integer({ min: 10, max: 40 }),
+      fc.infiniteStream(fc.nat()),
+      (packet, streamId, frameSize, keys) => {
+        const chunks = chunkPacket(packet, streamId, frameSize);
+        assert.ok(chunks.every((chunk) => chunk.length <= Math.max(frameSize, 12) && isChunk(chunk)));
+
+        const key = keys[Symbol.iterator]();
+        const shuffled = chunks.map((chunk) => [key.next().value, chunk] as const).sort((a, b) => a[0] - b[0]);
+        const assembler = new ChunkAssembler();
+        const results = shuffled.map(([, chunk]) => assembler.addChunk(chunk, 0));
+        assert.equal(results.filter((r) => r !== null).length, 1);
+        assert.equal(results[results.length - 1], packet);
+      }
+    ),
+    { numRuns: 100 }
+  );
+
+  const many = chunkPacket('Z'.repeat(500), 40, 10);
+  assert.ok(many.length > 36);
+  assert.equal(parseChunk(many[0])!.streamId, 40);
+  assert.equal(parseChunk(many[0])!.count, many.length);
+});
+
+test('a corrupted chunk fails the reassembly checksum', () => {
+  const chunks = chunkPacket('D0123ABCD4567CDEF1|a longer chat message|'.repeat(2), 1, 20);
+  assert.ok(chunks.length > 1);
+  const assembler = new ChunkAssembler();
+  const damaged = chunks.map((chunk, i) => (i === 1 ? chunk.slice(0, -1) + (chunk.endsWith('A') ? 'B' : 'A') : chunk));
+  assert.deepEqual(damaged.map((chunk) => assembler.addChunk(chunk, 0)).filter((r) => r !== null), []);
+});
+
+test('pasted chunks survive stripped trailing spaces', () => {
+  const packet = 'D0123ABCD4567CDEF1|a chat message that ends with spaces      |';
+  const chunks = chunkPacket(packet, 2, 14).map((chunk) => chunk.trimEnd());
+  assert.ok(chunks.length > 1);
+  const assembler = new ChunkAssembler();
+  const results = chunks.map((chunk) => assembler.addChunk(chunk, 0));
+  assert.equal(results[results.length - 1], packet);
+});
+
+test('partial chunk streams expire and are evicted', () => {
+  const packet = 'D0123ABCD4567CDEF1|a message long enough to chunk|';
+  const chunks = chunkPacket(packet, 1, 16);
+  assert.ok(chunks.length > 1);
+  const assembler = new ChunkAssembler({ maxAge: 1000, maxStreams: 2 });
+
+  // Silent past maxAge: the first chunk is forgotten
+  assembler.addChunk(chunks[0], 0);
+  const late = chunks.slice(1).map((chunk) => assembler.addChunk(chunk, 2000));
+  assert.deepEqual(late.filter((r) => r !== null), []);
+
+  // Two newer streams push a partial one out
+  const evicted = new ChunkAssembler({ maxStreams: 2 });
+  evicted.addChunk(chunks[0], 0);
+  evicted.addChunk(chunkPacket(packet, 2, 16)[0], 1);
+  evicted.addChunk(chunkPacket(packet, 3, 16)[0], 2);
+  const rest = chunks.slice(1).map((chunk) => evicted.addChunk(chunk, 3));
+  assert.deepEqual(rest.filter((r) => r !== null), []);
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SessionRatchet } from '../ratchet';
+import { arrayBufferToBase32, base32ToArrayBuffer } from '../crypto';
+
+function secret(): ArrayBuffer {
+  return crypto.getRandomValues(new Uint8Array(64)).buffer;
+}
+
+/**
+ * Both ends of one session, as the two devices derive them from the
+ * handshake
+ */
+async function session(
+  name: string,
+  previous?: [SessionRatchet, SessionRatchet]
+): Promise<[SessionRatchet, SessionRatchet]> {
+  const shared = secret();
+  return Promise.all([
+    SessionRatchet.create(shared, 'AAAAAAAA', 'BBBBBBBB', name, previous?.[0]),
+    SessionRatchet.create(shared, 'BBBBBBBB', 'AAAAAAAA', name, previous?.[1]),
+  ]);
+}
+
+test('messages decrypt in any order, each only once', async () => {
+  const [a, b] = await session('one');
+  const sent = [];
+  for (const text of ['first', 'second', 'third']) sent.push(await a.encrypt(text));
+
+  assert.equal(await b.decrypt(sent[2]), 'third');
+  assert.equal(await b.decrypt(sent[0]), 'first');
+  assert.equal(await b.decrypt(sent[1]), 'second');
+
+  assert.equal(await b.decrypt(sent[0]), null, 'its key is gone');
+  assert.equal(await b.decrypt(sent[2]), null);
+  assert.equal(await a.decrypt(await b.encrypt('reply')), 'reply');
+});
+
+test('the chain ID and index are authenticated', async () => {
+  const [a, b] = await session('one');
+  const packed = await a.encrypt('hello');
+
+  const bytes = new Uint8Array(base32ToArrayBuffer(packed));
+  bytes[5] ^= 1;  // Last byte of the index
+  await assert.rejects(b.decrypt(arrayBufferToBase32(bytes.buffer)));
+
+  assert.equal(await b.decrypt(packed), 'hello', 'a failed decrypt leaves the chain as it was');
+});
+
+test('no more than MAX_SKIPPED keys are skipped at once', async () => {
+  const [a, b] = await session('one');
+  const sent: string[] = [];
+  for (let i = 0; i <= 257; i++) sent.push(await a.encrypt(`m${i}`));
+
+  await assert.rejects(b.decrypt(sent[257]), /Too many skipped messages/);
+  assert.equal(await b.decrypt(sent[256]), 'm256');
+  assert.equal(await b.decrypt(sent[0]), 'm0', 'skipped keys are kept');
+  assert.equal(await b.decrypt(sent[257]), 'm257');
+});
+
+test('a new session still reads the previous one, but not the one before', async () => {
+  const first = await session('one');
+  const straggler = await first[0].encrypt('sent before the handshake');
+  const lost = await first[0].encrypt('sent long before');
+
+  const second = await session('two', first);
+  assert.equal(second[1].session, 'two');
+  assert.notEqual(second[0].sendChain, first[0].sendChain);
+  assert.equal(await second[1].decrypt(straggler), 'sent before the handshake');
+  assert.equal(await second[1].decrypt(await second[0].encrypt('new')), 'new');
+
+  const third = await session('three', second);
+  assert.ok(!third[1].canDecrypt(lost));
+  await assert.rejects(third[1].decrypt(lost), /Unknown ratchet chain/);
+  assert.ok(third[1].canDecrypt(await second[0].encrypt('previous')));
+});
+
+test('state survives a round trip through toState', async () => {
+  const [a, b] = await session('one');
+  const skipped = await a.encrypt('skipped');
+  await b.decrypt(await a.encrypt('read'));
+
+  const restored = SessionRatchet.fromState(JSON.parse(JSON.stringify(b.toState())));
+  assert.equal(await restored.decrypt(await a.encrypt('after')), 'after');
+  assert.equal(await restored.decrypt(skipped), 'skipped', 'skipped keys are saved too');
+  assert.equal(await restored.decrypt(skipped), null);
+});
@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Duplex } from 'node:stream';
+import type { IncomingMessage } from 'node:http';
+import { Relay, MAX_IDS_PER_CLIENT } from '../server/relay-hub';
+import { createBeaconPacket, createDataPacket, encodeFrame, MESSAGE_TYPES } from '../protocol';
+
+const SHORT_A = '0123ABCD';
+const FULL_A = '0123ABCD' + '0'.repeat(24);
+const SHORT_B = '4567CDEF';
+
+/**
+ * A client socket plugged straight into the relay: sends unmasked text
+ * frames, and collects the text frames the relay writes back
+ */
+function connect(relay: Relay): { send(text: string): void; received: string[]; close(): void } {
+  const received: string[] = [];
+  const socket = new Duplex({
+    read() {},
+    write(chunk: Buffer | string, _encoding, callback) {
+      // The first write is the 101 response, the rest are frames
+      if (Buffer.isBuffer(chunk) && (chunk[0] & 0x0f) === 0x1) {
+        const length = chunk[1] & 0x7f;
+        const offset = length === 126 ? 4 : 2;
+        received.push(chunk.subarray(offset).toString('utf8'));
+      }
+      callback();
+    },
+  });
+  const request = { headers: { upgrade: 'websocket', 'sec-websocket-key': 'dGhlIHNhbXBsZSBub25jZQ==' } };
+  relay.accept(request as unknown as IncomingMessage, socket);
+
+  return {
+    received,
+    send(text: string) {
+      const payload = Buffer.from(text, 'utf8');
+      const header = payload.length < 126
+        ? Buffer.from([0x81, payload.length])
+        : Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]);
+      socket.push(Buffer.concat([header, payload]));
+    },
+    close() {
+      socket.destroy();
+    },
+  };
+}
+
+const chat = (src: string, dst: string, text: string) =>
+  encodeFrame(createDataPacket(src, dst, 1, MESSAGE_TYPES.CHAT, text));
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test('beacons reach every other client and packets go by dst', async () => {
+  const relay = new Relay();
+  const [a, b, c] = [connect(relay), connect(relay), connect(relay)];
+
+  a.send(encodeFrame(createBeaconPacket(SHORT_A)));
+  b.send(encodeFrame(createBeaconPacket(SHORT_B)));
+  await settle();
+  assert.equal(c.received.length, 2);
+
+  const hello = chat(SHORT_B, SHORT_A, 'hello');
+  b.send(hello);
+  await settle();
+  assert.ok(a.received.includes(hello));
+  assert.ok(!c.received.includes(hello));
+  assert.equal(relay.getClientCount(), 3);
+});
+
+test('an ID held by a live socket cannot be taken over', async () => {
+  const relay = new Relay();
+  const [owner, thief, sender] = [connect(relay), connect(relay), connect(relay)];
+
+  owner.send(encodeFrame(createBeaconPacket(SHORT_A)));
+  thief.send(encodeFrame(createBeaconPacket(SHORT_A)));
+  await settle();
+
+  const message = chat(SHORT_B, SHORT_A, 'for the owner');
+  sender.send(message);
+  await settle();
+  assert.ok(owner.received.includes(message));
+  assert.ok(!thief.received.includes(message));
+
+  // Freed once the owner goes away
+  owner.close();
+  await settle();
+  thief.send(encodeFrame(createBeaconPacket(SHORT_A)));
+  sender.send(chat(SHORT_B, SHORT_A, 'again'));
+  await settle();
+  assert.ok(thief.received.includes(chat(SHORT_B, SHORT_A, 'again')));
+});
+
+test('one client holds at most MAX_IDS_PER_CLIENT IDs', async () => {
+  const relay = new Relay();
+  const [greedy, sender] = [connect(relay), connect(relay)];
+  const ids = Array.from({ length: MAX_IDS_PER_CLIENT + 1 }, (_, i) => `${i}`.padStart(8, 'A'));
+
+  ids.forEach((id) => greedy.send(encodeFrame(createBeaconPacket(id))));
+  await settle();
+  ids.forEach((id) => sender.send(chat(SHORT_B, id, `to ${id}`)));
+  await settle();
+
+  const delivered = ids.filter((id) => greedy.received.includes(chat(SHORT_B, id, `to ${id}`)));
+  assert.deepEqual(delivered, ids.slice(0, MAX_IDS_PER_CLIENT));
+});
+
+test('a full ID reaches its short ID only until some full ID under it is seen', async () => {
+  const relay = new Relay();
+  const [a, squatter, sender] = [connect(relay), connect(relay), connect(relay)];
+
+  a.send(encodeFrame(createBeaconPacket(SHORT_A)));
+  await settle();
+  const early = chat(SHORT_B, FULL_A, 'before A used its full ID');
+  sender.send(early);
+  await settle();
+  assert.ok(a.received.includes(early));
+
+  // Another device's full ID under the same prefix: the short ID holder
+  // no longer gets traffic for full IDs it hasn't sent from
+  const other = '0123ABCD' + 'F'.repeat(24);
+  squatter.send(chat(other, SHORT_B, 'hi'));
+  await settle();
+  const late = chat(SHORT_B, FULL_A, 'after');
+  sender.send(late);
+  await settle();
+  assert.ok(!a.received.includes(late));
+  assert.ok(!squatter.received.includes(late));
+
+  // Exact match once A sends from its full ID
+  a.send(chat(FULL_A, SHORT_B, 'now full'));
+  sender.send(late);
+  await settle();
+  assert.ok(a.received.includes(late));
+});
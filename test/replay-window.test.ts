@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ReplayWindow } from '../replay-window';
+import { MeshState, type MeshEvent } from '../mesh';
+import { MeshNode } from '../transport';
+import { createAckPacket, createDataPacket, MESSAGE_TYPES, PACKET_TYPES, type QRPacket } from '../protocol';
+import { connectedPair, receivedTexts, waitFor } from './helpers';
+
+function errors(mesh: MeshState): string[] {
+  const messages: string[] = [];
+  mesh.subscribe((event: MeshEvent) => {
+    if (event.type === 'error') messages.push(event.message);
+  });
+  return messages;
+}
+
+/**
+ * Packets a mesh has received from one peer - what filming its screen caught
+ */
+function filmed(mesh: MeshState, peerId: string): QRPacket[] {
+  return mesh.getPacketLog()
+    .filter((entry) => entry.direction === 'received' && entry.packet.src === peerId)
+    .map((entry) => ({ ...entry.packet }));
+}
+
+test('the window drops repeats and anything older than it', () => {
+  const window = new ReplayWindow(4);
+  assert.ok(window.accept(1));
+  assert.ok(!window.accept(1));
+  assert.ok(window.accept(3));
+  assert.ok(window.accept(2), 'out of order is fine');
+
+  assert.ok(window.accept(10));
+  assert.ok(window.isReplay(6), 'below the window');
+  assert.ok(!window.isReplay(7));
+});
+
+test('unsealed pns are remembered but never move the window', () => {
+  const window = new ReplayWindow(4);
+  window.accept(5);
+
+  assert.ok(window.note(1_000_000_000));
+  assert.ok(!window.note(1_000_000_000), 'a repeat is still caught');
+  assert.ok(window.accept(6));
+  assert.ok(window.accept(7));
+  assert.ok(!window.note(5), 'sealed pns count for unsealed ones');
+});
+
+test('a forged high packet number does not block the peer', async () => {
+  const pair = await connectedPair();
+  try {
+    const texts = receivedTexts(pair.a);
+    const errorsA = errors(pair.a);
+    const [a, b] = [pair.a.deviceId, pair.b.deviceId];
+
+    await pair.a.processPacket(createAckPacket(b, a, 1_000_000_000, [[0, 1_000_000_000]]));
+    await pair.a.processPacket(createDataPacket(b, a, 1_000_000_001, MESSAGE_TYPES.HANDSHAKE, 'X'));
+    assert.ok(errorsA.some((message) => message.startsWith('Rejected unsealed packet 1000000000')));
+
+    await pair.b.sendChat(a, 'still heard');
+    await waitFor(() => texts.includes('still heard'));
+  } finally {
+    pair.stop();
+  }
+});
+
+test('a restart is adopted from its handshake, and the old session cannot be replayed', async () => {
+  const pair = await connectedPair();
+  const options = { tickInterval: 20, minDisplayTime: 20, retransmitInterval: 200 };
+  let node: MeshNode | undefined;
+  try {
+    const texts = receivedTexts(pair.a);
+    const errorsA = errors(pair.a);
+    const restarts: string[] = [];
+    pair.a.subscribe((event) => {
+      if (event.type === 'peer_restarted') restarts.push(event.peer.id);
+    });
+
+    await pair.b.sendChat(pair.a.deviceId, 'old session');
+    await waitFor(() => texts.includes('old session'));
+    const fromB = filmed(pair.a, pair.b.deviceId);
+    const oldInitial = fromB.find((packet) => packet.t === PACKET_TYPES.INITIAL)!;
+    const oldChat = fromB.find((packet) => packet.t === PACKET_TYPES.DATA)!;
+
+    // Filmed and shown again within the session
+    await pair.a.processPacket({ ...oldChat });
+    assert.equal(texts.length, 1);
+
+    // B starts over with the same key and nothing else
+    await waitFor(() => pair.a.getDeliveryStatus(pair.b.deviceId).pending.length === 0);
+    pair.nodeB.stop();
+    const restarted = new MeshState(pair.keyB);
+    node = new MeshNode(restarted, [pair.linkB], options);
+    await node.start();
+    await waitFor(() => restarted.getPeer(pair.a.deviceId) !== undefined);
+    restarted.connect(pair.a.deviceId);
+    await waitFor(() => pair.a.getPeer(pair.b.deviceId)!.epoch === restarted.epoch);
+    assert.deepEqual(restarts, [pair.b.deviceId]);
+
+    // The old INITIAL can't roll the session back, nor bring its packets back
+    const macKey = pair.a.getPeer(pair.b.deviceId)!.macKey;
+    await pair.a.processPacket({ ...oldInitial });
+    assert.ok(errorsA.includes(`Refused INITIAL from a past session of peer: ${pair.b.deviceId}`));
+    assert.equal(pair.a.getPeer(pair.b.deviceId)!.epoch, restarted.epoch);
+    assert.equal(pair.a.getPeer(pair.b.deviceId)!.macKey, macKey);
+
+    await pair.a.processPacket({ ...oldChat });
+    assert.ok(errorsA.includes(`Bad MAC on packet ${oldChat.pn} from peer: ${pair.b.deviceId}`));
+    assert.equal(texts.length, 1);
+
+    await restarted.sendChat(pair.a.deviceId, 'new session');
+    await waitFor(() => texts.includes('new session'));
+  } finally {
+    pair.stop();
+    node?.stop();
+  }
+});
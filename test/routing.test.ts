@@ -0,0 +1,194 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RoutingTable } from '../routing';
+import { computeMac, deviceIdFromPublicKey, generateKeyPair, MAX_DEVICE_ID_LENGTH } from '../crypto';
+import {
+  createDataPacket,
+  encodePacketBody,
+  MESSAGE_TYPES,
+  PACKET_TYPES,
+  type AnnouncePayload,
+  type MessageType,
+  type RoutePayload,
+} from '../protocol';
+import type { MeshState } from '../mesh';
+import { connectedChain, receivedTexts, waitFor } from './helpers';
+
+test('the table keeps the shortest route and honours maxHops', () => {
+  const table = new RoutingTable('SELF0000', { maxHops: 4 });
+  table.addNeighbor('B0000000', 'keyB');
+  table.addNeighbor('C0000000', 'keyC');
+
+  assert.ok(table.update('B0000000', [['D0000000', 2, 'keyD']]));
+  assert.ok(table.update('C0000000', [['D0000000', 1, 'keyD']]));
+  assert.deepEqual(
+    { nextHop: table.lookup('D0000000')!.nextHop, hops: table.lookup('D0000000')!.hops },
+    { nextHop: 'C0000000', hops: 2 }
+  );
+
+  // Longer than maxHops, ourselves, or the announcer itself: ignored
+  assert.ok(!table.update('B0000000', [['E0000000', 4, 'keyE'], ['SELF0000', 1, 'k'], ['B0000000', 1, 'k']]));
+  assert.equal(table.lookup('E0000000'), undefined);
+});
+
+test('split horizon and neighbour loss', () => {
+  const table = new RoutingTable('SELF0000');
+  table.addNeighbor('B0000000', 'keyB');
+  table.addNeighbor('C0000000', 'keyC');
+  table.update('B0000000', [['D0000000', 1, 'keyD']]);
+
+  const toB = table.advertsFor('B0000000').map(([id]) => id);
+  const toC = table.advertsFor('C0000000').map(([id]) => id);
+  assert.deepEqual(toB.sort(), ['C0000000']);
+  assert.deepEqual(toC.sort(), ['B0000000', 'D0000000']);
+
+  assert.ok(table.removeNeighbor('B0000000'));
+  assert.equal(table.lookup('D0000000'), undefined);
+  assert.equal(table.lookup('B0000000'), undefined);
+});
+
+test('a short ID is looked up only while one destination has it', () => {
+  const table = new RoutingTable('SELF0000');
+  const first = 'C0C0C0C0' + '1'.repeat(24);
+  const second = 'C0C0C0C0' + '2'.repeat(24);
+
+  table.update('B0000000', [[first, 1, 'keyC1']]);
+  assert.equal(table.lookup('C0C0C0C0')!.destination, first);
+
+  table.update('B0000000', [[second, 1, 'keyC2']]);
+  assert.equal(table.lookup('C0C0C0C0'), undefined);
+  assert.equal(table.matching('C0C0C0C0').length, 2);
+  assert.equal(table.lookup(second)!.publicKey, 'keyC2');
+});
+
+test('routed message IDs are seen once, within the limit', () => {
+  const table = new RoutingTable('SELF0000', { seenLimit: 2 });
+  assert.ok(table.markSeen('A', '1'));
+  assert.ok(!table.markSeen('A', '1'));
+  table.markSeen('A', '2');
+  table.markSeen('A', '3');
+  assert.ok(table.markSeen('A', '1'), 'the oldest was forgotten');
+});
+
+test('chat reaches a device two hops away, encrypted end to end', async () => {
+  const chain = await connectedChain();
+  try {
+    const { a, b, c } = chain;
+    const texts = receivedTexts(c);
+    const forwarded: string[] = [];
+    b.subscribe((event) => {
+      if (event.type === 'message_forwarded') forwarded.push(event.destination);
+    });
+
+    assert.equal(a.routing.lookup(c.deviceId)!.nextHop, b.deviceId);
+    await a.sendChat(c.deviceId, 'via B');
+    await waitFor(() => texts.includes('via B'));
+
+    assert.deepEqual(forwarded, [c.deviceId]);
+    const fullA = await deviceIdFromPublicKey(a.publicKey, MAX_DEVICE_ID_LENGTH);
+    const message = c.getChatHistory(fullA).find((m) => m.text === 'via B')!;
+    assert.equal(message.via, b.deviceId);
+    assert.ok(!b.getChatHistory().some((m) => m.text === 'via B'), 'B only sees ciphertext');
+  } finally {
+    chain.stop();
+  }
+});
+
+test('routes and routed messages name remote devices by their full ID', async () => {
+  const chain = await connectedChain();
+  try {
+    const { a, b, c } = chain;
+    const [fullA, fullC] = await Promise.all([a, c].map((mesh) => deviceIdFromPublicKey(mesh.publicKey, MAX_DEVICE_ID_LENGTH)));
+    const textsA = receivedTexts(a);
+    const textsC = receivedTexts(c);
+
+    const announced = received(a, b.deviceId, MESSAGE_TYPES.ANNOUNCE)
+      .flatMap((payload) => (JSON.parse(payload) as AnnouncePayload).r.map(([id]) => id));
+    assert.ok(announced.includes(fullC));
+    assert.deepEqual(a.getRoutes().map((route) => route.destination).sort(), [b.deviceId, fullC].sort());
+
+    await a.sendChat(c.deviceId, 'by short ID');
+    await waitFor(() => textsC.includes('by short ID'));
+    const [routed] = received(b, a.deviceId, MESSAGE_TYPES.ROUTE).map((payload) => JSON.parse(payload) as RoutePayload);
+    assert.deepEqual([routed.s, routed.d], [fullA, fullC]);
+
+    // The reply goes to the ID the message came from
+    const [message] = c.getChatHistory().filter((m) => m.direction === 'received');
+    assert.equal(message.peerId, fullA);
+    await c.sendChat(message.peerId, 'by full ID');
+    await waitFor(() => textsA.includes('by full ID'));
+    assert.ok(a.getChatHistory(fullC).some((m) => m.text === 'by full ID'));
+  } finally {
+    chain.stop();
+  }
+});
+
+/**
+ * Payloads of the DATA messages of one type a mesh received from a peer
+ */
+function received(mesh: MeshState, peerId: string, messageType: MessageType): string[] {
+  return mesh.getPacketLog()
+    .filter((entry) => entry.direction === 'received' && entry.packet.src === peerId)
+    .filter((entry) => entry.packet.t === PACKET_TYPES.DATA && entry.packet.mt === messageType)
+    .map((entry) => entry.packet.payload!);
+}
+
+/**
+ * A sealed DATA packet from one chain member to its neighbour
+ */
+async function inject(from: MeshState, to: MeshState, pn: number, messageType: MessageType, payload: object): Promise<void> {
+  const packet = createDataPacket(from.deviceId, to.deviceId, pn, messageType, JSON.stringify(payload));
+  packet.mac = await computeMac(to.getPeer(from.deviceId)!.macKey!, encodePacketBody(packet));
+  await to.processPacket(packet);
+}
+
+test('adverts must name a full ID their key hashes to', async () => {
+  const chain = await connectedChain();
+  try {
+    const { a, b, c } = chain;
+    const errors: string[] = [];
+    a.subscribe((event) => {
+      if (event.type === 'error') errors.push(event.message);
+    });
+    const other = await generateKeyPair();
+    const fullOther = await deviceIdFromPublicKey(other.publicKeyRaw, MAX_DEVICE_ID_LENGTH);
+    const fullC = await deviceIdFromPublicKey(c.publicKey, MAX_DEVICE_ID_LENGTH);
+
+    const r: AnnouncePayload['r'] = [[other.deviceId, 1, other.publicKeyRaw], [fullOther, 1, c.publicKey], [fullC, 1, c.publicKey]];
+    await inject(b, a, 9000, MESSAGE_TYPES.ANNOUNCE, { r });
+    assert.deepEqual(errors, [`Dropped route adverts from ${b.deviceId} with mismatched keys: ${other.deviceId}, ${fullOther}`]);
+    assert.equal(a.routing.lookup(other.deviceId), undefined);
+    assert.equal(a.routing.lookup(fullC)!.publicKey, c.publicKey);
+  } finally {
+    chain.stop();
+  }
+});
+
+test('routed messages stop at their TTL and are forwarded once', async () => {
+  const chain = await connectedChain();
+  try {
+    const { a, b, c } = chain;
+    const errors: string[] = [];
+    const forwarded: string[] = [];
+    b.subscribe((event) => {
+      if (event.type === 'error') errors.push(event.message);
+      if (event.type === 'message_forwarded') forwarded.push(event.origin);
+    });
+
+    const [s, d] = await Promise.all([a, c].map((mesh) => deviceIdFromPublicKey(mesh.publicKey, MAX_DEVICE_ID_LENGTH)));
+    const route = { s, d, k: a.publicKey, c: 'AAAA' };
+    await inject(a, b, 9000, MESSAGE_TYPES.ROUTE, { ...route, i: 'dead', t: 1 });
+    assert.deepEqual(errors, [`Dropped routed message from ${a.deviceId}: TTL expired`]);
+    assert.deepEqual(forwarded, []);
+
+    await inject(a, b, 9001, MESSAGE_TYPES.ROUTE, { ...route, i: 'loop', t: 5 });
+    await inject(a, b, 9002, MESSAGE_TYPES.ROUTE, { ...route, i: 'loop', t: 5 });
+
+    // Short IDs are no longer read
+    await inject(a, b, 9003, MESSAGE_TYPES.ROUTE, { ...route, s: a.deviceId, d: c.deviceId, i: 'short', t: 5 });
+    assert.deepEqual(forwarded, [a.deviceId]);
+    assert.deepEqual(forwarded, [a.deviceId]);
+  } finally {
+    chain.stop();
+  }
+});
@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair, computeSignature } from '../crypto';
+import { MeshState, type MeshEvent } from '../mesh';
+import { createBeaconPacket, encodePacketBody, PACKET_TYPES, type QRPacket } from '../protocol';
+import { connectedPair, waitFor } from './helpers';
+
+function events(mesh: MeshState): MeshEvent[] {
+  const seen: MeshEvent[] = [];
+  mesh.subscribe((event) => seen.push(event));
+  return seen;
+}
+
+function errorMessages(seen: MeshEvent[]): string[] {
+  return seen.flatMap((event) => (event.type === 'error' ? [event.message] : []));
+}
+
+function initialsFrom(mesh: MeshState, peerId: string): QRPacket[] {
+  return mesh.getPacketLog()
+    .filter((entry) => entry.direction === 'received' && entry.packet.t === PACKET_TYPES.INITIAL && entry.packet.src === peerId)
+    .map((entry) => ({ ...entry.packet }));
+}
+
+async function resign(packet: QRPacket, signingKey: CryptoKey, signingKeyRaw: string): Promise<QRPacket> {
+  const forged: QRPacket = { ...packet, sk: signingKeyRaw, sig: undefined };
+  forged.sig = await computeSignature(signingKey, encodePacketBody(forged));
+  return forged;
+}
+
+test('the handshake pins each side\'s signing key', async () => {
+  const pair = await connectedPair();
+  try {
+    // XX: the responder learns it from the last message
+    await waitFor(() => pair.b.getPeer(pair.a.deviceId)!.signingKey !== undefined);
+    assert.equal(pair.a.getPeer(pair.b.deviceId)!.signingKey, pair.keyB.signingKeyRaw);
+    assert.equal(pair.b.getPeer(pair.a.deviceId)!.signingKey, pair.keyA.signingKeyRaw);
+  } finally {
+    pair.stop();
+  }
+});
+
+test('an INITIAL re-signed with another key is not pinned', async () => {
+  const pair = await connectedPair();
+  try {
+    // A connects again, now holding B's key: an IK handshake, whose first
+    // message carries A's signing key
+    pair.a.disconnect(pair.b.deviceId);
+    pair.a.connect(pair.b.deviceId);
+    await waitFor(() => initialsFrom(pair.b, pair.a.deviceId).length > 1);
+    const initial = initialsFrom(pair.b, pair.a.deviceId).at(-1)!;
+
+    // A device with B's keys that has never met A sees it re-signed
+    const attacker = await generateKeyPair();
+    const fresh = new MeshState(pair.keyB);
+    const seen = events(fresh);
+    await fresh.processPacket(await resign({ ...initial, pn: initial.pn + 1000 }, attacker.signingKey, attacker.signingKeyRaw));
+
+    assert.ok(errorMessages(seen).includes(`Signing key does not match the handshake: ${pair.a.deviceId}`));
+    assert.equal(fresh.getPeer(pair.a.deviceId)!.signingKey, undefined);
+
+    await fresh.processPacket(initial);
+    assert.equal(fresh.getPeer(pair.a.deviceId)!.signingKey, pair.keyA.signingKeyRaw);
+  } finally {
+    pair.stop();
+  }
+});
+
+test('a pinned peer cannot be downgraded to unsigned or re-signed INITIALs', async () => {
+  const pair = await connectedPair();
+  try {
+    await waitFor(() => pair.b.getPeer(pair.a.deviceId)!.signingKey !== undefined);
+    const seen = events(pair.b);
+    const [initial] = initialsFrom(pair.b, pair.a.deviceId);
+    const epoch = pair.b.getPeer(pair.a.deviceId)!.epoch;
+
+    await pair.b.processPacket({ ...initial, pn: initial.pn + 1000, sig: undefined });
+    assert.ok(errorMessages(seen).includes(`Rejected unsigned INITIAL from peer: ${pair.a.deviceId}`));
+
+    const attacker = await generateKeyPair();
+    await pair.b.processPacket(await resign({ ...initial, pn: initial.pn + 1001 }, attacker.signingKey, attacker.signingKeyRaw));
+    const changed = seen.find((event) => event.type === 'key_changed');
+    assert.ok(changed && changed.type === 'key_changed' && changed.signing);
+    assert.equal(changed.key, attacker.signingKeyRaw);
+
+    assert.equal(pair.b.getPeer(pair.a.deviceId)!.signingKey, pair.keyA.signingKeyRaw);
+    assert.equal(pair.b.getPeer(pair.a.deviceId)!.epoch, epoch);
+  } finally {
+    pair.stop();
+  }
+});
+
+test('requireSignatures drops unsigned and unverifiable beacons', async () => {
+  const [key, peerKey] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+  const mesh = new MeshState(key, { requireSignatures: true });
+  const seen = events(mesh);
+
+  await mesh.processBeacon(createBeaconPacket(peerKey.deviceId));
+  const signed = createBeaconPacket(peerKey.deviceId);
+  signed.sig = await computeSignature(peerKey.signingKey, encodePacketBody(signed));
+  await mesh.processBeacon(signed);
+
+  assert.equal(mesh.getPeer(peerKey.deviceId), undefined);
+  assert.deepEqual(errorMessages(seen), [
+    `Rejected unsigned beacon from peer: ${peerKey.deviceId}`,
+    `Rejected unverifiable signature from peer: ${peerKey.deviceId}`,
+  ]);
+});
@@ -0,0 +1,125 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair } from '../crypto';
+import { MeshState } from '../mesh';
+import { MeshNode } from '../transport';
+import {
+  chunkPacket,
+  createBeaconPacket,
+  createInitialPacket,
+  decodeFrame,
+  encodeFrame,
+  DECODE_ERRORS,
+  PACKET_TYPES,
+  type DecodeError,
+} from '../protocol';
+import { LoopTransport, loopPair, connectedPair, waitFor, sleep } from './helpers';
+
+const options = { tickInterval: 20, minDisplayTime: 20, retransmitInterval: 200 };
+
+function beaconsFrom(sent: string[], src: string): number {
+  return sent.filter((frame) => {
+    const result = decodeFrame(frame);
+    return result.ok && result.packet.t === PACKET_TYPES.BEACON && result.packet.src === src;
+  }).length;
+}
+
+function dataFrames(sent: string[]): number {
+  return sent.filter((frame) => {
+    const result = decodeFrame(frame);
+    return result.ok && result.packet.t === PACKET_TYPES.DATA;
+  }).length;
+}
+
+test('a started node shows its beacon on every transport', async () => {
+  const mesh = new MeshState(await generateKeyPair());
+  const [qr, audio] = [new LoopTransport('qr'), new LoopTransport('audio')];
+  const node = new MeshNode(mesh, [qr, audio], options);
+  try {
+    await node.start();
+    await waitFor(() => beaconsFrom(qr.sent, mesh.deviceId) > 0 && beaconsFrom(audio.sent, mesh.deviceId) > 0);
+    assert.ok(node.isRunning());
+  } finally {
+    node.stop();
+  }
+  assert.ok(!node.isRunning());
+});
+
+test('received frames are decoded and dispatched to the mesh', async () => {
+  const mesh = new MeshState(await generateKeyPair());
+  const [local, remote] = loopPair();
+  const decodeErrors: DecodeError[] = [];
+  const node = new MeshNode(mesh, [local], { ...options, onDecodeError: (error) => decodeErrors.push(error) });
+  try {
+    await node.start();
+    remote.send(encodeFrame(createBeaconPacket('0123ABCD')));
+    await waitFor(() => mesh.getPeer('0123ABCD') !== undefined);
+
+    // One flipped character fails the checksum and never reaches the mesh
+    const frame = encodeFrame(createBeaconPacket('4567CDEF'));
+    remote.send(frame.replace('4567', '4568'));
+    await waitFor(() => decodeErrors.length > 0);
+    assert.equal(decodeErrors[0].code, DECODE_ERRORS.CHECKSUM);
+    assert.equal(mesh.getPeer('4568CDEF'), undefined);
+  } finally {
+    node.stop();
+  }
+});
+
+test('chunked frames are reassembled before dispatch', async () => {
+  const [key, peerKey] = await Promise.all([generateKeyPair(), generateKeyPair()]);
+  const mesh = new MeshState(key);
+  const transport = new LoopTransport();
+  const node = new MeshNode(mesh, [transport], options);
+
+  const initial = createInitialPacket(peerKey.deviceId, mesh.deviceId, 1, peerKey.publicKeyRaw, 'bob');
+  const chunks = chunkPacket(encodeFrame(initial), 0, 24);
+  assert.ok(chunks.length > 1);
+
+  for (const chunk of chunks.slice(0, -1)) await node.receive(chunk, transport);
+  assert.equal(mesh.getPeer(peerKey.deviceId), undefined, 'incomplete until the last chunk');
+  await node.receive(chunks[chunks.length - 1], transport);
+  assert.equal(mesh.getPeer(peerKey.deviceId)!.name, 'bob');
+});
+
+test('a removed transport is neither listened to nor sent on', async () => {
+  const mesh = new MeshState(await generateKeyPair());
+  const [local, remote] = loopPair();
+  const other = new LoopTransport('other');
+  const node = new MeshNode(mesh, [local, other], options);
+  try {
+    await node.start();
+    node.removeTransport(local);
+    assert.deepEqual(node.getTransports(), [other]);
+    const shown = local.sent.length;
+
+    remote.send(encodeFrame(createBeaconPacket('0123ABCD')));
+    mesh.invalidateBeacon();
+    node.refresh();
+    await sleep(50);
+    assert.equal(mesh.getPeer('0123ABCD'), undefined);
+    assert.equal(local.sent.length, shown);
+  } finally {
+    node.stop();
+  }
+});
+
+test('a routed peer gets its packets on its own transport', async () => {
+  const pair = await connectedPair();
+  try {
+    const route = new LoopTransport('rtc');
+    pair.nodeA.setRoute(pair.b.deviceId, route);
+    assert.equal(pair.nodeA.getRoute(pair.b.deviceId), route);
+    const shared = pair.linkA.sent.length;
+
+    await pair.a.sendChat(pair.b.deviceId, 'over the side channel');
+    await waitFor(() => dataFrames(route.sent) > 0);
+    await sleep(50);
+    assert.equal(dataFrames(pair.linkA.sent.slice(shared)), 0);
+
+    pair.nodeA.setRoute(pair.b.deviceId, null);
+    assert.equal(pair.nodeA.getRoute(pair.b.deviceId), undefined);
+  } finally {
+    pair.stop();
+  }
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair, computeFingerprint, computeSafetyNumber } from '../crypto';
+import { MeshState } from '../mesh';
+import { encodeVerificationCode, isVerificationCode, parseVerificationCode } from '../protocol';
+import { connectedPair } from './helpers';
+
+function errors(mesh: MeshState): string[] {
+  const messages: string[] = [];
+  mesh.subscribe((event) => {
+    if (event.type === 'error') messages.push(event.message);
+  });
+  return messages;
+}
+
+test('a safety number is the same from either side and differs per pair', async () => {
+  const [a, b, c] = await Promise.all([generateKeyPair(), generateKeyPair(), generateKeyPair()]);
+  const number = await computeSafetyNumber(a.publicKeyRaw, b.publicKeyRaw);
+
+  assert.match(number, /^\d{5}( \d{5}){11}$/);
+  assert.equal(await computeSafetyNumber(b.publicKeyRaw, a.publicKeyRaw), number);
+  assert.notEqual(await computeSafetyNumber(a.publicKeyRaw, c.publicKeyRaw), number);
+});
+
+test('connected peers show each other the same safety number', async () => {
+  const pair = await connectedPair();
+  try {
+    const number = await pair.a.getSafetyNumber(pair.b.deviceId);
+    assert.ok(number);
+    assert.equal(await pair.b.getSafetyNumber(pair.a.deviceId), number);
+    assert.equal(await pair.a.getSafetyNumber('0123ABCD'), null);
+  } finally {
+    pair.stop();
+  }
+});
+
+test('verification codes carry the full fingerprint behind a checksum', async () => {
+  const fingerprint = await computeFingerprint((await generateKeyPair()).publicKeyRaw);
+  const code = encodeVerificationCode(fingerprint);
+
+  assert.ok(isVerificationCode(code));
+  assert.equal(parseVerificationCode(code), fingerprint);
+
+  const misread = code.slice(0, 10) + (code[10] === '0' ? '1' : '0') + code.slice(11);
+  assert.equal(parseVerificationCode(misread), null);
+  assert.equal(parseVerificationCode(fingerprint), null);
+});
+
+test('scanning the peer\'s code marks it verified, another key behind its ID does not', async () => {
+  const pair = await connectedPair();
+  try {
+    const errorsB = errors(pair.b);
+    const peer = pair.b.getPeer(pair.a.deviceId)!;
+    assert.ok(!peer.verified);
+
+    assert.equal(await pair.b.verifyPeer(await pair.a.getVerificationCode()), true);
+    assert.equal(peer.verified, true);
+
+    // Same device ID, different key: someone relayed theirs to us
+    const fingerprint = await computeFingerprint(pair.a.publicKey);
+    const forged = fingerprint.slice(0, 32) + (fingerprint[32] === 'F' ? 'E' : 'F') + fingerprint.slice(33);
+    assert.equal(await pair.b.verifyPeer(encodeVerificationCode(forged)), false);
+    assert.equal(peer.verified, false);
+    assert.ok(errorsB.some((message) => message.startsWith('Verification failed - key mismatch')));
+
+    assert.equal(await pair.b.verifyPeer('not a code'), false);
+    assert.ok(errorsB.includes('Invalid verification code'));
+  } finally {
+    pair.stop();
+  }
+});
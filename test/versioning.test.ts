@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair } from '../crypto';
+import { MeshState } from '../mesh';
+import {
+  createBeaconPacket,
+  createDataPacket,
+  decodeFrame,
+  versionsToCapabilities,
+  capabilitiesToVersions,
+  negotiateVersion,
+  DECODE_ERRORS,
+  MESSAGE_TYPES,
+  PROTOCOL_VERSION,
+} from '../protocol';
+import { BINARY_PROTOCOL_VERSION } from '../binary-codec';
+import { connectedPair, waitFor } from './helpers';
+
+const V3 = PROTOCOL_VERSION;
+const V4 = BINARY_PROTOCOL_VERSION;
+
+test('capability bits round-trip and pick the highest common version', () => {
+  assert.equal(versionsToCapabilities([V3, V4]), 0b11);
+  assert.deepEqual(capabilitiesToVersions(0b11), [V3, V4]);
+
+  assert.equal(negotiateVersion([V3, V4], versionsToCapabilities([V3, V4])), V4);
+  assert.equal(negotiateVersion([V3], versionsToCapabilities([V3, V4])), V3);
+  assert.equal(negotiateVersion([V3, V4], versionsToCapabilities([V3])), V3);
+  // Never sent a capability field: v3 only
+  assert.equal(negotiateVersion([V3, V4], undefined), V3);
+});
+
+test('frames from unknown versions are reported, not misparsed', () => {
+  const json = decodeFrame('{"v":2,"t":"B","src":"0123ABCD"}');
+  assert.ok(!json.ok);
+  assert.equal(json.error.code, DECODE_ERRORS.UNSUPPORTED_VERSION);
+  assert.equal(json.error.version, 2);
+
+  const future = decodeFrame('Q9ABCDEF');
+  assert.ok(!future.ok);
+  assert.equal(future.error.code, DECODE_ERRORS.UNSUPPORTED_VERSION);
+  assert.equal(future.error.version, 9);
+});
+
+test('a peer is spoken to in the highest version it advertised', async () => {
+  const key = await generateKeyPair();
+  const mesh = new MeshState(key);
+  const legacyOnly = new MeshState(key, { versions: [V3] });
+
+  const modern = createBeaconPacket('0123ABCD');
+  modern.caps = versionsToCapabilities([V3, V4]);
+  const silent = createBeaconPacket('4567CDEF');
+
+  for (const beacon of [modern, silent]) {
+    await mesh.processBeacon(beacon);
+    await legacyOnly.processBeacon(beacon);
+  }
+
+  assert.equal(mesh.getWireVersion('0123ABCD'), V4);
+  assert.equal(mesh.getWireVersion('4567CDEF'), V3);
+  assert.equal(legacyOnly.getWireVersion('0123ABCD'), V3);
+});
+
+test('connected peers switch to v4 on the wire', async () => {
+  const pair = await connectedPair();
+  try {
+    const start = pair.linkA.sent.length;
+    await pair.a.sendChat(pair.b.deviceId, 'binary please');
+    await waitFor(() => pair.linkA.sent.slice(start).some((frame) => frame.startsWith(`Q${V4}`)));
+  } finally {
+    pair.stop();
+  }
+});
+
+test('a disabled version is refused and reported once', async () => {
+  const mesh = new MeshState(await generateKeyPair(), { versions: [V3] });
+  const errors: string[] = [];
+  mesh.subscribe((event) => {
+    if (event.type === 'error') errors.push(event.message);
+  });
+
+  for (const pn of [1, 2]) {
+    const packet = createDataPacket('0123ABCD', mesh.deviceId, pn, MESSAGE_TYPES.CHAT, 'hi');
+    packet.v = V4;
+    await mesh.processPacket(packet);
+  }
+  assert.deepEqual(errors, [`Cannot read packet: v${V4} is disabled`]);
+});
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebRTCUpgradeManager, LoopbackRTC, compressSdp, decompressSdp, type UpgradeEvent } from '../webrtc-upgrade';
+import { decodeFrame, MESSAGE_TYPES } from '../protocol';
+import { connectedPair, receivedTexts, waitFor, type MeshPair } from './helpers';
+
+interface Upgraded extends MeshPair {
+  rtc: LoopbackRTC;
+  managerA: WebRTCUpgradeManager;
+  managerB: WebRTCUpgradeManager;
+  eventsA: UpgradeEvent[];
+  eventsB: UpgradeEvent[];
+  close(): void;
+}
+
+async function setup(upgradeTimeout?: number): Promise<Upgraded> {
+  const pair = await connectedPair();
+  const rtc = new LoopbackRTC();
+  const options = { createPeerConnection: rtc.createPeerConnection, upgradeTimeout };
+  const managerA = new WebRTCUpgradeManager(pair.nodeA, options);
+  const managerB = new WebRTCUpgradeManager(pair.nodeB, options);
+  const eventsA: UpgradeEvent[] = [];
+  const eventsB: UpgradeEvent[] = [];
+  managerA.subscribe((event) => eventsA.push(event));
+  managerB.subscribe((event) => eventsB.push(event));
+  return {
+    ...pair, rtc, managerA, managerB, eventsA, eventsB,
+    close() {
+      managerA.destroy();
+      managerB.destroy();
+      pair.stop();
+    },
+  };
+}
+
+function sentOffers(sent: string[]): string[] {
+  return sent.flatMap((frame) => {
+    const result = decodeFrame(frame);
+    return result.ok && result.packet.mt === MESSAGE_TYPES.OFFER && result.packet.payload ? [result.packet.payload] : [];
+  });
+}
+
+test('SDP compression round-trips', async () => {
+  const sdp = 'v=0\r\no=- 4611731400430051336 2 IN IP4 127.0.0.1\r\n' + 'a=candidate:1 1 udp 2122260223 192.168.1.2 54321 typ host\r\n'.repeat(4);
+  const compressed = await compressSdp(sdp);
+  assert.ok(compressed.length < sdp.length);
+  assert.equal(await decompressSdp(compressed), sdp);
+});
+
+test('offer and answer travel over the QR link and open a data channel', async () => {
+  const s = await setup();
+  try {
+    await s.managerA.upgrade(s.b.deviceId);
+    await waitFor(() => s.managerA.isUpgraded(s.b.deviceId) && s.managerB.isUpgraded(s.a.deviceId));
+
+    assert.ok(sentOffers(s.linkA.sent).length > 0, 'offer sent over the loop link');
+    assert.ok(sentOffers(s.linkB.sent).length > 0, 'answer sent over the loop link');
+    assert.deepEqual(s.eventsA, [{ type: 'transport-changed', peerId: s.b.deviceId, from: 'loop', to: 'webrtc' }]);
+    assert.deepEqual(s.eventsB, [{ type: 'transport-changed', peerId: s.a.deviceId, from: 'loop', to: 'webrtc' }]);
+  } finally {
+    s.close();
+  }
+});
+
+test('traffic migrates to the data channel', async () => {
+  const s = await setup();
+  try {
+    const texts = receivedTexts(s.b);
+    await s.managerA.upgrade(s.b.deviceId);
+    await waitFor(() => s.managerA.isUpgraded(s.b.deviceId) && s.managerB.isUpgraded(s.a.deviceId));
+
+    // Nothing more over the loop link: the chat must arrive by WebRTC
+    s.linkA.blocked = true;
+    s.linkB.blocked = true;
+    await s.a.sendChat(s.b.deviceId, 'over the channel');
+    await waitFor(() => texts.includes('over the channel'));
+    await waitFor(() => s.a.getDeliveryStatus(s.b.deviceId).pending.length === 0);
+  } finally {
+    s.close();
+  }
+});
+
+test('a dropped channel falls back to the QR link', async () => {
+  const s = await setup();
+  try {
+    const texts = receivedTexts(s.b);
+    await s.managerA.upgrade(s.b.deviceId);
+    await waitFor(() => s.managerA.isUpgraded(s.b.deviceId) && s.managerB.isUpgraded(s.a.deviceId));
+
+    s.rtc.disconnectAll();
+    assert.equal(s.managerA.isUpgraded(s.b.deviceId), false);
+    assert.equal(s.managerB.isUpgraded(s.a.deviceId), false);
+    assert.deepEqual(s.eventsA.at(-1), { type: 'transport-changed', peerId: s.b.deviceId, from: 'webrtc', to: 'loop' });
+
+    const before = s.linkA.sent.length;
+    await s.a.sendChat(s.b.deviceId, 'back on QR');
+    await waitFor(() => texts.includes('back on QR'));
+    assert.ok(s.linkA.sent.length > before);
+  } finally {
+    s.close();
+  }
+});
+
+test('a channel that never opens fails the upgrade and keeps QR', async () => {
+  const s = await setup(300);
+  try {
+    s.rtc.connectable = false;
+    await s.managerA.upgrade(s.b.deviceId);
+    await waitFor(() => s.eventsA.some((event) => event.type === 'upgrade_failed'));
+
+    assert.equal(s.managerA.isUpgraded(s.b.deviceId), false);
+    assert.equal(s.nodeA.getRoute(s.b.deviceId), undefined);
+    const texts = receivedTexts(s.b);
+    await s.a.sendChat(s.b.deviceId, 'still QR');
+    await waitFor(() => texts.includes('still QR'));
+  } finally {
+    s.close();
+  }
+});
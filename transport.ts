@@ -0,0 +1,372 @@
+/**
+ * Transport layer - pluggable carriers for encoded packets
+ *
+ * A Transport moves encoded packet strings (see encodeFrame) between
+ * devices: QR display + camera, audio, clipboard, etc. MeshNode binds a
+ * MeshState to one or more transports and owns the glue every app used to
+ * reimplement: the outgoing display loop and inbound decode/dispatch.
+ */
+
+import {
+  decodeFrame,
+  DECODE_ERRORS,
+  isChunk,
+  ChunkAssembler,
+  isFountainFrame,
+  isVerificationCode,
+  FountainDecoder,
+  PACKET_TYPES,
+  type QRPacket,
+  type DecodeError,
+} from './protocol';
+import type { MeshState, MeshEvent } from './mesh';
+import type { LinkQuality, ErrorCorrectionLevel } from './link-quality';
+
+export type TransportReceiveCallback = (data: string) => void;
+
+/**
+ * Per-send hints for transports that split or render frames
+ */
+export interface TransportSendOptions {
+  frameSize?: number;                          // Largest frame (chars) to show
+  errorCorrectionLevel?: ErrorCorrectionLevel;
+}
+
+/**
+ * Transport interface - implemented by every physical carrier
+ */
+export interface Transport {
+  readonly name: string;
+
+  /**
+   * Transmit an encoded packet. For display-style transports this replaces
+   * whatever is currently shown; sending the same data with the same
+   * options again is a retransmission hint and may be ignored.
+   */
+  send(data: string, options?: TransportSendOptions): void | Promise<void>;
+
+  /**
+   * Register a callback for raw received frames (packets, chunks or fountain frames).
+   * Returns an unsubscribe function.
+   */
+  onReceive(callback: TransportReceiveCallback): () => void;
+
+  start(): Promise<void>;
+  stop(): void;
+}
+
+export interface MeshNodeOptions {
+  tickInterval?: number;        // ms between retry checks / queue refreshes
+  minDisplayTime?: number;      // ms a packet stays up before being replaced
+  retransmitInterval?: number;  // ms before an unchanged packet is sent again
+  linkQuality?: LinkQuality;    // Adapts frame size / error correction to ACKs and misreads
+  onFrame?: (data: string, transport: Transport) => void;
+  onPacket?: (packet: QRPacket, transport: Transport) => void;
+  onDecodeError?: (error: DecodeError, data: string, transport: Transport) => void;
+}
+
+interface CurrentPacket {
+  packet: QRPacket;
+  encoded: string;
+  options: TransportSendOptions;
+  displayedAt: number;
+  sentAt: number;
+}
+
+/**
+ * Mesh node - drives a MeshState over a set of transports
+ */
+export class MeshNode {
+  readonly mesh: MeshState;
+  private transports: Map<Transport, () => void> = new Map();
+  private routes: Map<string, { transport: Transport; unsubscribe: () => void }> = new Map();
+  // Per transport, so frames from different senders never mix
+  private reassembly: Map<Transport, { chunks: ChunkAssembler; fountain: FountainDecoder }> = new Map();
+  private current: CurrentPacket | null = null;
+  private inbound: Promise<void> = Promise.resolve();
+  private running: boolean = false;
+  private tickId: ReturnType<typeof setInterval> | null = null;
+  private holdTimeout: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeMesh: (() => void) | null = null;
+  private tickInterval: number;
+  private minDisplayTime: number;
+  private retransmitInterval: number;
+  private linkQuality?: LinkQuality;
+  private onFrame?: (data: string, transport: Transport) => void;
+  private onPacket?: (packet: QRPacket, transport: Transport) => void;
+  private onDecodeError?: (error: DecodeError, data: string, transport: Transport) => void;
+
+  constructor(mesh: MeshState, transports: Transport[] = [], options: MeshNodeOptions = {}) {
+    this.mesh = mesh;
+    this.tickInterval = options.tickInterval ?? 1000;
+    this.minDisplayTime = options.minDisplayTime ?? 1000;
+    this.retransmitInterval = options.retransmitInterval ?? 3000;
+    this.linkQuality = options.linkQuality;
+    this.onFrame = options.onFrame;
+    this.onPacket = options.onPacket;
+    this.onDecodeError = options.onDecodeError;
+    transports.forEach((transport) => this.attach(transport));
+  }
+
+  getTransports(): Transport[] {
+    return Array.from(this.transports.keys());
+  }
+
+  /**
+   * Add a transport. If the node is running the transport is started and
+   * immediately given the current packet.
+   */
+  async addTransport(transport: Transport): Promise<void> {
+    if (this.transports.has(transport)) return;
+    this.attach(transport);
+
+    if (this.running) {
+      await transport.start();
+      if (this.current) {
+        this.sendTo(transport, this.current.encoded, this.current.options);
+      }
+    }
+  }
+
+  removeTransport(transport: Transport): void {
+    const unsubscribe = this.transports.get(transport);
+    if (!unsubscribe) return;
+    unsubscribe();
+    this.transports.delete(transport);
+    this.reassembly.delete(transport);
+    if (this.running) transport.stop();
+  }
+
+  /**
+   * Route one peer's traffic over a dedicated transport (e.g. a WebRTC
+   * data channel). Its packets are sent there as soon as they are queued
+   * and no longer take turns on the shared display. Pass null to fall
+   * back to the shared transports.
+   */
+  setRoute(peerId: string, transport: Transport | null): void {
+    const existing = this.routes.get(peerId);
+    if (existing) {
+      existing.unsubscribe();
+      this.routes.delete(peerId);
+    }
+
+    if (transport) {
+      this.routes.set(peerId, { transport, unsubscribe: this.listen(transport) });
+      this.flushRoutes();
+    }
+
+    this.refresh();
+  }
+
+  getRoute(peerId: string): Transport | undefined {
+    return this.routes.get(peerId)?.transport;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    this.unsubscribeMesh = this.mesh.subscribe((event) => this.handleMeshEvent(event));
+    await Promise.all(this.getTransports().map((transport) => transport.start()));
+
+    this.tickId = setInterval(() => {
+      this.mesh.checkRetries();
+      this.flushRoutes();
+      this.refresh();
+    }, this.tickInterval);
+
+    this.refresh();
+  }
+
+  stop(): void {
+    this.running = false;
+
+    if (this.tickId !== null) {
+      clearInterval(this.tickId);
+      this.tickId = null;
+    }
+    if (this.holdTimeout !== null) {
+      clearTimeout(this.holdTimeout);
+      this.holdTimeout = null;
+    }
+
+    this.unsubscribeMesh?.();
+    this.unsubscribeMesh = null;
+    this.routes.forEach((route) => route.unsubscribe());
+    this.routes.clear();
+    this.getTransports().forEach((transport) => transport.stop());
+    this.current = null;
+    this.reassembly.clear();
+  }
+
+  /**
+   * Show the mesh's next outgoing packet on every transport
+   */
+  refresh(): void {
+    if (!this.running) return;
+
+    const routed = new Set(this.routes.keys());
+    const packet = this.mesh.getNextOutgoingPacket(routed);
+    if (!packet) return;
+
+    const encoded = this.mesh.encodeOutgoing(packet);
+    const now = Date.now();
+
+    if (this.current && encoded === this.current.encoded) {
+      // Same packet - periodically count it as a retransmission
+      if (now - this.current.sentAt >= this.retransmitInterval) {
+        this.transmit(packet, encoded, this.current.displayedAt);
+      }
+      return;
+    }
+
+    // Hold the current packet long enough for the peer to scan it
+    if (this.current) {
+      const remaining = this.minDisplayTime - (now - this.current.displayedAt);
+      if (remaining > 0) {
+        if (this.holdTimeout === null) {
+          this.holdTimeout = setTimeout(() => {
+            this.holdTimeout = null;
+            this.refresh();
+          }, remaining);
+        }
+        return;
+      }
+    }
+
+    this.transmit(packet, encoded, now);
+  }
+
+  /**
+   * Feed a raw frame (packet, chunk or fountain frame) into the mesh as if
+   * a transport had received it
+   */
+  async receive(data: string, transport: Transport): Promise<void> {
+    this.onFrame?.(data, transport);
+
+    // A peer's verification QR, scanned off its screen
+    if (isVerificationCode(data)) {
+      await this.mesh.verifyPeer(data);
+      return;
+    }
+
+    if (isChunk(data)) {
+      const assembled = this.reassemblyFor(transport).chunks.addChunk(data);
+      if (!assembled) return;
+      data = assembled;
+    } else if (isFountainFrame(data)) {
+      const decoded = this.reassemblyFor(transport).fountain.addFrame(data);
+      if (!decoded) return;
+      data = decoded;
+    }
+
+    const result = decodeFrame(data);
+    if (this.transports.has(transport)) {
+      this.linkQuality?.recordScan(result.ok || result.error.code !== DECODE_ERRORS.CHECKSUM);
+    }
+    if (!result.ok) {
+      this.onDecodeError?.(result.error, data, transport);
+      this.mesh.reportDecodeError(result.error);
+      return;
+    }
+
+    const packet = result.packet;
+    this.onPacket?.(packet, transport);
+
+    if (packet.t === PACKET_TYPES.BEACON) {
+      await this.mesh.processBeacon(packet);
+    } else {
+      await this.mesh.processPacket(packet);
+    }
+  }
+
+  private reassemblyFor(transport: Transport): { chunks: ChunkAssembler; fountain: FountainDecoder } {
+    let reassembly = this.reassembly.get(transport);
+    if (!reassembly) {
+      reassembly = { chunks: new ChunkAssembler(), fountain: new FountainDecoder() };
+      this.reassembly.set(transport, reassembly);
+    }
+    return reassembly;
+  }
+
+  private attach(transport: Transport): void {
+    this.transports.set(transport, this.listen(transport));
+  }
+
+  private listen(transport: Transport): () => void {
+    // Frames are processed one at a time so e.g. an INITIAL finishes
+    // deriving its key before the DATA that follows it is decrypted
+    return transport.onReceive((data) => {
+      this.inbound = this.inbound
+        .then(() => this.receive(data, transport))
+        .catch((e) => console.error('[MeshNode] Receive failed:', e));
+    });
+  }
+
+  private handleMeshEvent(event: MeshEvent): void {
+    // Received packets are followed by more specific events once handled
+    if (event.type === 'packet_received') return;
+    if (event.type === 'packet_acked' && !this.routes.has(event.peerId)) {
+      this.linkQuality?.recordAck(event.rtt);
+    }
+    this.flushRoutes();
+    this.refresh();
+  }
+
+  /**
+   * Send new (or overdue) pending packets for routed peers
+   */
+  private flushRoutes(): void {
+    if (!this.running) return;
+    const now = Date.now();
+
+    for (const [peerId, { transport }] of this.routes) {
+      const peer = this.mesh.getPeer(peerId);
+      if (!peer) continue;
+
+      for (const sent of peer.sentPackets.values()) {
+        if (sent.status !== 'pending') continue;
+        if (sent.retries > 0 && now - sent.timestamp < this.retransmitInterval) continue;
+        this.sendTo(transport, this.mesh.encodeOutgoing(sent.packet));
+        this.mesh.markPacketDisplayed(sent.packet);
+      }
+    }
+  }
+
+  private transmit(packet: QRPacket, encoded: string, displayedAt: number): void {
+    const sent = this.mesh.getPeer(packet.dst)?.sentPackets.get(packet.pn);
+    if (sent && sent.retries > 0) {
+      this.linkQuality?.recordRetransmit();
+    }
+
+    const options = this.getSendOptions(packet);
+    this.current = { packet, encoded, options, displayedAt, sentAt: Date.now() };
+    for (const transport of this.transports.keys()) {
+      this.sendTo(transport, encoded, options);
+    }
+    this.mesh.markPacketDisplayed(packet);
+  }
+
+  /**
+   * Frame hints for a packet: the link estimate, capped by what its
+   * recipient advertised
+   */
+  private getSendOptions(packet: QRPacket): TransportSendOptions {
+    const limit = this.mesh.getPeer(packet.dst)?.maxFrameSize;
+    if (!this.linkQuality) return { frameSize: limit };
+    return {
+      frameSize: Math.min(this.linkQuality.frameSize, limit ?? Infinity),
+      errorCorrectionLevel: this.linkQuality.errorCorrectionLevel,
+    };
+  }
+
+  private sendTo(transport: Transport, encoded: string, options?: TransportSendOptions): void {
+    Promise.resolve()
+      .then(() => transport.send(encoded, options))
+      .catch((e) => console.error(`[MeshNode] ${transport.name} send failed:`, e));
+  }
+}
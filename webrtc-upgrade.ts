@@ -0,0 +1,466 @@
+/**
+ * WebRTC Upgrade - negotiate an RTCDataChannel over the QR link
+ *
+ * Uses OFFER messages (OfferPayload.rtc) to carry a compressed SDP offer
+ * or answer. ICE is non-trickle: we wait for gathering to finish so all
+ * candidates travel inside the one SDP. Once the data channel opens the
+ * peer is routed over it via MeshNode.setRoute; if the channel drops the
+ * route is removed and traffic falls back to the QR transports.
+ *
+ * rtc field format: {kind}{base64(deflate-raw(sdp))}, kind = O (offer) | A (answer)
+ *
+ * LoopbackRTC stands in for RTCPeerConnection in-process (tests, demos).
+ */
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from './crypto';
+import type { OfferPayload } from './protocol';
+import type { MeshEvent } from './mesh';
+import type { MeshNode, Transport, TransportReceiveCallback } from './transport';
+
+/**
+ * Minimal slice of RTCDataChannel used here
+ */
+export interface DataChannelLike {
+  readonly readyState: string;
+  onopen: (() => void) | null;
+  onclose: (() => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface SessionDescriptionLike {
+  type: 'offer' | 'answer';
+  sdp: string;
+}
+
+/**
+ * Minimal slice of RTCPeerConnection used here - lets tests inject an
+ * in-process stand-in
+ */
+export interface PeerConnectionLike {
+  readonly localDescription: SessionDescriptionLike | null;
+  readonly iceGatheringState: string;
+  onicegatheringstatechange: (() => void) | null;
+  ondatachannel: ((event: { channel: DataChannelLike }) => void) | null;
+  createDataChannel(label: string): DataChannelLike;
+  createOffer(): Promise<SessionDescriptionLike>;
+  createAnswer(): Promise<SessionDescriptionLike>;
+  setLocalDescription(description: SessionDescriptionLike): Promise<void>;
+  setRemoteDescription(description: SessionDescriptionLike): Promise<void>;
+  close(): void;
+}
+
+export interface WebRTCUpgradeOptions {
+  rtcConfig?: RTCConfiguration;
+  createPeerConnection?: (config?: RTCConfiguration) => PeerConnectionLike;
+  autoAccept?: boolean;        // Answer incoming offers automatically (default true)
+  iceGatheringTimeout?: number;
+  upgradeTimeout?: number;     // ms to wait for the data channel to open
+}
+
+export type UpgradeEvent =
+  | { type: 'transport-changed'; peerId: string; from: string; to: string }
+  | { type: 'upgrade_failed'; peerId: string; reason: string };
+
+export type UpgradeEventHandler = (event: UpgradeEvent) => void;
+
+const CHANNEL_LABEL = 'qrmesh';
+const KIND_OFFER = 'O';
+const KIND_ANSWER = 'A';
+
+/**
+ * Compress an SDP for the QR link
+ */
+export async function compressSdp(sdp: string): Promise<string> {
+  const stream = new Blob([sdp]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return arrayBufferToBase64(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Inverse of compressSdp
+ */
+export async function decompressSdp(compressed: string): Promise<string> {
+  const stream = new Blob([base64ToArrayBuffer(compressed)])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/**
+ * Transport over an open data channel
+ */
+export class RTCTransport implements Transport {
+  readonly name = 'webrtc';
+  private channel: DataChannelLike;
+  private callbacks: Set<TransportReceiveCallback> = new Set();
+
+  constructor(channel: DataChannelLike) {
+    this.channel = channel;
+    this.channel.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+        this.callbacks.forEach((callback) => callback(event.data as string));
+      }
+    };
+  }
+
+  async start(): Promise<void> {}
+
+  stop(): void {
+    this.channel.close();
+  }
+
+  onReceive(callback: TransportReceiveCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  send(data: string): void {
+    if (this.channel.readyState === 'open') {
+      this.channel.send(data);
+    }
+  }
+}
+
+interface UpgradeSession {
+  pc: PeerConnectionLike;
+  role: 'offerer' | 'answerer';
+  transport?: RTCTransport;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Upgrade manager - drives WebRTC negotiation for a MeshNode
+ */
+export class WebRTCUpgradeManager {
+  private node: MeshNode;
+  private sessions: Map<string, UpgradeSession> = new Map();
+  private eventHandlers: Set<UpgradeEventHandler> = new Set();
+  private unsubscribeMesh: () => void;
+  private rtcConfig?: RTCConfiguration;
+  private createPeerConnection: (config?: RTCConfiguration) => PeerConnectionLike;
+  private autoAccept: boolean;
+  private iceGatheringTimeout: number;
+  private upgradeTimeout: number;
+
+  constructor(node: MeshNode, options: WebRTCUpgradeOptions = {}) {
+    this.node = node;
+    this.rtcConfig = options.rtcConfig;
+    this.createPeerConnection = options.createPeerConnection
+      ?? ((config) => new RTCPeerConnection(config) as unknown as PeerConnectionLike);
+    this.autoAccept = options.autoAccept ?? true;
+    this.iceGatheringTimeout = options.iceGatheringTimeout ?? 5000;
+    this.upgradeTimeout = options.upgradeTimeout ?? 60000;
+    this.unsubscribeMesh = node.mesh.subscribe((event) => this.handleMeshEvent(event));
+  }
+
+  subscribe(handler: UpgradeEventHandler): () => void {
+    this.eventHandlers.add(handler);
+    return () => this.eventHandlers.delete(handler);
+  }
+
+  private emit(event: UpgradeEvent): void {
+    this.eventHandlers.forEach((handler) => handler(event));
+  }
+
+  isUpgraded(peerId: string): boolean {
+    return this.node.getRoute(peerId) instanceof RTCTransport;
+  }
+
+  /**
+   * Offer a WebRTC upgrade to a peer over the current transport
+   */
+  async upgrade(peerId: string): Promise<void> {
+    if (!this.node.mesh.getPeer(peerId)) {
+      throw new Error(`Unknown peer: ${peerId}`);
+    }
+    if (this.sessions.has(peerId)) return;
+
+    const session = this.createSession(peerId, 'offerer');
+    const channel = session.pc.createDataChannel(CHANNEL_LABEL);
+    this.bindChannel(peerId, session, channel);
+
+    try {
+      await session.pc.setLocalDescription(await session.pc.createOffer());
+      const sdp = await this.gatheredSdp(session.pc);
+      await this.sendSdp(peerId, KIND_OFFER, await compressSdp(sdp));
+    } catch (e) {
+      this.fail(peerId, `Offer failed: ${(e as Error).message}`);
+    }
+  }
+
+  /**
+   * Close the data channel and fall back to the shared transports
+   */
+  close(peerId: string): void {
+    const session = this.sessions.get(peerId);
+    if (!session) return;
+
+    clearTimeout(session.timer);
+    this.sessions.delete(peerId);
+    session.transport?.stop();
+    session.pc.close();
+
+    if (session.transport && this.node.getRoute(peerId) === session.transport) {
+      this.node.setRoute(peerId, null);
+      this.emit({ type: 'transport-changed', peerId, from: session.transport.name, to: this.fallbackName() });
+    }
+  }
+
+  destroy(): void {
+    this.unsubscribeMesh();
+    Array.from(this.sessions.keys()).forEach((peerId) => this.close(peerId));
+    this.eventHandlers.clear();
+  }
+
+  private handleMeshEvent(event: MeshEvent): void {
+    if (event.type !== 'offer_received' || !event.offer.rtc) return;
+    this.handleOffer(event.peerId, event.offer).catch((e) =>
+      this.fail(event.peerId, `Negotiation failed: ${(e as Error).message}`)
+    );
+  }
+
+  private async handleOffer(peerId: string, offer: OfferPayload): Promise<void> {
+    const rtc = offer.rtc!;
+    const kind = rtc[0];
+    const sdp = await decompressSdp(rtc.slice(1));
+
+    if (kind === KIND_ANSWER) {
+      const session = this.sessions.get(peerId);
+      if (!session || session.role !== 'offerer') return;
+      await session.pc.setRemoteDescription({ type: 'answer', sdp });
+      return;
+    }
+
+    if (kind !== KIND_OFFER || !this.autoAccept) return;
+
+    const existing = this.sessions.get(peerId);
+    if (existing) {
+      // Both sides offered at once - the lower device ID keeps its offer
+      if (existing.role === 'offerer' && this.node.mesh.deviceId < peerId) return;
+      this.discard(peerId);
+    }
+
+    const session = this.createSession(peerId, 'answerer');
+    session.pc.ondatachannel = (event) => this.bindChannel(peerId, session, event.channel);
+
+    await session.pc.setRemoteDescription({ type: 'offer', sdp });
+    await session.pc.setLocalDescription(await session.pc.createAnswer());
+    const answer = await this.gatheredSdp(session.pc);
+    await this.sendSdp(peerId, KIND_ANSWER, await compressSdp(answer));
+  }
+
+  private createSession(peerId: string, role: 'offerer' | 'answerer'): UpgradeSession {
+    const pc = this.createPeerConnection(this.rtcConfig);
+    const session: UpgradeSession = {
+      pc,
+      role,
+      timer: setTimeout(() => {
+        if (!session.transport) this.fail(peerId, 'Timed out waiting for data channel');
+      }, this.upgradeTimeout),
+    };
+    this.sessions.set(peerId, session);
+    return session;
+  }
+
+  private bindChannel(peerId: string, session: UpgradeSession, channel: DataChannelLike): void {
+    channel.onopen = () => {
+      if (this.sessions.get(peerId) !== session) return;
+      clearTimeout(session.timer);
+      session.transport = new RTCTransport(channel);
+      const from = this.node.getRoute(peerId)?.name ?? this.fallbackName();
+      this.node.setRoute(peerId, session.transport);
+      this.emit({ type: 'transport-changed', peerId, from, to: session.transport.name });
+    };
+    channel.onclose = () => {
+      if (this.sessions.get(peerId) === session) this.close(peerId);
+    };
+    channel.onerror = () => {
+      if (this.sessions.get(peerId) === session) this.close(peerId);
+    };
+  }
+
+  /**
+   * Wait for ICE gathering so every candidate is in the SDP we send
+   */
+  private gatheredSdp(pc: PeerConnectionLike): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer);
+        pc.onicegatheringstatechange = null;
+        if (pc.localDescription) {
+          resolve(pc.localDescription.sdp);
+        } else {
+          reject(new Error('No local description'));
+        }
+      };
+
+      // Send whatever has been gathered if it takes too long
+      const timer = setTimeout(finish, this.iceGatheringTimeout);
+
+      if (pc.iceGatheringState === 'complete') {
+        finish();
+      } else {
+        pc.onicegatheringstatechange = () => {
+          if (pc.iceGatheringState === 'complete') finish();
+        };
+      }
+    });
+  }
+
+  private async sendSdp(peerId: string, kind: string, compressed: string): Promise<void> {
+    if (await this.node.mesh.sendOffer(peerId, { rtc: kind + compressed }) === -1) {
+      this.fail(peerId, 'Could not send SDP');
+    }
+  }
+
+  private fallbackName(): string {
+    return this.node.getTransports().map((transport) => transport.name).join('+') || 'none';
+  }
+
+  private discard(peerId: string): void {
+    const session = this.sessions.get(peerId);
+    if (!session) return;
+    clearTimeout(session.timer);
+    this.sessions.delete(peerId);
+    session.pc.close();
+  }
+
+  private fail(peerId: string, reason: string): void {
+    if (!this.sessions.has(peerId)) return;
+    this.discard(peerId);
+    this.emit({ type: 'upgrade_failed', peerId, reason });
+  }
+}
+
+// ============================================================
+// LOOPBACK - in-process RTCPeerConnection stand-in
+// ============================================================
+
+class LoopbackChannel implements DataChannelLike {
+  readyState: string = 'connecting';
+  onopen: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  other?: LoopbackChannel;
+
+  open(): void {
+    if (this.readyState !== 'connecting') return;
+    this.readyState = 'open';
+    this.onopen?.();
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 'open') throw new Error('Channel not open');
+    const other = this.other;
+    setTimeout(() => {
+      if (other?.readyState === 'open') other.onmessage?.({ data });
+    }, 0);
+  }
+
+  close(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.onclose?.();
+    this.other?.close();
+  }
+}
+
+class LoopbackPeerConnection implements PeerConnectionLike {
+  localDescription: SessionDescriptionLike | null = null;
+  iceGatheringState: string = 'new';
+  onicegatheringstatechange: (() => void) | null = null;
+  ondatachannel: ((event: { channel: DataChannelLike }) => void) | null = null;
+  channel?: LoopbackChannel;
+  private id: string;
+  private peers: Map<string, LoopbackPeerConnection>;
+  private connectable: () => boolean;
+  private remote?: LoopbackPeerConnection;
+
+  constructor(id: string, peers: Map<string, LoopbackPeerConnection>, connectable: () => boolean) {
+    this.id = id;
+    this.peers = peers;
+    this.connectable = connectable;
+    peers.set(id, this);
+  }
+
+  createDataChannel(): DataChannelLike {
+    this.channel = new LoopbackChannel();
+    return this.channel;
+  }
+
+  async createOffer(): Promise<SessionDescriptionLike> {
+    return { type: 'offer', sdp: this.sdp() };
+  }
+
+  async createAnswer(): Promise<SessionDescriptionLike> {
+    if (!this.remote) throw new Error('No remote offer');
+    return { type: 'answer', sdp: this.sdp() };
+  }
+
+  async setLocalDescription(description: SessionDescriptionLike): Promise<void> {
+    this.localDescription = description;
+    this.iceGatheringState = 'gathering';
+    setTimeout(() => {
+      this.iceGatheringState = 'complete';
+      this.onicegatheringstatechange?.();
+    }, 0);
+  }
+
+  async setRemoteDescription(description: SessionDescriptionLike): Promise<void> {
+    // The session ID in the o= line names the connection that made it
+    const remote = this.peers.get(description.sdp.match(/^o=- (\d+) /m)?.[1] ?? '');
+    if (!remote) throw new Error('Unknown remote description');
+    this.remote = remote;
+    if (description.type === 'answer') this.link(remote);
+  }
+
+  close(): void {
+    this.channel?.close();
+  }
+
+  /**
+   * Answer applied - hand the answerer its end of our channel
+   */
+  private link(answerer: LoopbackPeerConnection): void {
+    const local = this.channel;
+    if (!local || !this.connectable()) return;
+    const remote = new LoopbackChannel();
+    local.other = remote;
+    remote.other = local;
+    answerer.channel = remote;
+    setTimeout(() => {
+      answerer.ondatachannel?.({ channel: remote });
+      local.open();
+      remote.open();
+    }, 0);
+  }
+
+  private sdp(): string {
+    return `v=0\r\no=- ${this.id} 2 IN IP4 127.0.0.1\r\ns=-\r\na=candidate:1 1 udp 2122260223 127.0.0.1 9 typ host\r\n`;
+  }
+}
+
+/**
+ * In-process stand-in for RTCPeerConnection. Connections created by the
+ * same LoopbackRTC find each other through the SDPs they exchange, so the
+ * whole upgrade - offer, answer, channel, migration and fallback - runs
+ * without a browser. Pass createPeerConnection to WebRTCUpgradeManager.
+ */
+export class LoopbackRTC {
+  connectable: boolean = true;   // false: channels never open, as if ICE failed
+  private connections: Map<string, LoopbackPeerConnection> = new Map();
+  private nextId: number = 1;
+
+  createPeerConnection = (): PeerConnectionLike =>
+    new LoopbackPeerConnection(String(this.nextId++), this.connections, () => this.connectable);
+
+  /**
+   * Close every open channel, as if the network dropped
+   */
+  disconnectAll(): void {
+    this.connections.forEach((connection) => connection.channel?.close());
+  }
+}
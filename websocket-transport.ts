@@ -0,0 +1,288 @@
+/**
+ * WebSocket Transport - continue a mesh session over a relay
+ *
+ * Peers bootstrap over QR, then one offers a relay URL (OfferPayload.ws).
+ * Both connect to the relay and the peer is routed over the socket via
+ * MeshNode.setRoute, so the same Peer, packet numbering and ack state
+ * carry on. The relay (see server/relay.ts) forwards each packet to the
+ * socket its dst device ID was last seen on; beacons go to everyone.
+ */
+
+import { encodePacket, decodeFrame, createBeaconPacket } from './protocol';
+import type { MeshEvent } from './mesh';
+import type { MeshNode, Transport, TransportReceiveCallback } from './transport';
+import type { UpgradeEvent, UpgradeEventHandler } from './webrtc-upgrade';
+
+/**
+ * Minimal slice of WebSocket used here
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  onopen: (() => void) | null;
+  onclose: (() => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+export interface WebSocketTransportOptions {
+  deviceId?: string;   // Announced with a beacon on open so the relay can route to us
+  createSocket?: (url: string) => WebSocketLike;
+  onClose?: () => void;
+  onError?: (error: Error) => void;
+}
+
+export interface WebSocketUpgradeOptions {
+  autoAccept?: boolean;   // Connect when a peer offers a relay URL (default true)
+  createSocket?: (url: string) => WebSocketLike;
+}
+
+const OPEN = 1;
+
+/**
+ * Transport over a WebSocket relay
+ */
+export class WebSocketTransport implements Transport {
+  readonly name = 'websocket';
+  readonly url: string;
+  private deviceId?: string;
+  private createSocket: (url: string) => WebSocketLike;
+  private onClose?: () => void;
+  private onError?: (error: Error) => void;
+  private socket: WebSocketLike | null = null;
+  private callbacks: Set<TransportReceiveCallback> = new Set();
+
+  constructor(url: string, options: WebSocketTransportOptions = {}) {
+    this.url = url;
+    this.deviceId = options.deviceId;
+    this.createSocket = options.createSocket
+      ?? ((socketUrl) => new WebSocket(socketUrl) as unknown as WebSocketLike);
+    this.onClose = options.onClose;
+    this.onError = options.onError;
+  }
+
+  /**
+   * Open the socket. Resolves once connected.
+   */
+  start(): Promise<void> {
+    if (this.socket) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const socket = this.createSocket(this.url);
+      let opened = false;
+      this.socket = socket;
+
+      socket.onopen = () => {
+        opened = true;
+        if (this.deviceId) {
+          socket.send(encodePacket(createBeaconPacket(this.deviceId)));
+        }
+        resolve();
+      };
+      socket.onmessage = (event) => {
+        if (typeof event.data === 'string') {
+          this.callbacks.forEach((callback) => callback(event.data as string));
+        }
+      };
+      socket.onerror = () => {
+        const error = new Error(`WebSocket error: ${this.url}`);
+        this.onError?.(error);
+        if (!opened) reject(error);
+      };
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        if (opened) {
+          this.onClose?.();
+        } else {
+          reject(new Error(`WebSocket closed before opening: ${this.url}`));
+        }
+      };
+    });
+  }
+
+  stop(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === OPEN;
+  }
+
+  onReceive(callback: TransportReceiveCallback): () => void {
+    this.callbacks.add(callback);
+    return () => this.callbacks.delete(callback);
+  }
+
+  send(data: string): void {
+    // Dropped while disconnected; the mesh retransmits
+    if (this.socket?.readyState === OPEN) {
+      this.socket.send(data);
+    }
+  }
+}
+
+/**
+ * Relay upgrade manager - moves peers onto a WebSocket relay
+ */
+export class WebSocketUpgradeManager {
+  private node: MeshNode;
+  private sockets: Map<string, Promise<WebSocketTransport>> = new Map();
+  private pending: Map<string, WebSocketTransport> = new Map();
+  private eventHandlers: Set<UpgradeEventHandler> = new Set();
+  private unsubscribeMesh: () => void;
+  private autoAccept: boolean;
+  private createSocket?: (url: string) => WebSocketLike;
+
+  constructor(node: MeshNode, options: WebSocketUpgradeOptions = {}) {
+    this.node = node;
+    this.autoAccept = options.autoAccept ?? true;
+    this.createSocket = options.createSocket;
+    this.unsubscribeMesh = node.mesh.subscribe((event) => this.handleMeshEvent(event));
+  }
+
+  subscribe(handler: UpgradeEventHandler): () => void {
+    this.eventHandlers.add(handler);
+    return () => this.eventHandlers.delete(handler);
+  }
+
+  private emit(event: UpgradeEvent): void {
+    this.eventHandlers.forEach((handler) => handler(event));
+  }
+
+  isUpgraded(peerId: string): boolean {
+    return this.node.getRoute(peerId) instanceof WebSocketTransport;
+  }
+
+  /**
+   * Connect to a relay and offer it to a peer. The peer is routed over the
+   * relay once its first frame arrives there.
+   */
+  async offer(peerId: string, url: string): Promise<void> {
+    if (!this.node.mesh.getPeer(peerId)) {
+      throw new Error(`Unknown peer: ${peerId}`);
+    }
+
+    let transport: WebSocketTransport;
+    try {
+      transport = await this.connect(url);
+    } catch (e) {
+      this.emit({ type: 'upgrade_failed', peerId, reason: (e as Error).message });
+      return;
+    }
+
+    this.pending.set(peerId, transport);
+    if (await this.node.mesh.sendOffer(peerId, { ws: url }) === -1) {
+      this.pending.delete(peerId);
+      this.emit({ type: 'upgrade_failed', peerId, reason: 'Could not send offer' });
+    }
+  }
+
+  /**
+   * Stop routing a peer over the relay. The socket is closed once no
+   * peers use it.
+   */
+  close(peerId: string): void {
+    this.pending.delete(peerId);
+    const transport = this.node.getRoute(peerId);
+    if (!(transport instanceof WebSocketTransport)) return;
+
+    this.unroute(peerId, transport);
+    if (!this.inUse(transport)) {
+      this.sockets.delete(transport.url);
+      transport.stop();
+    }
+  }
+
+  destroy(): void {
+    this.unsubscribeMesh();
+    this.node.mesh.getPeers().forEach((peer) => this.close(peer.id));
+    this.sockets.forEach((socket) => socket.then((transport) => transport.stop(), () => {}));
+    this.sockets.clear();
+    this.pending.clear();
+    this.eventHandlers.clear();
+  }
+
+  private handleMeshEvent(event: MeshEvent): void {
+    if (event.type !== 'offer_received' || !event.offer.ws || !this.autoAccept) return;
+    const { peerId } = event;
+    const url = event.offer.ws;
+
+    this.connect(url)
+      .then((transport) => {
+        // The offerer is already on the relay - route straight away
+        this.pending.delete(peerId);
+        this.route(peerId, transport);
+      })
+      .catch((e) => this.emit({ type: 'upgrade_failed', peerId, reason: (e as Error).message }));
+  }
+
+  /**
+   * Get (or open) the shared socket for a relay URL
+   */
+  private connect(url: string): Promise<WebSocketTransport> {
+    const existing = this.sockets.get(url);
+    if (existing) return existing;
+
+    const transport = new WebSocketTransport(url, {
+      deviceId: this.node.mesh.deviceId,
+      createSocket: this.createSocket,
+      onClose: () => this.handleClose(transport),
+    });
+    transport.onReceive((data) => this.handleFrame(transport, data));
+
+    const connecting = transport.start().then(() => transport);
+    connecting.catch(() => this.sockets.delete(url));
+    this.sockets.set(url, connecting);
+    return connecting;
+  }
+
+  private handleFrame(transport: WebSocketTransport, data: string): void {
+    const result = decodeFrame(data);
+    if (result.ok && this.pending.get(result.packet.src) === transport) {
+      this.pending.delete(result.packet.src);
+      this.route(result.packet.src, transport);
+    }
+  }
+
+  private handleClose(transport: WebSocketTransport): void {
+    this.sockets.delete(transport.url);
+
+    for (const [peerId, pendingTransport] of this.pending) {
+      if (pendingTransport === transport) {
+        this.pending.delete(peerId);
+        this.emit({ type: 'upgrade_failed', peerId, reason: 'Relay connection closed' });
+      }
+    }
+    for (const peer of this.node.mesh.getPeers()) {
+      if (this.node.getRoute(peer.id) === transport) {
+        this.unroute(peer.id, transport);
+      }
+    }
+  }
+
+  private route(peerId: string, transport: WebSocketTransport): void {
+    const current = this.node.getRoute(peerId);
+    if (current === transport) return;
+    const from = current?.name ?? this.fallbackName();
+    this.node.setRoute(peerId, transport);
+    this.emit({ type: 'transport-changed', peerId, from, to: transport.name });
+  }
+
+  private unroute(peerId: string, transport: WebSocketTransport): void {
+    this.node.setRoute(peerId, null);
+    this.emit({ type: 'transport-changed', peerId, from: transport.name, to: this.fallbackName() });
+  }
+
+  private inUse(transport: WebSocketTransport): boolean {
+    if (Array.from(this.pending.values()).includes(transport)) return true;
+    return this.node.mesh.getPeers().some((peer) => this.node.getRoute(peer.id) === transport);
+  }
+
+  private fallbackName(): string {
+    return this.node.getTransports().map((transport) => transport.name).join('+') || 'none';
+  }
+}